@@ -20,6 +20,7 @@ import { loadConfig } from '../../src/shared/config.js';
 import { VaultManager } from '../../src/mcp-server/utils/vault.js';
 import { parseTranscript, extractQAPairs, extractWebResearch } from '../../src/services/transcript.js';
 import { updatePreCompactKnowledge, markBackgroundJobCompleted } from '../../src/shared/session-store.js';
+import { knowledgeActions } from '../../src/services/key-actions.js';
 
 interface SummarizeInput {
   transcript_path: string;
@@ -81,7 +82,7 @@ async function main() {
     }
 
     // Parse transcript
-    const conversation = parseTranscript(input.transcript_path);
+    const conversation = parseTranscript(input.transcript_path, config.redaction);
     if (conversation.turns.length === 0) {
       log('No conversation turns found, exiting');
       if (input.trigger === 'pre-compact') markBackgroundJobCompleted(input.session_id);
@@ -109,18 +110,18 @@ async function main() {
     log('Calling claude -p for AI summarization...');
     const knowledgeItems = await runClaudeP(contextText, input.project, config.summarization.model);
 
-    if (!knowledgeItems || knowledgeItems.length === 0) {
+    // An empty result still lets session-end write the session summary; a failure ends here
+    if (!knowledgeItems || (knowledgeItems.length === 0 && input.trigger === 'pre-compact')) {
       log('AI summarization failed or returned empty - NOT creating any notes (no fallback)');
       if (input.trigger === 'pre-compact') markBackgroundJobCompleted(input.session_id);
       process.exit(0);
     }
 
     log(`AI extracted ${knowledgeItems.length} knowledge items`);
+    const vault = new VaultManager(config.vault.path, config.vault.memFolder);
 
     // Write knowledge to vault
     if (knowledgeItems.length > 0) {
-      const vault = new VaultManager(config.vault.path, config.vault.memFolder);
-
       const knowledgePaths: string[] = [];
       for (const item of knowledgeItems) {
         try {
@@ -166,6 +167,10 @@ async function main() {
       log('No knowledge items to write');
     }
 
+    if (input.trigger === 'session-end') {
+      await finishSession(vault, input, contextText, knowledgeItems, config.summarization.model);
+    }
+
     // Mark background job as completed (so session-end doesn't wait)
     if (input.trigger === 'pre-compact') {
       markBackgroundJobCompleted(input.session_id);
@@ -257,6 +262,119 @@ If nothing significant to extract, return an empty array [].
 
 Respond with ONLY valid JSON, no markdown code blocks, no explanation.`;
 
+  const stdout = await runClaude(prompt, model);
+  if (stdout === null) return null;
+
+  try {
+    // Try to parse JSON from output
+    const trimmed = stdout.trim();
+
+    // Handle potential markdown code blocks
+    let jsonStr = trimmed;
+    const jsonMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonStr = jsonMatch[1].trim();
+    }
+
+    const parsed = JSON.parse(jsonStr);
+    if (Array.isArray(parsed)) {
+      return parsed as KnowledgeResult[];
+    }
+    log(`Unexpected response format: ${typeof parsed}`);
+    return null;
+  } catch (error) {
+    log(`Failed to parse claude -p output: ${error}\nOutput: ${stdout.substring(0, 500)}`);
+    return null;
+  }
+}
+
+/**
+ * Write the AI session summary to the session note and roll the session into the project overview
+ */
+async function finishSession(
+  vault: VaultManager,
+  input: SummarizeInput,
+  contextText: string,
+  knowledgeItems: KnowledgeResult[],
+  model: string
+): Promise<void> {
+  let sessionSummary = '';
+
+  if (input.session_path) {
+    try {
+      const note = await vault.readNote(input.session_path);
+      const keyActions = Array.isArray(note.frontmatter.key_actions) ? note.frontmatter.key_actions.map(String) : [];
+      sessionSummary = (await runClaude(buildSessionSummaryPrompt(input.project, contextText, keyActions), model))?.trim() || '';
+
+      await vault.updateSessionSummary(input.session_path, {
+        summary: sessionSummary || undefined,
+        keyActions: knowledgeActions(knowledgeItems.map(item => item.title)),
+      });
+      log(sessionSummary ? 'Wrote AI session summary' : 'AI session summary failed, keeping simple summary');
+    } catch (error) {
+      log(`ERROR updating session summary: ${error}`);
+    }
+  }
+
+  if (!sessionSummary && knowledgeItems.length === 0) return;
+
+  try {
+    const previous = vault.getProjectOverview(input.project)?.currentState || '';
+    const currentState = await runClaude(
+      buildOverviewPrompt(input.project, previous, sessionSummary, knowledgeItems),
+      model
+    );
+    await vault.updateProjectOverview(input.project, { currentState: currentState?.trim() || undefined });
+    log(currentState ? 'Updated project overview' : 'Refreshed project overview without a new summary');
+  } catch (error) {
+    log(`ERROR updating project overview: ${error}`);
+  }
+}
+
+/**
+ * Prompt asking what a session accomplished
+ */
+function buildSessionSummaryPrompt(project: string, contextText: string, keyActions: string[]): string {
+  return `Summarize this coding session on the project "${project}" in 2-3 sentences.
+
+Key actions recorded:
+${keyActions.length > 0 ? keyActions.map(action => `- ${action}`).join('\n') : '(none)'}
+
+${contextText.substring(0, 15000)}
+
+Say what was accomplished and what was left open, not what tools were used. Return ONLY the summary text: no heading, no JSON, no explanation.`;
+}
+
+/**
+ * Prompt asking for an updated Current State paragraph of the project overview
+ */
+function buildOverviewPrompt(
+  project: string,
+  previous: string,
+  sessionSummary: string,
+  items: KnowledgeResult[]
+): string {
+  const learned = items.length > 0
+    ? `\n\nWhat was learned or decided:\n${items.map(item => `- [${item.type}] ${item.title}: ${item.summary}`).join('\n')}`
+    : '';
+
+  return `You maintain a short overview of the software project "${project}".
+
+Current overview:
+${previous || '(none yet)'}
+
+Latest session:
+${sessionSummary || '(no summary)'}${learned}
+
+Rewrite the overview as one paragraph (max 120 words) describing what the project is, where it stands and what is being worked on. Keep facts from the current overview that are still true and leave out details that only matter to this one session.
+
+Respond with ONLY the paragraph: no heading, no list, no explanation.`;
+}
+
+/**
+ * Run claude -p and return its output, or null if it failed
+ */
+async function runClaude(prompt: string, model: string): Promise<string | null> {
   return new Promise((resolve) => {
     // Write prompt to temp file to avoid shell escaping issues (cross-platform)
     const promptFile = path.join(os.tmpdir(), `claude-prompt-${Date.now()}.txt`);
@@ -297,28 +415,7 @@ Respond with ONLY valid JSON, no markdown code blocks, no explanation.`;
         return;
       }
 
-      try {
-        // Try to parse JSON from output
-        const trimmed = stdout.trim();
-
-        // Handle potential markdown code blocks
-        let jsonStr = trimmed;
-        const jsonMatch = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (jsonMatch) {
-          jsonStr = jsonMatch[1].trim();
-        }
-
-        const parsed = JSON.parse(jsonStr);
-        if (Array.isArray(parsed)) {
-          resolve(parsed as KnowledgeResult[]);
-        } else {
-          log(`Unexpected response format: ${typeof parsed}`);
-          resolve(null);
-        }
-      } catch (error) {
-        log(`Failed to parse claude -p output: ${error}\nOutput: ${stdout.substring(0, 500)}`);
-        resolve(null);
-      }
+      resolve(stdout);
     });
 
     proc.on('error', (error) => {
@@ -4,16 +4,20 @@ import { loadConfig } from '../../src/shared/config.js';
 import { addObservation, readSession } from '../../src/shared/session-store.js';
 import { VaultManager } from '../../src/mcp-server/utils/vault.js';
 import {
-  isSignificantAction,
   generateObservationId,
-  extractFileInfo,
-  extractCommandInfo,
   extractErrorInfo,
+  buildObservation,
   readStdinJson,
 } from './utils/helpers.js';
-import type { PostToolUseInput, Observation, ErrorData } from '../../src/shared/types.js';
+import type { PostToolUseInput, Observation, ErrorData, FileEditData, TestRunData, Session } from '../../src/shared/types.js';
 import { extractToolKnowledge } from '../../src/services/knowledge-extractor.js';
 import { sanitizeProjectName } from '../../src/shared/config.js';
+import { redactNote } from '../../src/shared/redaction.js';
+import { evaluateCapture, isKnowledgeTool } from '../../src/shared/capture-rules.js';
+import { findResolvedErrors, resolveErrorNote, reopenErrorNote, RESOLUTION_PLACEHOLDER } from '../../src/services/error-resolution.js';
+import { errorFingerprint } from '../../src/shared/error-fingerprint.js';
+import { trimStack } from '../../src/shared/diagnostics.js';
+import type { ErrorResolution } from '../../src/services/error-resolution.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
@@ -40,14 +44,14 @@ async function main() {
       return;
     }
 
-    // Handle knowledge-producing tools FIRST (before shouldCapture/isSignificantAction filters)
+    // Handle knowledge-producing tools FIRST (before the capture rules)
     // These tools don't need to pass the observation filters
     if (isKnowledgeTool(input.tool_name)) {
       // Check if tool failed - still record as error
       if (input.tool_response.isError) {
         const errorObservation = buildErrorObservation(input);
         addObservation(input.session_id, errorObservation);
-        await processError(errorObservation, session.project, session.id, config);
+        await processError(errorObservation, session.project, session.id, input.cwd || session.projectPath, config);
       } else {
         // Only extract knowledge from successful responses
         await processKnowledgeTool(input, session.project, session.id, config);
@@ -55,13 +59,8 @@ async function main() {
       return;
     }
 
-    // Filter based on configuration (for file edits, bash commands)
-    if (!shouldCapture(input.tool_name, config)) {
-      return;
-    }
-
-    // Check if action is significant enough to capture
-    if (!isSignificantAction(input)) {
+    // Check the capture switches and rules (see `bun run explain-capture`)
+    if (!evaluateCapture(input, config.capture).capture) {
       return;
     }
 
@@ -73,30 +72,34 @@ async function main() {
 
     // Handle errors specially - create/update error notes in vault
     if (observation.type === 'error' || observation.isError) {
-      await processError(observation, session.project, session.id, config);
+      await processError(observation, session.project, session.id, input.cwd || session.projectPath, config);
     }
 
     // Handle file edits - update file knowledge
     if (observation.type === 'file_edit') {
       await processFileEdit(observation, session.project, session.id, config);
     }
+
+    // Handle test runs - update the project's test history
+    if (observation.type === 'test_run') {
+      await processTestRun(observation, session, config);
+    }
+
+    // A success may resolve errors seen earlier in the session
+    if (!observation.isError && observation.type !== 'error') {
+      await processResolutions(
+        findResolvedErrors(session.observations, observation),
+        session.project,
+        session.id,
+        config
+      );
+    }
   } catch (error) {
     // Silently fail to not break Claude Code
     console.error('Post tool use hook error:', error);
   }
 }
 
-/**
- * Check if a tool produces knowledge worth extracting
- */
-function isKnowledgeTool(toolName: string): boolean {
-  return (
-    toolName === 'WebFetch' ||
-    toolName === 'WebSearch' ||
-    (toolName.includes('context7') && toolName.includes('query-docs'))
-  );
-}
-
 /**
  * Process a knowledge-producing tool and extract/store knowledge
  */
@@ -136,79 +139,6 @@ async function processKnowledgeTool(
   }
 }
 
-function shouldCapture(toolName: string, config: ReturnType<typeof loadConfig>): boolean {
-  switch (toolName) {
-    case 'Write':
-    case 'Edit':
-    case 'MultiEdit':
-      return config.capture.fileEdits;
-    case 'Bash':
-      return config.capture.bashCommands;
-    // Knowledge-producing tools
-    case 'WebFetch':
-    case 'WebSearch':
-      return true; // Always capture web research
-    default:
-      // Capture Context7 tools
-      if (toolName.includes('context7') && toolName.includes('query-docs')) {
-        return true;
-      }
-      return false;
-  }
-}
-
-function buildObservation(input: PostToolUseInput, config: ReturnType<typeof loadConfig>): Observation {
-  const baseObservation: Observation = {
-    id: generateObservationId(),
-    timestamp: new Date().toISOString(),
-    tool: input.tool_name,
-    type: 'other',
-    isError: input.tool_response.isError || false,
-    data: {},
-  };
-
-  switch (input.tool_name) {
-    case 'Write':
-    case 'Edit':
-    case 'MultiEdit':
-      return {
-        ...baseObservation,
-        type: 'file_edit',
-        data: extractFileInfo(input.tool_input, input.tool_response),
-      };
-
-    case 'Bash':
-      const cmdInfo = extractCommandInfo(
-        input.tool_input,
-        input.tool_response,
-        config.capture.bashOutput
-      );
-      if (cmdInfo.isError) {
-        return {
-          ...baseObservation,
-          type: 'error',
-          isError: true,
-          data: extractErrorInfo(input.tool_name, input.tool_input, input.tool_response),
-        };
-      }
-      return {
-        ...baseObservation,
-        type: 'command',
-        data: cmdInfo,
-      };
-
-    default:
-      return {
-        ...baseObservation,
-        type: 'other',
-        data: {
-          input: input.tool_input,
-          output: input.tool_response,
-        },
-      };
-  }
-}
-
 /**
  * Build an error observation for failed knowledge tools
  */
@@ -219,24 +149,26 @@ function buildErrorObservation(input: PostToolUseInput): Observation {
     tool: input.tool_name,
     type: 'error',
     isError: true,
-    data: extractErrorInfo(input.tool_name, input.tool_input, input.tool_response),
+    data: extractErrorInfo(input.tool_name, input.tool_input, input.tool_response, loadConfig().redaction),
   };
 }
 
 /**
  * Process an error observation - create/update error notes
+ * @param cwd Directory the failing call ran in, which relative paths in the error are under
  */
 async function processError(
   observation: Observation,
   project: string,
   sessionId: string,
+  cwd: string,
   config: ReturnType<typeof loadConfig>
 ): Promise<void> {
   if (!config.capture.errors) return;
 
   const vault = new VaultManager(config.vault.path, config.vault.memFolder);
   const errorData = observation.data as ErrorData;
-  const errorHash = hashError(errorData);
+  const errorHash = errorFingerprint(errorData, config.capture.errorFingerprint);
 
   const projectPath = path.join(
     vault.getMemPath(),
@@ -257,8 +189,11 @@ async function processError(
     await updateErrorNote(errorFilePath, observation, sessionId, vault);
   } else {
     // Create new error note
-    await createErrorNote(errorFilePath, observation, project, sessionId);
+    await createErrorNote(errorFilePath, observation, project, sessionId, cwd);
   }
+
+  // Keep the search index in step with the note on disk
+  vault.indexNote(errorFilePath);
 }
 
 /**
@@ -268,12 +203,18 @@ async function createErrorNote(
   filePath: string,
   observation: Observation,
   project: string,
-  sessionId: string
+  sessionId: string,
+  cwd: string
 ): Promise<void> {
   const config = loadConfig();
   const errorData = observation.data as ErrorData;
   const errorType = categorizeError(errorData);
 
+  // File knowledge notes are named after the absolute path edits were made with
+  const fileNote = errorData.file
+    ? `\n**File note**: [[${config.vault.memFolder}/projects/${sanitizeProjectName(project)}/files/${hashFilePath(path.resolve(cwd, errorData.file))}|${path.basename(errorData.file)}]]`
+    : '';
+
   // Parent link to errors category index (errors/errors.md)
   const parentLink = `[[${config.vault.memFolder}/projects/${sanitizeProjectName(project)}/errors/errors]]`;
 
@@ -288,7 +229,7 @@ tags:
   - error/${errorType}
   - project/${sanitizeProjectName(project)}
 parent: "${parentLink}"
-error_type: ${errorData.type || 'unknown'}
+error_type: ${yamlScalar(errorData.type || 'unknown')}
 error_hash: ${path.basename(filePath, '.md')}
 first_seen: ${observation.timestamp}
 last_seen: ${observation.timestamp}
@@ -310,7 +251,7 @@ sessions:
 ## Context
 
 **File**: \`${errorData.file || 'unknown'}\`
-**Line**: ${errorData.line || 'unknown'}
+**Line**: ${errorData.line || 'unknown'}${fileNote}
 
 ## Error Message
 
@@ -321,13 +262,12 @@ ${errorData.message || 'No error message'}
 ${errorData.stack ? `## Stack Trace
 
 \`\`\`
-${errorData.stack}
+${trimStack(errorData.stack)}
 \`\`\`` : ''}
 
 ## Resolution
 
-> [!success] Solution
-> _Not yet resolved_
+${RESOLUTION_PLACEHOLDER}
 
 ## Occurrences
 
@@ -336,7 +276,7 @@ ${errorData.stack}
 | ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | First occurrence |
 `;
 
-  fs.writeFileSync(filePath, frontmatter + content);
+  fs.writeFileSync(filePath, redactNote(frontmatter + content, config.redaction));
 }
 
 /**
@@ -360,6 +300,9 @@ async function updateErrorNote(
     `last_seen: ${observation.timestamp}`
   );
 
+  // A resolved error that happens again is open again
+  updated = reopenErrorNote(updated, observation.timestamp);
+
   // Increment occurrences
   const occurrencesMatch = updated.match(/occurrences: (\d+)/);
   if (occurrencesMatch) {
@@ -397,7 +340,56 @@ async function updateErrorNote(
     }
   }
 
-  fs.writeFileSync(filePath, updated);
+  fs.writeFileSync(filePath, redactNote(updated, loadConfig().redaction));
+}
+
+/**
+ * Mark the error notes of resolved errors as resolved and record the fix
+ */
+async function processResolutions(
+  resolutions: ErrorResolution[],
+  project: string,
+  sessionId: string,
+  config: ReturnType<typeof loadConfig>
+): Promise<void> {
+  if (!config.capture.errors || resolutions.length === 0) return;
+
+  const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+  const errorsPath = path.join(vault.getMemPath(), 'projects', sanitizeProjectName(project), 'errors');
+
+  for (const resolution of resolutions) {
+    const errorHash = errorFingerprint(resolution.error.data as ErrorData, config.capture.errorFingerprint);
+    const errorFilePath = path.join(errorsPath, `${errorHash}.md`);
+    if (!fs.existsSync(errorFilePath)) continue;
+
+    try {
+      resolveErrorNote(errorFilePath, resolution, sessionId, config.redaction);
+      vault.indexNote(errorFilePath);
+    } catch (error) {
+      console.error(`Failed to resolve error note ${errorFilePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Process a test run observation - record it in the project's test history
+ * Files edited earlier in the session tell result changes apart from flakiness.
+ */
+async function processTestRun(
+  observation: Observation,
+  session: Session,
+  config: ReturnType<typeof loadConfig>
+): Promise<void> {
+  const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+  const editedFiles = session.observations
+    .filter(earlier => earlier.type === 'file_edit' && !earlier.isError)
+    .map(edit => (edit.data as FileEditData).path);
+
+  try {
+    await vault.recordTestRun(session.project, observation.data as TestRunData, { sessionId: session.id, editedFiles });
+  } catch (error) {
+    console.error('Failed to record test run:', error);
+  }
 }
 
 /**
@@ -432,6 +424,8 @@ async function processFileEdit(
   } else {
     await createFileKnowledge(knowledgeFilePath, observation, project, sessionId);
   }
+
+  vault.indexNote(knowledgeFilePath);
 }
 
 /**
@@ -444,7 +438,7 @@ async function createFileKnowledge(
   sessionId: string
 ): Promise<void> {
   const config = loadConfig();
-  const fileData = observation.data as { path: string; language?: string; changeType?: string };
+  const fileData = observation.data as FileEditData;
 
   // Parent link to files category index (files/files.md)
   const parentLink = `[[${config.vault.memFolder}/projects/${sanitizeProjectName(project)}/files/files]]`;
@@ -479,14 +473,14 @@ _File purpose not yet documented_
 
 | Date | Session | Change Summary |
 |------|---------|----------------|
-| ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | ${fileData.changeType || 'Modified'} |
+${editHistoryRow(observation, sessionId)}
 
 ## Notes
 
 _No notes yet_
 `;
 
-  fs.writeFileSync(filePath, frontmatter + content);
+  fs.writeFileSync(filePath, redactNote(frontmatter + content, config.redaction));
 }
 
 /**
@@ -498,8 +492,6 @@ async function updateFileKnowledge(
   sessionId: string
 ): Promise<void> {
   const raw = fs.readFileSync(filePath, 'utf-8');
-  const fileData = observation.data as { path: string; changeType?: string };
-
   let updated = raw;
 
   // Update edit_count
@@ -522,7 +514,7 @@ async function updateFileKnowledge(
   );
 
   // Add new row to edit history
-  const newRow = `| ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | ${fileData.changeType || 'Modified'} |`;
+  const newRow = editHistoryRow(observation, sessionId);
 
   const tableMatch = updated.match(/(\| Date \| Session \| Change Summary \|\n\|[-|\s]+\|)/);
   if (tableMatch) {
@@ -530,15 +522,23 @@ async function updateFileKnowledge(
     updated = updated.substring(0, insertPos) + '\n' + newRow + updated.substring(insertPos);
   }
 
-  fs.writeFileSync(filePath, updated);
+  fs.writeFileSync(filePath, redactNote(updated, loadConfig().redaction));
+}
+
+/**
+ * Edit History row: the change type with its line counts and first changed line
+ */
+function editHistoryRow(observation: Observation, sessionId: string): string {
+  const fileData = observation.data as FileEditData;
+  const change = [fileData.changeType || 'Modified', fileData.summary].filter(Boolean).join(' ');
+  return `| ${observation.timestamp.split('T')[0]} | ${sessionId.substring(0, 8)} | ${change.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`;
 }
 
 /**
- * Hash an error for deduplication
+ * A YAML plain scalar, quoted when it would not parse as one (e.g. `@typescript-eslint/no-unused-vars`)
  */
-function hashError(error: ErrorData): string {
-  const key = `${error.type || ''}:${error.message || ''}:${error.file || ''}`;
-  return crypto.createHash('md5').update(key).digest('hex').substring(0, 12);
+function yamlScalar(value: string): string {
+  return /^\w([\w .\/-]*\w)?$/.test(value) ? value : JSON.stringify(value);
 }
 
 /**
@@ -18,7 +18,9 @@ import { loadConfig, sanitizeProjectName } from '../../src/shared/config.js';
 import { endSession, readSession, clearSessionFile, getPreCompactKnowledge } from '../../src/shared/session-store.js';
 import { VaultManager } from '../../src/mcp-server/utils/vault.js';
 import { readStdinJson } from './utils/helpers.js';
-import type { SessionEndInput, Session, Observation } from '../../src/shared/types.js';
+import { extractKeyActions, fileLineCounts } from '../../src/services/key-actions.js';
+import { redactNote } from '../../src/shared/redaction.js';
+import type { SessionEndInput, Session, Observation, FileEditData, TestRunData } from '../../src/shared/types.js';
 
 async function main() {
   try {
@@ -59,8 +61,11 @@ async function main() {
     // Generate simple summary without AI (fast, synchronous)
     session.summary = generateSimpleSummary(session, preCompactPaths.length);
 
+    // Record what the session did, for recent-session context
+    const keyActions = extractKeyActions(session, await readKnowledgeTitles(config, preCompactPaths));
+
     // Persist session to vault immediately (no waiting for AI)
-    const sessionPath = await persistSession(session, config, preCompactPaths);
+    const sessionPath = await persistSession(session, config, preCompactPaths, keyActions);
 
     // Link session to pre-compact knowledge items
     if (preCompactPaths.length > 0 && sessionPath) {
@@ -72,6 +77,14 @@ async function main() {
       }
     }
 
+    // Refresh the project overview with this session
+    try {
+      const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+      await vault.updateProjectOverview(session.project);
+    } catch (error) {
+      console.error('Failed to update project overview:', error);
+    }
+
     // Spawn background script for AI summarization (if enabled and transcript available)
     if (config.summarization.enabled && input.transcript_path) {
       const backgroundInput = JSON.stringify({
@@ -146,13 +159,27 @@ function generateSimpleSummary(session: Session, knowledgeCount: number): string
   return parts.join(', ') + '.';
 }
 
+/**
+ * Titles of knowledge notes captured before compaction
+ */
+async function readKnowledgeTitles(
+  config: ReturnType<typeof loadConfig>,
+  knowledgePaths: string[]
+): Promise<string[]> {
+  if (knowledgePaths.length === 0) return [];
+
+  const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+  return (await vault.readNoteTitles(knowledgePaths)).map(note => note.title);
+}
+
 /**
  * Persist session to vault as markdown
  */
 async function persistSession(
   session: Session,
   config: ReturnType<typeof loadConfig>,
-  knowledgePaths: string[] = []
+  knowledgePaths: string[] = [],
+  keyActions: string[] = []
 ): Promise<string> {
   const vault = new VaultManager(config.vault.path, config.vault.memFolder);
 
@@ -195,13 +222,15 @@ files_modified: ${session.filesModified.length}
 commands_run: ${session.commandsRun}
 errors_encountered: ${session.errorsEncountered}
 knowledge_captured: ${knowledgeCount}
+key_actions:${keyActions.length > 0 ? keyActions.map(action => `\n  - ${JSON.stringify(action)}`).join('') : ' []'}
 ---
 
 `;
 
   const content = generateSessionContent(session);
 
-  fs.writeFileSync(filePath, frontmatter + content);
+  fs.writeFileSync(filePath, redactNote(frontmatter + content, config.redaction));
+  vault.indexNote(filePath);
 
   return relativePath;
 }
@@ -259,16 +288,17 @@ function generateSessionContent(session: Session): string {
     // Group by type
     const fileEdits = toolActions.filter(obs => obs.type === 'file_edit');
     const commands = toolActions.filter(obs => obs.type === 'command');
+    const testRuns = toolActions.filter(obs => obs.type === 'test_run');
     const errors = toolActions.filter(obs => obs.type === 'error' || obs.isError);
     const other = toolActions.filter(obs =>
-      obs.type !== 'file_edit' && obs.type !== 'command' && obs.type !== 'error' && !obs.isError
+      obs.type !== 'file_edit' && obs.type !== 'command' && obs.type !== 'test_run' && obs.type !== 'error' && !obs.isError
     );
 
     if (fileEdits.length > 0) {
       lines.push(`**File Edits**: ${fileEdits.length}`);
       for (const edit of fileEdits.slice(0, 5)) {
-        const data = edit.data as { path?: string; changeType?: string };
-        lines.push(`- \`${data.path}\` (${data.changeType || 'modified'})`);
+        const data = edit.data as FileEditData;
+        lines.push(`- \`${data.path}\` (${[data.changeType || 'modified', data.summary].filter(Boolean).join(', ')})`);
       }
       if (fileEdits.length > 5) {
         lines.push(`- _... and ${fileEdits.length - 5} more edits_`);
@@ -289,6 +319,16 @@ function generateSessionContent(session: Session): string {
       lines.push('');
     }
 
+    if (testRuns.length > 0) {
+      lines.push(`**Test Runs**: ${testRuns.length}`);
+      for (const run of testRuns.slice(-5)) {
+        const data = run.data as TestRunData;
+        const failing = data.failures.length > 0 ? ` (${data.failures.slice(0, 3).map(name => `\`${name}\``).join(', ')}${data.failures.length > 3 ? ', ...' : ''})` : '';
+        lines.push(`- \`${data.command.substring(0, 60)}\`: ${data.passed} passed, ${data.failed} failed${failing}`);
+      }
+      lines.push('');
+    }
+
     if (errors.length > 0) {
       lines.push(`**Errors Encountered**: ${errors.length}`);
       for (const err of errors.slice(0, 3)) {
@@ -314,8 +354,10 @@ function generateSessionContent(session: Session): string {
   if (session.filesModified.length > 0) {
     lines.push('## Files Modified');
     lines.push('');
+    const lineCounts = fileLineCounts(session.observations);
     for (const file of session.filesModified.slice(0, 20)) {
-      lines.push(`- \`${file}\``);
+      const counts = lineCounts.get(file);
+      lines.push(`- \`${file}\`${counts ? ` (${counts})` : ''}`);
     }
     if (session.filesModified.length > 20) {
       lines.push(`- _... and ${session.filesModified.length - 20} more files_`);
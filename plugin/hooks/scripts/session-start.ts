@@ -1,10 +1,24 @@
 #!/usr/bin/env bun
 
 import { loadConfig } from '../../src/shared/config.js';
-import { startSession } from '../../src/shared/session-store.js';
+import { loadProjectConfig } from '../../src/shared/project-config.js';
+import {
+  startSession,
+  resumeSession,
+  markCompacted,
+  recordInjectedNotes,
+  getInjectedNotes,
+  clearInjectedNotes,
+  getPreCompactKnowledge,
+} from '../../src/shared/session-store.js';
 import { VaultManager } from '../../src/mcp-server/utils/vault.js';
-import { getProjectInfo, readStdinJson } from './utils/helpers.js';
-import type { SessionStartInput } from '../../src/shared/types.js';
+import { assembleContext, shortenText } from '../../src/shared/context-assembler.js';
+import { pinnedSection } from '../../src/shared/pinned-context.js';
+import { buildCompactionRecap } from '../../src/services/compaction-recap.js';
+import { describeFlakyTest, flakyTestId } from '../../src/mcp-server/utils/test-history.js';
+import { getProjectInfo, getWorkingTreeState, readStdinJson } from './utils/helpers.js';
+import type { ContextSection } from '../../src/shared/context-assembler.js';
+import type { SessionStartInput, ContextItem, ContextItemKind, ProjectOverview, FlakyTest } from '../../src/shared/types.js';
 
 async function main() {
   try {
@@ -17,31 +31,81 @@ async function main() {
 
     // Read JSON input from stdin
     const input = await readStdinJson<SessionStartInput>();
+    const source = input.source || 'startup';
 
     // Get project info from git or directory
     const project = await getProjectInfo(input.cwd);
-
-    // Initialize session in file store
-    startSession(input.session_id, project.name, input.cwd);
+    // Context settings with the project's profile and overrides applied
+    const contextConfig = loadProjectConfig(project.name, input.cwd).contextInjection;
+
+    // Startup begins a session in the file store; resume, clear and compact continue it
+    const session = source === 'startup'
+      ? startSession(input.session_id, project.name, input.cwd)
+      : resumeSession(input.session_id, project.name, input.cwd);
+
+    // Whatever was injected before is gone from the conversation (compact keeps only a summary of it)
+    let previousCompaction: string | undefined;
+    if (source === 'clear' || source === 'compact') {
+      clearInjectedNotes(input.session_id);
+    }
+    if (source === 'compact') {
+      previousCompaction = markCompacted(input.session_id);
+    }
 
     // Ensure vault structure exists for this project
     const vault = new VaultManager(config.vault.path, config.vault.memFolder);
     await vault.ensureProjectStructure(project.name);
 
-    // If context injection is enabled, get relevant context from vault
-    if (config.contextInjection.enabled) {
+    // If context injection is enabled, get the context most relevant to the working tree
+    if (contextConfig.enabled) {
       try {
-        const context = await vault.getProjectContext(project.name, {
-          includeRecentSessions: config.contextInjection.includeRecentSessions,
-          includeErrors: config.contextInjection.includeRelatedErrors,
-          includeDecisions: true,
-          includePatterns: config.contextInjection.includeProjectPatterns,
+        // A resumed conversation still holds what was injected before; only add what's new
+        const injected = new Set(source === 'resume' ? getInjectedNotes(input.session_id) : []);
+
+        // Instructions and pinned notes lead every context, whatever ranking says
+        const pinned = vault.getPinnedNotes(project.name).filter(note => !injected.has(note.path));
+        const pinnedPaths = new Set(pinned.map(note => note.path));
+        const leading = pinnedSection(pinned, contextConfig.pinnedShare);
+
+        // After compaction, recap the work that was compacted instead of project context
+        if (source === 'compact') {
+          const knowledge = await vault.readNoteTitles(getPreCompactKnowledge(input.session_id, KNOWLEDGE_WAIT_MS));
+          const recap = buildCompactionRecap(session, knowledge, previousCompaction, contextConfig.maxTokens, [leading]);
+          if (recap.text) {
+            console.log(recap.text);
+            // Knowledge in the recap is only linked, so only pinned notes count as injected
+            recordInjectedNotes(input.session_id, recap.included.filter(id => pinnedPaths.has(id)));
+          }
+          return;
+        }
+
+        const state = getWorkingTreeState(input.cwd, project.gitBranch);
+        const items = await vault.getRelevantContext(project.name, state, {
+          includeRecentSessions: contextConfig.includeRecentSessions,
+          includeErrors: contextConfig.includeRelatedErrors,
+          includeDecisions: contextConfig.includeDecisions,
+          includePatterns: contextConfig.includeProjectPatterns,
         });
 
+        const overview = vault.getProjectOverview(project.name);
+        const flakyTests = contextConfig.includeFlakyTests
+          ? vault.getFlakyTests(project.name).filter(test => !injected.has(flakyTestId(test)))
+          : [];
+
         // Format and output context if there's anything useful
-        const formatted = formatProjectContext(context, config.contextInjection.maxTokens);
-        if (formatted) {
-          console.log(formatted);
+        const formatted = formatRelevantContext(
+          vault,
+          project.name,
+          leading,
+          overview && !injected.has(overview.path) ? overview : null,
+          items.filter(item => !injected.has(item.path) && !pinnedPaths.has(item.path)),
+          flakyTests,
+          contextConfig.maxTokens
+        );
+        if (formatted.output) {
+          console.log(formatted.output);
+          // Prompt recall shouldn't repeat these
+          recordInjectedNotes(input.session_id, formatted.paths);
         }
       } catch {
         // Silently skip context injection on error
@@ -53,58 +117,91 @@ async function main() {
   }
 }
 
-/**
- * Format project context for output
- */
-function formatProjectContext(
-  context: Awaited<ReturnType<VaultManager['getProjectContext']>>,
-  maxTokens: number
-): string {
-  const lines: string[] = [];
-
-  // Add header
-  lines.push(`<!-- Memory context for ${context.project} -->`);
-
-  // Recent sessions
-  if (context.recentSessions.length > 0) {
-    lines.push('\n## Recent Sessions');
-    for (const session of context.recentSessions.slice(0, 3)) {
-      lines.push(`- **${session.date}**: ${session.summary || 'No summary'}`);
-    }
-  }
-
-  // Unresolved errors
-  if (context.unresolvedErrors.length > 0) {
-    lines.push('\n## Known Issues');
-    for (const error of context.unresolvedErrors.slice(0, 5)) {
-      lines.push(`- **${error.type}**: ${error.message}`);
-    }
-  }
+/** How long to wait for the PreCompact summarizer's knowledge notes */
+const KNOWLEDGE_WAIT_MS = 2000;
 
-  // Active decisions
-  if (context.activeDecisions.length > 0) {
-    lines.push('\n## Active Decisions');
-    for (const decision of context.activeDecisions.slice(0, 3)) {
-      lines.push(`- **${decision.title}**: ${decision.decision}`);
-    }
-  }
-
-  // Patterns
-  if (context.patterns.length > 0) {
-    lines.push('\n## Patterns');
-    for (const pattern of context.patterns.slice(0, 3)) {
-      lines.push(`- **${pattern.name}**: ${pattern.description}`);
-    }
-  }
+/** Tokens of summary shown for a single item; the brief form drops the summary altogether */
+const MAX_SUMMARY_TOKENS = 60;
 
-  const output = lines.join('\n');
+/**
+ * Output order and budget rules per kind
+ * Notes about files being edited come first and get the most room; patterns
+ * only get what's left after a fifth of the budget.
+ */
+const SECTIONS: Array<{
+  kind: ContextItemKind;
+  heading: string;
+  noun: string;
+  category?: string;
+  priority: number;
+  minShare?: number;
+  maxShare?: number;
+}> = [
+  { kind: 'file', heading: 'Files You Are Working On', noun: 'files', category: 'files', priority: 5, minShare: 0.15, maxShare: 0.35 },
+  { kind: 'error', heading: 'Known Issues', noun: 'errors', category: 'errors', priority: 4, minShare: 0.15, maxShare: 0.3 },
+  { kind: 'decision', heading: 'Active Decisions', noun: 'decisions', category: 'decisions', priority: 3, minShare: 0.15, maxShare: 0.3 },
+  { kind: 'session', heading: 'Recent Sessions', noun: 'sessions', category: 'sessions', priority: 2, minShare: 0.1, maxShare: 0.25 },
+  { kind: 'pattern', heading: 'Patterns', noun: 'patterns', priority: 1, maxShare: 0.2 },
+];
 
-  // Rough token estimate (4 chars per token)
-  if (output.length > maxTokens * 4) {
-    return output.substring(0, maxTokens * 4) + '\n...';
-  }
+/**
+ * Format ranked context for output
+ * Pinned notes and the project overview lead, then each kind becomes a section,
+ * followed by flaky tests; entries that don't fit the token budget are
+ * shortened and then listed by link.
+ */
+function formatRelevantContext(
+  vault: VaultManager,
+  project: string,
+  pinned: ContextSection,
+  overview: ProjectOverview | null,
+  items: ContextItem[],
+  flakyTests: FlakyTest[],
+  maxTokens: number
+): { output: string; paths: string[] } {
+  const overviewLink = overview?.path.replace(/\.md$/, '');
+  const sections: ContextSection[] = [pinned, {
+    heading: 'Project Overview',
+    priority: 6,
+    maxShare: 0.25,
+    noun: 'notes',
+    entries: overview && overview.summary
+      ? [{ id: overview.path, text: overview.summary, brief: `See [[${overviewLink}]]`, link: overviewLink! }]
+      : [],
+  }];
+
+  sections.push(...SECTIONS.map(({ kind, category, ...section }) => ({
+    ...section,
+    moreLink: category ? vault.getProjectIndexLink(project, category) : undefined,
+    entries: items.filter(item => item.kind === kind).map(item => ({
+      id: item.path,
+      text: formatContextItem(item),
+      brief: `- [[${item.path.replace(/\.md$/, '')}|${item.title}]]`,
+      link: item.path.replace(/\.md$/, ''),
+    })),
+  })));
+
+  sections.push({
+    heading: 'Flaky Tests',
+    priority: 4,
+    maxShare: 0.15,
+    noun: 'tests',
+    entries: flakyTests.map(test => ({
+      id: flakyTestId(test),
+      text: describeFlakyTest(test),
+      brief: `- \`${test.name}\``,
+      link: test.path.replace(/\.md$/, ''),
+    })),
+  });
+
+  const assembled = assembleContext(`<!-- Memory context for ${project} -->`, sections, maxTokens);
+  return { output: assembled.text, paths: assembled.included };
+}
 
-  return output;
+function formatContextItem(item: ContextItem): string {
+  const summary = shortenText(item.summary, MAX_SUMMARY_TOKENS);
+  const why = item.reasons.length > 0 ? ` _(${item.reasons.join('; ')})_` : '';
+  return `- **${item.title}**: ${summary || 'No summary'}${why}`;
 }
 
 main();
@@ -5,12 +5,20 @@
  *
  * Runs when user submits a prompt, before Claude processes it.
  * Captures user prompts as observations for later analysis.
+ *
+ * With contextInjection.promptRecall enabled, also searches memory for the
+ * prompt and returns matching notes as additionalContext. Notes already
+ * injected earlier in the session are skipped.
  */
 
 import { loadConfig } from '../../src/shared/config.js';
-import { addObservation, readSession } from '../../src/shared/session-store.js';
+import { loadProjectConfig } from '../../src/shared/project-config.js';
+import { addObservation, readSession, getInjectedNotes, recordInjectedNotes } from '../../src/shared/session-store.js';
+import { VaultManager } from '../../src/mcp-server/utils/vault.js';
+import { recallWithTimeout, type Recall } from '../../src/services/recall.js';
+import { redact } from '../../src/shared/redaction.js';
 import { readStdinJson, generateObservationId } from './utils/helpers.js';
-import type { Observation } from '../../src/shared/types.js';
+import type { Config, Observation, Session } from '../../src/shared/types.js';
 
 interface UserPromptSubmitInput {
   session_id: string;
@@ -52,17 +60,55 @@ async function main() {
       type: 'other',
       isError: false,
       data: {
-        prompt: input.prompt.substring(0, 5000), // Truncate very long prompts
+        prompt: redact(input.prompt, config.redaction).text.substring(0, 5000), // Truncate very long prompts
         promptLength: input.prompt.length,
       },
     };
 
     // Add to session observations
     addObservation(input.session_id, observation);
+
+    // Recall settings can differ per project
+    const projectConfig = loadProjectConfig(session.project, session.projectPath);
+    if (projectConfig.contextInjection.enabled && projectConfig.contextInjection.promptRecall.enabled) {
+      const recall = await recallPrompt(projectConfig, session, input.prompt);
+      if (recall && recall.context) {
+        recordInjectedNotes(input.session_id, recall.paths);
+        console.log(JSON.stringify({
+          hookSpecificOutput: {
+            hookEventName: 'UserPromptSubmit',
+            additionalContext: recall.context,
+          },
+        }));
+      }
+    }
   } catch (error) {
     // Silently fail to not break Claude Code
     console.error('UserPromptSubmit hook error:', error);
   }
 }
 
-main();
+/**
+ * Search memory for the prompt within promptRecall.timeoutMs
+ * The vault isn't walked for outside edits first: in a fresh process that
+ * walk would run on every prompt and block the timeout from firing.
+ */
+async function recallPrompt(config: Config, session: Session, prompt: string): Promise<Recall | null> {
+  const options = config.contextInjection.promptRecall;
+  const vault = new VaultManager(config.vault.path, config.vault.memFolder, { indexSync: false });
+  try {
+    return await recallWithTimeout(vault, prompt, {
+      project: session.project,
+      mode: options.mode,
+      maxResults: options.maxResults,
+      maxTokens: options.maxTokens,
+      exclude: getInjectedNotes(session.id),
+      timeoutMs: options.timeoutMs,
+    });
+  } finally {
+    vault.getSearchIndex().close();
+  }
+}
+
+// Exit once output is written; a recall that timed out may still hold the event loop
+main().then(() => process.exit(0));
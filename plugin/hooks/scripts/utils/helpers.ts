@@ -1,8 +1,13 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import type { ProjectInfo, Observation, PostToolUseInput, ProjectContext } from '../../../src/shared/types.js';
+import { spawnSync } from 'child_process';
+import type { Config, PostToolUseInput, ProjectInfo, Observation, ProjectContext, WorkingTreeState, RedactionConfig, FileEditData, ErrorData, CommandData, TestRunData } from '../../../src/shared/types.js';
 import { LANGUAGE_MAP } from '../../../src/shared/constants.js';
+import { redact, redactValue } from '../../../src/shared/redaction.js';
+import { parseDiagnostic, findSourceLocation } from '../../../src/shared/diagnostics.js';
+import { parseTestRun } from '../../../src/shared/test-results.js';
+import { diffLines, diffStats, formatPatch, firstChangedLine, MAX_PATCH_LENGTH } from '../../../src/shared/line-diff.js';
 
 /**
  * Find the git root directory by searching up the directory tree
@@ -64,106 +69,162 @@ export async function getProjectInfo(cwd: string): Promise<ProjectInfo> {
   return info;
 }
 
+/** Hooks must stay fast; git calls that take longer are abandoned */
+const GIT_TIMEOUT_MS = 2000;
+/** Commits whose files count as recently changed */
+const RECENT_COMMITS = 5;
+const MAX_WORKING_TREE_FILES = 50;
+
 /**
- * Generate a unique observation ID
+ * Run a git command, returning stdout or null on any failure
  */
-export function generateObservationId(): string {
-  const timestamp = Date.now().toString(36);
-  const random = crypto.randomBytes(4).toString('hex');
-  return `${timestamp}-${random}`;
+function runGit(cwd: string, args: string[]): string | null {
+  try {
+    const result = spawnSync('git', ['-c', 'core.quotePath=false', ...args], {
+      cwd,
+      encoding: 'utf-8',
+      timeout: GIT_TIMEOUT_MS,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    return result.status === 0 ? result.stdout : null;
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Check if an action is significant enough to capture.
- * Uses fixed heuristics: file changes, errors, and non-trivial bash commands.
+ * Collect the branch, uncommitted files and recently committed files of a repository
+ * Returns empty lists outside a git repository or if git is unavailable.
  */
-export function isSignificantAction(input: PostToolUseInput): boolean {
-  // Always capture errors
-  if (input.tool_response.isError) {
-    return true;
+export function getWorkingTreeState(cwd: string, branch?: string): WorkingTreeState {
+  const state: WorkingTreeState = { branch, changedFiles: [], recentFiles: [] };
+
+  // -z output: "XY path\0", renames and copies add "original\0"
+  const status = runGit(cwd, ['status', '--porcelain', '-z', '--untracked-files=all']);
+  if (status) {
+    const entries = status.split('\0');
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (entry.length < 4) continue;
+      state.changedFiles.push(entry.substring(3));
+      if (entry[0] === 'R' || entry[0] === 'C') i++;
+    }
   }
 
-  // For file operations, check if it's a meaningful change
-  if (input.tool_name === 'Write' || input.tool_name === 'Edit' || input.tool_name === 'MultiEdit') {
-    return true; // All file changes are significant
+  const log = runGit(cwd, ['log', `-${RECENT_COMMITS}`, '--name-only', '--pretty=format:']);
+  if (log) {
+    const changed = new Set(state.changedFiles);
+    state.recentFiles = [...new Set(log.split('\n').map(line => line.trim()))]
+      .filter(file => file && !changed.has(file));
   }
 
-  // For bash commands, filter out trivial commands
-  if (input.tool_name === 'Bash') {
-    const command = (input.tool_input.command as string || '').toLowerCase();
-
-    // Skip trivial commands
-    const trivialCommands = ['ls', 'pwd', 'cd', 'echo', 'cat', 'head', 'tail', 'wc'];
-    if (trivialCommands.some(c => command.startsWith(c + ' ') || command === c)) {
-      return false;
-    }
-
-    // Keep significant commands
-    const significantPatterns = [
-      'npm', 'yarn', 'pnpm', 'bun',
-      'git',
-      'docker',
-      'make',
-      'cargo',
-      'go ',
-      'python',
-      'pip',
-      'test',
-      'build',
-      'deploy',
-    ];
-
-    return significantPatterns.some(p => command.includes(p));
-  }
+  state.changedFiles = state.changedFiles.slice(0, MAX_WORKING_TREE_FILES);
+  state.recentFiles = state.recentFiles.slice(0, MAX_WORKING_TREE_FILES);
+  return state;
+}
 
-  return false;
+/**
+ * Generate a unique observation ID
+ */
+export function generateObservationId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = crypto.randomBytes(4).toString('hex');
+  return `${timestamp}-${random}`;
 }
 
 /**
  * Extract file info from a tool use
+ * Line counts and the patch come from the Edit/MultiEdit old/new string pairs
+ * or the Write content; the patch and summary are redacted.
  */
 export function extractFileInfo(
   input: Record<string, unknown>,
-  response: { content: Array<{ type: string; text?: string }>; isError?: boolean }
-): {
-  path: string;
-  language: string;
-  changeType: 'create' | 'modify' | 'delete';
-  linesAdded?: number;
-  linesRemoved?: number;
-} {
+  response: { content: Array<{ type: string; text?: string }>; isError?: boolean },
+  redaction?: RedactionConfig
+): FileEditData {
   const filePath = (input.file_path as string) || (input.path as string) || 'unknown';
   const ext = path.extname(filePath);
   const language = LANGUAGE_MAP[ext] || 'unknown';
 
-  // Determine change type from response
-  let changeType: 'create' | 'modify' | 'delete' = 'modify';
-  const responseText = response.content
-    .filter(c => c.type === 'text')
-    .map(c => c.text)
-    .join(' ')
-    .toLowerCase();
+  const change = fileChange(input, response);
+  const diffs = change.pairs.map(([before, after]) => diffLines(before, after));
+  const { added, removed } = diffStats(diffs);
+  const linesRemoved = change.removedKnown ? removed : undefined;
 
-  if (responseText.includes('created')) {
-    changeType = 'create';
-  } else if (responseText.includes('deleted')) {
-    changeType = 'delete';
-  }
+  const patch = formatPatch(diffs, MAX_PATCH_LENGTH, text => redact(text, redaction).text);
+  const firstLine = firstChangedLine(diffs);
+  const counts = `+${added}${linesRemoved !== undefined ? ` -${linesRemoved}` : ''}`;
 
   return {
     path: filePath,
     language,
-    changeType,
+    changeType: change.changeType,
+    linesAdded: added,
+    linesRemoved,
+    summary: firstLine
+      ? `${counts}: \`${truncateLine(redact(firstLine, redaction).text, MAX_SUMMARY_LINE_LENGTH)}\``
+      : counts,
+    ...(patch ? { patch } : {}),
   };
 }
 
+/** Length of the changed line quoted in a file edit summary */
+const MAX_SUMMARY_LINE_LENGTH = 60;
+
+/**
+ * Old/new text pairs of a file tool call
+ * Write only reports the old content in newer hook payloads (`originalFile`);
+ * without it the removed lines are unknown.
+ */
+function fileChange(
+  input: Record<string, unknown>,
+  response: object
+): { pairs: Array<[string, string]>; changeType: FileEditData['changeType']; removedKnown: boolean } {
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+  if (Array.isArray(input.edits)) {
+    const pairs = input.edits.map(edit => [text(edit?.old_string), text(edit?.new_string)] as [string, string]);
+    return { pairs, changeType: 'modify', removedKnown: true };
+  }
+
+  if (typeof input.old_string === 'string' || typeof input.new_string === 'string') {
+    // An Edit with an empty old string creates the file
+    const changeType = input.old_string === '' ? 'create' : 'modify';
+    return { pairs: [[text(input.old_string), text(input.new_string)]], changeType, removedKnown: true };
+  }
+
+  const reported = response as { type?: unknown; originalFile?: unknown };
+  const created = reported.type === 'create' || /\bfile created\b/i.test(responseText(response));
+  const original = typeof reported.originalFile === 'string' ? reported.originalFile : null;
+  return {
+    pairs: [[created ? '' : original || '', text(input.content)]],
+    changeType: created ? 'create' : 'modify',
+    removedKnown: created || original !== null,
+  };
+}
+
+function responseText(response: object, separator = ' '): string {
+  const content = (response as { content?: unknown }).content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter(c => c?.type === 'text' && typeof c.text === 'string')
+    .map(c => c.text)
+    .join(separator);
+}
+
+function truncateLine(line: string, maxLength: number): string {
+  return line.length > maxLength ? `${line.substring(0, maxLength - 1)}…` : line;
+}
+
 /**
  * Extract command info from a bash tool use
+ * Secrets in the command and output are redacted before the output is truncated.
  */
 export function extractCommandInfo(
   input: Record<string, unknown>,
   response: { content: Array<{ type: string; text?: string }>; isError?: boolean },
-  bashOutputConfig?: { enabled: boolean; maxLength: number }
+  bashOutputConfig?: { enabled: boolean; maxLength: number },
+  redaction?: RedactionConfig
 ): {
   command: string;
   exitCode: number;
@@ -188,34 +249,39 @@ export function extractCommandInfo(
   const maxLength = bashOutputConfig?.maxLength ?? 5000;
 
   return {
-    command,
+    command: redact(command, redaction).text,
     exitCode,
-    output: captureOutput ? rawOutput.substring(0, maxLength) : undefined,
+    output: captureOutput ? redact(rawOutput, redaction).text.substring(0, maxLength) : undefined,
     isError: response.isError || exitCode !== 0,
   };
 }
 
 /**
  * Extract error info from a failed tool response
+ * Known diagnostic formats (stack traces, tracebacks, compiler and linter
+ * output, test failures) give the type, message, originating file and line
+ * and stack; anything else falls back to common error patterns.
+ * Secrets in the message, stack and command context are redacted.
  */
 export function extractErrorInfo(
   toolName: string,
   input: Record<string, unknown>,
-  response: { content: Array<{ type: string; text?: string }>; isError?: boolean }
-): {
-  type: string;
-  message: string;
-  file?: string;
-  context?: string;
-} {
-  const output = response.content
-    .filter(c => c.type === 'text')
-    .map(c => c.text)
-    .join('\n');
+  response: { content: Array<{ type: string; text?: string }>; isError?: boolean },
+  redaction?: RedactionConfig
+): ErrorData {
+  const output = redact(
+    response.content
+      .filter(c => c.type === 'text')
+      .map(c => c.text)
+      .join('\n'),
+    redaction
+  ).text;
+
+  const diagnostic = parseDiagnostic(output);
 
   // Try to extract error type and message
-  let type = 'UnknownError';
-  let message = output.substring(0, 500);
+  let type = diagnostic?.type || 'UnknownError';
+  let message = diagnostic?.message || output.substring(0, 500);
 
   // Common error patterns
   const errorPatterns = [
@@ -225,41 +291,190 @@ export function extractErrorInfo(
     /failed:\s*(.+)/i,
   ];
 
-  for (const pattern of errorPatterns) {
-    const match = output.match(pattern);
-    if (match) {
-      if (match[2]) {
-        type = match[1];
-        message = match[2];
-      } else {
-        message = match[1];
+  if (!diagnostic) {
+    for (const pattern of errorPatterns) {
+      const match = output.match(pattern);
+      if (match) {
+        if (match[2]) {
+          type = match[1];
+          message = match[2];
+        } else {
+          message = match[1];
+        }
+        break;
       }
-      break;
     }
   }
 
-  const result: {
-    type: string;
-    message: string;
-    file?: string;
-    context?: string;
-  } = { type, message };
+  const result: ErrorData = { type, message };
+  if (diagnostic?.stack) {
+    result.stack = diagnostic.stack;
+  }
 
-  // Try to extract file from input
+  // Try to extract file from input, else from the diagnostic or the first source location in the output
   if (input.file_path) {
     result.file = input.file_path as string;
   } else if (input.path) {
     result.file = input.path as string;
+  } else {
+    const location = diagnostic?.file ? diagnostic : findSourceLocation(output);
+    if (location?.file) {
+      result.file = location.file;
+      result.line = location.line;
+    }
   }
 
   // Add context
   if (toolName === 'Bash') {
-    result.context = `Command: ${(input.command as string || '').substring(0, 100)}`;
+    result.context = `Command: ${redact(input.command as string || '', redaction).text.substring(0, 100)}`;
+  } else {
+    result.context = `Tool: ${toolName}`;
   }
 
   return result;
 }
 
+/**
+ * Extract test results from a bash tool use that ran tests, or null for other commands
+ * The whole output is parsed, since runners print their summary last. Failing
+ * runs also get the error info of their first failure.
+ */
+export function extractTestRunInfo(
+  input: Record<string, unknown>,
+  response: { content: Array<{ type: string; text?: string }>; isError?: boolean },
+  commandInfo: CommandData & { isError: boolean },
+  redaction?: RedactionConfig
+): TestRunData | null {
+  const output = redact(
+    response.content
+      .filter(c => c.type === 'text')
+      .map(c => c.text)
+      .join('\n'),
+    redaction
+  ).text;
+
+  const results = parseTestRun(commandInfo.command, output);
+  if (!results) return null;
+
+  const run: TestRunData = { ...commandInfo, ...results };
+  if (commandInfo.isError || results.failed > 0) {
+    const error = extractErrorInfo('Bash', input, response, redaction);
+    // Without a recognizable diagnostic, the failing test says more than the raw output
+    if (error.type === 'UnknownError' && results.failures.length > 0) {
+      error.type = 'TestFailure';
+      error.message = results.failures[0];
+    }
+    Object.assign(run, error);
+  }
+  return run;
+}
+
+/**
+ * Extract the input and output of a tool without a dedicated extractor (MCP tools, Read, ...)
+ * The output is the response's text, or the rest of the response as JSON when
+ * it has none. Both are redacted, the output is capped like Bash output and
+ * long strings in the input are cut to the same length.
+ */
+export function extractToolInfo(
+  input: Record<string, unknown>,
+  response: object,
+  outputConfig?: { enabled: boolean; maxLength: number },
+  redaction?: RedactionConfig
+): { input: Record<string, unknown>; output?: string } {
+  const captureOutput = outputConfig?.enabled ?? true;
+  const maxLength = outputConfig?.maxLength ?? 5000;
+
+  const { content: _content, isError: _isError, ...rest } = response as Record<string, unknown>;
+  const text = responseText(response, '\n') || (Object.keys(rest).length > 0 ? JSON.stringify(rest) : '');
+
+  return {
+    input: truncateStrings(redactValue(input, redaction), maxLength),
+    output: captureOutput ? redact(text, redaction).text.substring(0, maxLength) : undefined,
+  };
+}
+
+function truncateStrings<T>(value: T, maxLength: number): T {
+  if (typeof value === 'string') {
+    return truncateLine(value, maxLength) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => truncateStrings(item, maxLength)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, truncateStrings(item, maxLength)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Build the observation for a captured tool use
+ * Failed commands and tools become errors, with the same error info whatever the tool.
+ */
+export function buildObservation(input: PostToolUseInput, config: Config): Observation {
+  const baseObservation: Observation = {
+    id: generateObservationId(),
+    timestamp: new Date().toISOString(),
+    tool: input.tool_name,
+    type: 'other',
+    isError: input.tool_response.isError || false,
+    data: {},
+  };
+  const errorObservation = (): Observation => ({
+    ...baseObservation,
+    type: 'error',
+    isError: true,
+    data: extractErrorInfo(input.tool_name, input.tool_input, input.tool_response, config.redaction),
+  });
+
+  switch (input.tool_name) {
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+      return {
+        ...baseObservation,
+        type: 'file_edit',
+        data: extractFileInfo(input.tool_input, input.tool_response, config.redaction),
+      };
+
+    case 'Bash':
+      const cmdInfo = extractCommandInfo(
+        input.tool_input,
+        input.tool_response,
+        config.capture.bashOutput,
+        config.redaction
+      );
+      const testRun = extractTestRunInfo(input.tool_input, input.tool_response, cmdInfo, config.redaction);
+      if (testRun) {
+        return {
+          ...baseObservation,
+          type: 'test_run',
+          isError: cmdInfo.isError || testRun.failed > 0,
+          data: testRun,
+        };
+      }
+      if (cmdInfo.isError) {
+        return errorObservation();
+      }
+      return {
+        ...baseObservation,
+        type: 'command',
+        data: cmdInfo,
+      };
+
+    default:
+      if (baseObservation.isError) {
+        return errorObservation();
+      }
+      return {
+        ...baseObservation,
+        type: 'other',
+        data: extractToolInfo(input.tool_input, input.tool_response, config.capture.bashOutput, config.redaction),
+      };
+  }
+}
+
 /**
  * Format project context for injection into Claude's conversation
  */
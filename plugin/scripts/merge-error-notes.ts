@@ -0,0 +1,59 @@
+#!/usr/bin/env bun
+
+/**
+ * Merge error notes that are duplicates under the current error fingerprints
+ *
+ *   bun scripts/merge-error-notes.ts [--dry-run]
+ */
+
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { loadConfig } from '../src/shared/config.js';
+import { mergeErrorNotes } from '../src/services/error-merge.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const config = loadConfig();
+  const vault = new VaultManager(config.vault.path, config.vault.memFolder);
+
+  const projectsPath = path.join(vault.getMemPath(), 'projects');
+  if (!fs.existsSync(projectsPath)) {
+    console.log('No projects folder found');
+    return;
+  }
+
+  const projects = fs.readdirSync(projectsPath, { withFileTypes: true })
+    .filter(d => d.isDirectory())
+    .map(d => d.name);
+
+  let merged = 0;
+  for (const projectName of projects) {
+    const merges = mergeErrorNotes(
+      path.join(projectsPath, projectName, 'errors'),
+      config.capture.errorFingerprint,
+      { dryRun, redaction: config.redaction }
+    );
+    if (merges.length === 0) continue;
+
+    console.log(`\n${projectName}:`);
+    for (const merge of merges) {
+      console.log(`  ${merge.into} <- ${merge.from.join(', ')} (${merge.occurrences} occurrences)`);
+      merged += merge.from.length;
+    }
+  }
+
+  if (dryRun) {
+    console.log(`\nDry run: ${merged} notes would be merged or renamed`);
+    return;
+  }
+
+  const { indexed, removed } = vault.getSearchIndex().sync();
+  vault.getSearchIndex().close();
+  console.log(`\nMerged or renamed ${merged} notes (search index: ${indexed} updated, ${removed} removed)`);
+}
+
+main().catch((error) => {
+  console.error('Merge failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+#!/usr/bin/env bun
+
+/**
+ * Dry run of the capture rules: explain whether a tool call would be captured
+ *
+ *   bun run explain-capture --tool Bash --command "pytest -x"
+ *   bun run explain-capture --tool Edit --path src/app.ts
+ *   bun run explain-capture < payload.json    (a PostToolUse hook payload)
+ */
+
+import { parseArgs } from 'util';
+import { loadConfig } from '../shared/config.js';
+import { evaluateCapture, formatCaptureDecision } from '../shared/capture-rules.js';
+import type { CapturePayload } from '../shared/capture-rules.js';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      tool: { type: 'string' },
+      command: { type: 'string' },
+      path: { type: 'string' },
+      error: { type: 'boolean', default: false },
+    },
+  });
+
+  const payload: CapturePayload = values.tool
+    ? {
+        tool_name: values.tool,
+        tool_input: {
+          ...(values.command !== undefined ? { command: values.command } : {}),
+          ...(values.path !== undefined ? { file_path: values.path } : {}),
+        },
+        tool_response: { isError: values.error },
+      }
+    : await readPayload();
+
+  const decision = evaluateCapture(payload, loadConfig().capture);
+  console.log(formatCaptureDecision(payload, decision));
+}
+
+async function readPayload(): Promise<CapturePayload> {
+  if (process.stdin.isTTY) {
+    throw new Error('Pass --tool (with --command or --path), or pipe a PostToolUse payload on stdin');
+  }
+
+  const text = await Bun.stdin.text();
+  const payload = JSON.parse(text) as CapturePayload;
+  if (typeof payload.tool_name !== 'string') {
+    throw new Error('Payload has no tool_name');
+  }
+  return payload;
+}
+
+main().catch((error) => {
+  console.error('explain-capture failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
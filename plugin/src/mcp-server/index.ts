@@ -4,11 +4,54 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import * as z from 'zod';
 import { VaultManager } from './utils/vault.js';
+import { fuseResults } from './utils/ranking.js';
+import { fingerprintSearch, encodeCursor, decodeCursor } from './utils/search-cursor.js';
+import { describeFlakyTest, flakyTestId } from './utils/test-history.js';
 import { loadConfig, saveConfig, clearConfigCache } from '../shared/config.js';
-import type { SearchResult, ProjectContext, Note } from '../shared/types.js';
+import { assembleContext } from '../shared/context-assembler.js';
+import { pinnedSection } from '../shared/pinned-context.js';
+import { loadProjectConfig } from '../shared/project-config.js';
+import type { ContextSection } from '../shared/context-assembler.js';
+import type { SearchResult, RelatedNote, Backlink, NoteGraph, ProjectContext, Note } from '../shared/types.js';
 
 type TextContent = { type: 'text'; text: string };
-type ToolResult = { content: TextContent[]; isError?: boolean };
+type ToolResult = { content: TextContent[]; structuredContent?: Record<string, unknown>; isError?: boolean };
+
+const searchResultSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  type: z.string(),
+  path: z.string().describe('Vault-relative path'),
+  project: z.string().optional(),
+  date: z.string().optional(),
+  tags: z.array(z.string()),
+  score: z.number(),
+  scoreBreakdown: z.object({
+    relevance: z.number(),
+    recency: z.number(),
+    typeBoost: z.number(),
+  }).optional(),
+  snippet: z.string(),
+  matches: z.array(z.object({
+    line: z.number().describe('1-based line number in the note file'),
+    text: z.string(),
+  })),
+});
+
+const LINK_TYPES = ['parent', 'supersedes', 'superseded_by', 'knowledge', 'index', 'link'] as const;
+
+const graphNodeSchema = z.object({
+  path: z.string(),
+  title: z.string(),
+  type: z.string(),
+  depth: z.number().describe('Hops from the root note'),
+});
+
+const linkEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  type: z.enum(LINK_TYPES),
+});
 
 async function main() {
   const config = loadConfig();
@@ -27,17 +70,32 @@ async function main() {
     'mem_search',
     {
       title: 'Search Memory',
-      description: 'Search the Claude Code knowledge base for past sessions, errors, decisions, and patterns. Use semantic search to find relevant information based on natural language queries.',
+      description: 'Search the Claude Code knowledge base for past sessions, errors, decisions, and patterns. Use mode "semantic" or "hybrid" to find relevant information from natural language questions that may not share exact words with the notes.',
       inputSchema: {
-        query: z.string().describe('Search query - natural language or keywords'),
+        query: z.string().describe('Search query. Terms are ANDed; supports "exact phrases", -exclusions, OR between terms, field filters title:, tag:, project:, type:, status:, topic:, and frontmatter predicates key=value, key!=value, key>n, key<n (e.g. `auth "token refresh" -redis tag:error resolved=false occurrences>3`)'),
         project: z.string().optional().describe('Filter by project name'),
         type: z.enum(['session', 'error', 'decision', 'pattern', 'file', 'learning', 'knowledge']).optional().describe('Filter by note type. Use "knowledge" to search all knowledge notes (qa, explanation, decision, research, learning)'),
         tags: z.array(z.string()).optional().describe('Filter by tags'),
-        limit: z.number().default(10).describe('Maximum number of results'),
+        limit: z.number().default(10).describe('Maximum number of results per page'),
+        cursor: z.string().optional().describe('nextCursor from a previous call with the same query and filters, to fetch the next page'),
+        mode: z.enum(['keyword', 'semantic', 'hybrid']).default('keyword').describe('keyword: exact term matching; semantic: match by meaning using embeddings; hybrid: combine both rankings'),
+        since: z.string().optional().describe('Only notes dated on or after this: ISO date (2024-06-01) or duration back from now (7d, 2w, 3m, 1y, today)'),
+        until: z.string().optional().describe('Only notes dated on or before this (same formats as since)'),
+        dateField: z.enum(['created', 'updated']).default('created').describe('Which date since/until apply to'),
+        includeSuperseded: z.boolean().default(false).describe('Include notes replaced via mem_supersede (hidden by default)'),
+      },
+      outputSchema: {
+        total: z.number().describe('Number of matching notes across all pages'),
+        offset: z.number(),
+        results: z.array(searchResultSchema),
+        nextCursor: z.string().optional().describe('Pass as cursor to get the next page; absent on the last page'),
       },
     },
-    async ({ query, project, type, tags, limit }): Promise<ToolResult> => {
+    async ({ query, project, type, tags, limit, cursor, mode, since, until, dateField, includeSuperseded }): Promise<ToolResult> => {
       try {
+        const fingerprint = fingerprintSearch({ query, project, type, tags, mode, since, until, dateField, includeSuperseded });
+        const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+
         // Map NoteType to knowledge_type for knowledge search
         // 'knowledge' type searches ALL knowledge types (qa, explanation, decision, research, learning)
         const knowledgeTypeMap: Record<string, string | string[] | undefined> = {
@@ -62,7 +120,12 @@ async function main() {
             project,
             type: regularNoteType,
             tags,
-            limit,
+            // Every match is needed for the total count and for later pages
+            limit: Infinity,
+            mode,
+            dateRange: { start: since, end: until },
+            dateField,
+            includeSuperseded,
           });
         }
 
@@ -82,19 +145,30 @@ async function main() {
           knowledgeResults = await vault.searchKnowledge(query, {
             project,
             knowledgeType,
-            limit: isKnowledgeOnlySearch ? limit : Math.max(5, limit - regularResults.length),
+            limit: Infinity,
+            mode,
+            dateRange: { start: since, end: until },
+            dateField,
+            includeSuperseded,
           });
         }
 
-        // Combine and sort by score
-        const allResults = [...regularResults, ...knowledgeResults]
-          .sort((a, b) => b.score - a.score)
-          .slice(0, limit);
+        // Each list is ranked on its own; fuse by rank so raw scores need not be comparable
+        const allResults = fuseResults([regularResults, knowledgeResults]);
+        const page = allResults.slice(offset, offset + limit);
+        const nextOffset = offset + page.length;
+        const nextCursor = nextOffset < allResults.length ? encodeCursor(nextOffset, fingerprint) : undefined;
 
-        const output = formatSearchResults(allResults);
+        const output = formatSearchResults(page, { offset, total: allResults.length, nextCursor });
 
         return {
           content: [{ type: 'text', text: output }],
+          structuredContent: {
+            total: allResults.length,
+            offset,
+            results: page.map(toStructuredResult),
+            nextCursor,
+          },
         };
       } catch (error) {
         return {
@@ -110,9 +184,9 @@ async function main() {
     'mem_read',
     {
       title: 'Read Memory Note',
-      description: 'Read the full content of a specific note from the knowledge base by path or ID',
+      description: 'Read the full content of a specific note from the knowledge base by path, filename, title, alias or [[wikilink]]. Slightly misspelled names are resolved; otherwise the error lists the closest notes.',
       inputSchema: {
-        path: z.string().describe('Path to the note (relative to vault or absolute)'),
+        path: z.string().describe('Path to the note (relative to vault or absolute), a filename, title or alias, or a wikilink such as [[note-name#Heading]]'),
         section: z.string().optional().describe('Optional heading or block ID to extract (e.g., "Summary" or "^block-id")'),
       },
     },
@@ -133,6 +207,95 @@ async function main() {
     }
   );
 
+  // Tool: mem_related - Find notes connected to a note
+  server.registerTool(
+    'mem_related',
+    {
+      title: 'Find Related Notes',
+      description: 'Find notes connected to a given note through shared topics and tags, wikilinks in either direction, shared sessions, and references to the same file. Each result explains why it is related.',
+      inputSchema: {
+        path: z.string().describe('The note to start from: path, filename, title, alias or [[wikilink]]'),
+        limit: z.number().int().positive().default(10).describe('Maximum number of related notes'),
+      },
+    },
+    async ({ path, limit }): Promise<ToolResult> => {
+      try {
+        const related = await vault.findRelatedNotes(path, { limit });
+        return {
+          content: [{ type: 'text', text: formatRelatedNotes(related) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to find related notes: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: mem_backlinks - Notes linking to a note
+  server.registerTool(
+    'mem_backlinks',
+    {
+      title: 'Find Backlinks',
+      description: 'List the notes that link to a given note, with the kind of each link: parent, supersedes, superseded_by, knowledge (a session\'s Knowledge Captured section), index, or a plain link.',
+      inputSchema: {
+        path: z.string().describe('The note to look up: path, filename, title, alias or [[wikilink]]'),
+        type: z.enum(LINK_TYPES).optional().describe('Only include links of this kind'),
+      },
+    },
+    async ({ path, type }): Promise<ToolResult> => {
+      try {
+        const backlinks = (await vault.getBacklinks(path))
+          .filter(backlink => !type || backlink.linkTypes.includes(type));
+        return {
+          content: [{ type: 'text', text: formatBacklinks(backlinks) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to find backlinks: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: mem_graph - Link neighborhood of a note
+  server.registerTool(
+    'mem_graph',
+    {
+      title: 'Explore Link Graph',
+      description: 'Return the notes within N wikilink hops of a note, with typed edges. Use it to follow a session to the knowledge it captured, or a note to the decisions that superseded it.',
+      inputSchema: {
+        path: z.string().describe('The root note: path, filename, title, alias or [[wikilink]]'),
+        depth: z.number().int().min(1).max(3).default(1).describe('Number of hops to follow'),
+        direction: z.enum(['out', 'in', 'both']).default('both').describe('Follow outgoing links, backlinks, or both'),
+        types: z.array(z.enum(LINK_TYPES)).optional().describe('Only follow edges of these kinds'),
+        maxNodes: z.number().int().positive().default(50).describe('Maximum number of notes in the result'),
+      },
+      outputSchema: {
+        root: z.string(),
+        nodes: z.array(graphNodeSchema),
+        edges: z.array(linkEdgeSchema),
+        truncated: z.boolean().describe('True if notes were left out to stay within maxNodes'),
+      },
+    },
+    async ({ path, depth, direction, types, maxNodes }): Promise<ToolResult> => {
+      try {
+        const graph = await vault.getNoteGraph(path, { depth, direction, types, maxNodes });
+        return {
+          content: [{ type: 'text', text: formatNoteGraph(graph) }],
+          structuredContent: { ...graph },
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to build link graph: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: mem_write - Write or update a note
   server.registerTool(
     'mem_write',
@@ -225,6 +388,56 @@ async function main() {
     }
   );
 
+  // Tool: mem_pin - Pin a note so it is injected at every session start
+  server.registerTool(
+    'mem_pin',
+    {
+      title: 'Pin Note',
+      description: 'Pin a note so it is injected at the start of every session, ahead of ranked context, e.g. "never run migrations against prod" or API conventions. Sets `pinned: true` in the note\'s frontmatter. Project-wide rules can also go in the project\'s instructions note.',
+      inputSchema: {
+        path: z.string().describe('Path to the note (relative to vault), a filename, title or alias, or a wikilink'),
+      },
+    },
+    async ({ path }): Promise<ToolResult> => {
+      try {
+        const result = await vault.setPinned(path, true);
+        return {
+          content: [{ type: 'text', text: result.changed ? `Pinned: ${result.path}` : `Already pinned: ${result.path}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to pin note: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Tool: mem_unpin - Stop injecting a pinned note at session start
+  server.registerTool(
+    'mem_unpin',
+    {
+      title: 'Unpin Note',
+      description: 'Unpin a note pinned with mem_pin. It stays searchable and can still be injected when it ranks as relevant.',
+      inputSchema: {
+        path: z.string().describe('Path to the note (relative to vault), a filename, title or alias, or a wikilink'),
+      },
+    },
+    async ({ path }): Promise<ToolResult> => {
+      try {
+        const result = await vault.setPinned(path, false);
+        return {
+          content: [{ type: 'text', text: result.changed ? `Unpinned: ${result.path}` : `Not pinned: ${result.path}` }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to unpin note: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: mem_project_context - Get context for current project
   server.registerTool(
     'mem_project_context',
@@ -233,22 +446,32 @@ async function main() {
       description: 'Retrieve relevant context for a project including recent sessions, unresolved errors, and active decisions. Useful at the start of a session to understand project history.',
       inputSchema: {
         project: z.string().describe('Project name'),
-        includeRecentSessions: z.number().default(3).describe('Number of recent sessions to include'),
-        includeErrors: z.boolean().default(true).describe('Include unresolved errors'),
-        includeDecisions: z.boolean().default(true).describe('Include recent decisions'),
-        includePatterns: z.boolean().default(true).describe('Include relevant patterns'),
+        includeRecentSessions: z.number().optional().describe('Number of recent sessions to include (default: from the project\'s context profile)'),
+        includeErrors: z.boolean().optional().describe('Include unresolved errors (default: from the project\'s context profile)'),
+        includeDecisions: z.boolean().optional().describe('Include recent decisions (default: from the project\'s context profile)'),
+        includePatterns: z.boolean().optional().describe('Include relevant patterns (default: from the project\'s context profile)'),
+        includeFlakyTests: z.boolean().optional().describe('Include tests flagged as flaky (default: from the project\'s context profile)'),
+        maxTokens: z.number().int().min(200).optional().describe('Token budget for the context (default: from the project\'s context profile)'),
       },
     },
-    async ({ project, includeRecentSessions, includeErrors, includeDecisions, includePatterns }): Promise<ToolResult> => {
+    async ({ project, includeRecentSessions, includeErrors, includeDecisions, includePatterns, includeFlakyTests, maxTokens }): Promise<ToolResult> => {
       try {
+        // Defaults follow the project's profile and overrides
+        const contextConfig = loadProjectConfig(project).contextInjection;
         const context = await vault.getProjectContext(project, {
-          includeRecentSessions,
-          includeErrors,
-          includeDecisions,
-          includePatterns,
+          includeRecentSessions: includeRecentSessions ?? contextConfig.includeRecentSessions,
+          includeErrors: includeErrors ?? contextConfig.includeRelatedErrors,
+          includeDecisions: includeDecisions ?? contextConfig.includeDecisions,
+          includePatterns: includePatterns ?? contextConfig.includeProjectPatterns,
+          includeFlakyTests: includeFlakyTests ?? contextConfig.includeFlakyTests,
         });
 
-        const output = formatProjectContext(context);
+        const output = formatProjectContext(
+          context,
+          vault,
+          maxTokens ?? contextConfig.maxTokens,
+          contextConfig.pinnedShare
+        );
 
         return {
           content: [{ type: 'text', text: output }],
@@ -294,6 +517,34 @@ async function main() {
     }
   );
 
+  // Tool: mem_reindex - Rebuild the search index
+  server.registerTool(
+    'mem_reindex',
+    {
+      title: 'Rebuild Search Index',
+      description: 'Rebuild the full-text search index from the notes on disk. Use when search results look stale or after bulk-editing notes outside Claude Code.',
+      inputSchema: {},
+    },
+    async (): Promise<ToolResult> => {
+      try {
+        const { indexed, failed } = await vault.rebuildSearchIndex();
+        let text = `Search index rebuilt: ${indexed} notes indexed.`;
+        if (failed.length > 0) {
+          text += `\n\nFailed to index ${failed.length} note(s):\n${failed.map(file => `- ${file}`).join('\n')}`;
+        }
+
+        return {
+          content: [{ type: 'text', text }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: `Failed to rebuild search index: ${error}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Tool: mem_toggle - Toggle the plugin on/off
   server.registerTool(
     'mem_toggle',
@@ -373,17 +624,19 @@ async function main() {
           `**Global**: ${enabledStatus}`,
           '',
           '### Features',
-          `- Context Injection: ${contextStatus} (max ${config.contextInjection.maxTokens} tokens)`,
+          `- Context Injection: ${contextStatus} (profile: ${config.contextInjection.profile}, max ${config.contextInjection.maxTokens} tokens)`,
           `- Summarization: ${summaryStatus} (model: ${config.summarization.model})`,
           `- Recent Sessions: ${config.contextInjection.includeRecentSessions}`,
           `- Include Errors: ${config.contextInjection.includeRelatedErrors ? '✅' : '❌'}`,
           `- Include Patterns: ${config.contextInjection.includeProjectPatterns ? '✅' : '❌'}`,
+          `- Include Flaky Tests: ${config.contextInjection.includeFlakyTests ? '✅' : '❌'}`,
           '',
           '### Capture',
           `- File Edits: ${config.capture.fileEdits ? '✅' : '❌'}`,
           `- Bash Commands: ${config.capture.bashCommands ? '✅' : '❌'}`,
           `- Bash Output: ${config.capture.bashOutput.enabled ? '✅' : '❌'} (max ${config.capture.bashOutput.maxLength} chars)`,
           `- Errors: ${config.capture.errors ? '✅' : '❌'}`,
+          `- Capture Rules: ${config.capture.rules.length} custom (see \`bun run explain-capture\`)`,
           '',
           '### Projects',
           `Tracked: ${projects.length}`,
@@ -413,12 +666,18 @@ async function main() {
 
 // Formatting functions
 
-function formatSearchResults(results: SearchResult[]): string {
+function formatSearchResults(
+  results: SearchResult[],
+  page: { offset: number; total: number; nextCursor?: string } = { offset: 0, total: results.length }
+): string {
   if (results.length === 0) {
-    return 'No results found.';
+    return page.total > 0 ? `No more results (${page.total} total).` : 'No results found.';
   }
 
-  const lines: string[] = [`## Search Results (${results.length})\n`];
+  const heading = page.total > results.length
+    ? `${page.offset + 1}-${page.offset + results.length} of ${page.total}`
+    : `${results.length}`;
+  const lines: string[] = [`## Search Results (${heading})\n`];
 
   for (const result of results) {
     lines.push(`### ${result.title}`);
@@ -434,9 +693,105 @@ function formatSearchResults(results: SearchResult[]): string {
     lines.push('');
   }
 
+  if (page.nextCursor) {
+    lines.push(`_More results available: call mem_search again with cursor \`${page.nextCursor}\`_`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format related notes for display
+ */
+function formatRelatedNotes(related: RelatedNote[]): string {
+  if (related.length === 0) {
+    return 'No related notes found.';
+  }
+
+  const lines: string[] = [`## Related Notes (${related.length})\n`];
+  for (const note of related) {
+    lines.push(`### ${note.title}`);
+    lines.push(`**Type**: ${note.type} | **Path**: \`${note.path}\``);
+    for (const reason of note.reasons) {
+      lines.push(`- ${reason}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format backlinks for display
+ */
+function formatBacklinks(backlinks: Backlink[]): string {
+  if (backlinks.length === 0) {
+    return 'No backlinks found.';
+  }
+
+  const lines: string[] = [`## Backlinks (${backlinks.length})\n`];
+  for (const backlink of backlinks) {
+    lines.push(`- **${backlink.title}** (${backlink.type}, via ${backlink.linkTypes.join(', ')}) \`${backlink.path}\``);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a link graph as nodes by depth followed by typed edges
+ */
+function formatNoteGraph(graph: NoteGraph): string {
+  const titles = new Map(graph.nodes.map(node => [node.path, node.title]));
+  const root = titles.get(graph.root) || graph.root;
+  const lines: string[] = [`## Link Graph: ${root}\n`];
+
+  const maxDepth = Math.max(...graph.nodes.map(node => node.depth));
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const nodes = graph.nodes.filter(node => node.depth === depth);
+    lines.push(`### ${depth} hop${depth > 1 ? 's' : ''} (${nodes.length})`);
+    for (const node of nodes) {
+      lines.push(`- **${node.title}** (${node.type}) \`${node.path}\``);
+    }
+    lines.push('');
+  }
+
+  if (graph.edges.length === 0) {
+    lines.push('No links found.');
+  } else {
+    lines.push(`### Edges (${graph.edges.length})`);
+    for (const edge of graph.edges) {
+      lines.push(`- ${titles.get(edge.source)} --${edge.type}--> ${titles.get(edge.target)}`);
+    }
+  }
+
+  if (graph.truncated) {
+    lines.push('');
+    lines.push('_Some notes were left out; raise maxNodes or narrow types to see more._');
+  }
+
   return lines.join('\n');
 }
 
+/**
+ * Flatten a search result for structuredContent
+ */
+function toStructuredResult(result: SearchResult): z.infer<typeof searchResultSchema> {
+  return {
+    id: result.id,
+    title: result.title,
+    type: result.type,
+    path: result.path,
+    // YAML may yield numbers here; the schema wants strings
+    project: result.metadata.project !== undefined ? String(result.metadata.project) : undefined,
+    date: result.metadata.date,
+    tags: (result.metadata.tags || []).map(String),
+    score: result.score,
+    scoreBreakdown: result.scoreBreakdown,
+    snippet: result.snippet,
+    matches: result.matches || [],
+  };
+}
+
 function formatNote(note: Note): string {
   const lines: string[] = [];
 
@@ -458,59 +813,103 @@ function formatNote(note: Note): string {
   return lines.join('\n');
 }
 
-function formatProjectContext(context: ProjectContext): string {
-  const lines: string[] = [];
-
-  lines.push(`# Project: ${context.project}`);
-  lines.push('');
-
-  if (context.summary) {
-    lines.push('## Summary');
-    lines.push(context.summary);
-    lines.push('');
-  }
-
-  if (context.recentSessions.length > 0) {
-    lines.push('## Recent Sessions');
-    lines.push('');
-    for (const session of context.recentSessions) {
-      lines.push(`### ${session.date}`);
-      lines.push(session.summary || '_No summary available_');
-      lines.push('');
-    }
-  }
-
-  if (context.unresolvedErrors.length > 0) {
-    lines.push('## Unresolved Errors');
-    lines.push('');
-    for (const error of context.unresolvedErrors) {
-      lines.push(`> [!danger] ${error.type}`);
-      lines.push(`> ${error.message}`);
-      lines.push(`> Last seen: ${error.lastSeen}`);
-      lines.push('');
-    }
-  }
-
-  if (context.activeDecisions.length > 0) {
-    lines.push('## Active Decisions');
-    lines.push('');
-    for (const decision of context.activeDecisions) {
-      lines.push(`### ${decision.title}`);
-      lines.push(decision.decision);
-      lines.push('');
-    }
-  }
-
-  if (context.patterns.length > 0) {
-    lines.push('## Relevant Patterns');
-    lines.push('');
-    for (const pattern of context.patterns) {
-      lines.push(`- **${pattern.name}**: ${pattern.description}`);
-    }
-    lines.push('');
-  }
+/**
+ * Format project context within a token budget
+ * Errors and decisions keep their share first; sessions and patterns that
+ * don't fit are listed by link.
+ */
+function formatProjectContext(
+  context: ProjectContext,
+  vault: VaultManager,
+  maxTokens: number,
+  pinnedShare: number
+): string {
+  const link = (notePath: string) => notePath.replace(/\.md$/, '');
+  const sections: ContextSection[] = [
+    pinnedSection(context.pinned, pinnedShare),
+    {
+      heading: 'Summary',
+      priority: 5,
+      noun: 'notes',
+      entries: context.summary
+        ? [{ id: 'summary', text: context.summary, link: vault.getProjectIndexLink(context.project) }]
+        : [],
+    },
+    {
+      heading: 'Recent Sessions',
+      priority: 2,
+      minShare: 0.15,
+      maxShare: 0.3,
+      noun: 'sessions',
+      moreLink: vault.getProjectIndexLink(context.project, 'sessions'),
+      entries: context.recentSessions.map(session => ({
+        id: session.path,
+        text: [
+          `### ${session.date}`,
+          session.summary || '_No summary available_',
+          ...session.keyActions.map(action => `- ${action}`),
+          '',
+        ].join('\n'),
+        brief: `- ${session.date}: [[${link(session.path)}]]`,
+        link: link(session.path),
+      })),
+    },
+    {
+      heading: 'Unresolved Errors',
+      priority: 4,
+      minShare: 0.2,
+      maxShare: 0.4,
+      noun: 'errors',
+      moreLink: vault.getProjectIndexLink(context.project, 'errors'),
+      entries: context.unresolvedErrors.map(error => ({
+        id: error.path,
+        text: `> [!danger] ${error.type}\n> ${error.message}\n> Last seen: ${error.lastSeen}\n`,
+        brief: `- ${error.type}: ${error.message}`,
+        link: link(error.path),
+      })),
+    },
+    {
+      heading: 'Flaky Tests',
+      priority: 4,
+      maxShare: 0.15,
+      noun: 'tests',
+      entries: context.flakyTests.map(test => ({
+        id: flakyTestId(test),
+        text: describeFlakyTest(test),
+        brief: `- \`${test.name}\``,
+        link: link(test.path),
+      })),
+    },
+    {
+      heading: 'Active Decisions',
+      priority: 3,
+      minShare: 0.2,
+      maxShare: 0.4,
+      noun: 'decisions',
+      moreLink: vault.getProjectIndexLink(context.project, 'decisions'),
+      entries: context.activeDecisions.map(decision => ({
+        id: decision.path,
+        text: `### ${decision.title}\n${decision.decision}\n`,
+        brief: `- [[${link(decision.path)}|${decision.title}]]`,
+        link: link(decision.path),
+      })),
+    },
+    {
+      heading: 'Relevant Patterns',
+      priority: 1,
+      maxShare: 0.2,
+      noun: 'patterns',
+      entries: context.patterns.map(pattern => ({
+        id: pattern.path,
+        text: `- **${pattern.name}**: ${pattern.description}`,
+        brief: `- [[${link(pattern.path)}|${pattern.name}]]`,
+        link: link(pattern.path),
+      })),
+    },
+  ];
 
-  return lines.join('\n');
+  const header = `# Project: ${context.project}`;
+  return assembleContext(header, sections, maxTokens).text || header;
 }
 
 main().catch((error) => {
@@ -0,0 +1,201 @@
+import { containsTerm } from './search-query.js';
+import { tokenize } from './tokenizer.js';
+import type { IndexedNote } from './search-index.js';
+import type { ContextItemKind, WorkingTreeState } from '../../shared/types.js';
+
+/**
+ * Relevance ranking for session-start context
+ *
+ * score = (kind prior + working-tree signals) x recency
+ *
+ * Signals:
+ * - file notes and errors for files with uncommitted changes (strongest) or
+ *   files in the latest commits
+ * - notes that mention one of those files (e.g. a session's Files Modified list)
+ * - words from the branch name in the title (or, weaker, the body and tags)
+ *
+ * Without any signal the priors reproduce the old behavior: open errors first,
+ * then decisions, then recent sessions. File notes only appear when a signal
+ * points at them.
+ */
+
+const KIND_PRIORS: Record<ContextItemKind, number> = {
+  error: 1,
+  decision: 0.8,
+  session: 0.6,
+  pattern: 0.4,
+  file: 0,
+};
+
+const NOTE_KINDS: Record<string, ContextItemKind> = {
+  error: 'error',
+  decision: 'decision',
+  session: 'session',
+  pattern: 'pattern',
+  file: 'file',
+};
+
+const CHANGED_FILE_WEIGHT = 3;
+const COMMITTED_FILE_WEIGHT = 1.5;
+/** A note merely mentioning a file gets this share of the file weight */
+const MENTION_SHARE = 0.4;
+const BRANCH_TITLE_WEIGHT = 1;
+const BRANCH_BODY_WEIGHT = 0.4;
+const MAX_BRANCH_SCORE = 2;
+
+/** Context is about current work, so recency decays faster than in search */
+const RECENCY_HALF_LIFE_DAYS = 14;
+const RECENCY_WEIGHT = 0.5;
+
+/** Branch name words that say nothing about the work itself */
+const GENERIC_BRANCH_WORDS = new Set([
+  'main', 'master', 'develop', 'dev', 'trunk', 'feature', 'feat', 'fix', 'bugfix', 'hotfix',
+  'chore', 'release', 'wip', 'refactor', 'update', 'add', 'issue', 'task', 'test', 'tmp',
+]);
+
+export interface RankedContextNote {
+  note: IndexedNote;
+  kind: ContextItemKind;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Score candidate notes against the working tree, best first
+ * Resolved errors, superseded notes, index notes and unmatched file notes are dropped.
+ */
+export function rankContextNotes(
+  notes: IndexedNote[],
+  state: WorkingTreeState,
+  now: number = Date.now()
+): RankedContextNote[] {
+  const terms = branchTerms(state.branch);
+  const ranked: RankedContextNote[] = [];
+
+  for (const note of notes) {
+    const kind = NOTE_KINDS[note.type];
+    if (!kind || note.tags.includes('index')) continue;
+    if (note.frontmatter.status === 'superseded') continue;
+    if (kind === 'error' && note.frontmatter.resolved === true) continue;
+
+    const reasons: string[] = [];
+    let signal = 0;
+
+    const ownFile = kind === 'file' || kind === 'error' ? noteFile(note) : undefined;
+    const fileSignal = scoreFiles(note, ownFile, state);
+    signal += fileSignal.score;
+    reasons.push(...fileSignal.reasons);
+
+    const branchSignal = scoreBranch(note, terms);
+    signal += branchSignal.score;
+    reasons.push(...branchSignal.reasons);
+
+    if (kind === 'file' && signal === 0) continue;
+
+    ranked.push({
+      note,
+      kind,
+      score: (KIND_PRIORS[kind] + signal) * recencyFactor(note.updated || note.created, now),
+      reasons,
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score || a.note.path.localeCompare(b.note.path));
+}
+
+/**
+ * Words of a branch name worth looking for ("feature/JIRA-12-token-refresh" -> token, refresh)
+ */
+export function branchTerms(branch: string | undefined): string[] {
+  if (!branch) return [];
+
+  const words = branch
+    .split(/[^\p{L}\p{N}]+/u)
+    .map(word => word.toLowerCase())
+    .filter(word => word.length >= 3 && !/^\d+$/.test(word) && !GENERIC_BRANCH_WORDS.has(word));
+  return [...new Set(words)];
+}
+
+/**
+ * Whether a path recorded in a note refers to a repository-relative path
+ * Notes store the absolute path the tool saw; git reports paths relative to the root.
+ */
+export function isSameFile(notedPath: string, repoPath: string): boolean {
+  const noted = notedPath.replace(/\\/g, '/');
+  const relative = repoPath.replace(/\\/g, '/').replace(/^\.\//, '');
+  return noted === relative || noted.endsWith(`/${relative}`);
+}
+
+function scoreFiles(
+  note: IndexedNote,
+  ownFile: string | undefined,
+  state: WorkingTreeState
+): { score: number; reasons: string[] } {
+  const sources = [
+    { files: state.changedFiles, weight: CHANGED_FILE_WEIGHT, label: 'uncommitted changes' },
+    { files: state.recentFiles, weight: COMMITTED_FILE_WEIGHT, label: 'recent commits' },
+  ];
+
+  for (const { files, weight, label } of sources) {
+    if (ownFile) {
+      const match = files.find(file => isSameFile(ownFile, file));
+      if (match) {
+        return { score: weight, reasons: [`${match} (${label})`] };
+      }
+    }
+
+    const mentioned = files.filter(file => note.content.includes(file));
+    if (mentioned.length > 0) {
+      const shown = mentioned.slice(0, 3).join(', ') + (mentioned.length > 3 ? ', ...' : '');
+      return {
+        score: weight * MENTION_SHARE * Math.min(mentioned.length, 3),
+        reasons: [`mentions ${shown} (${label})`],
+      };
+    }
+  }
+
+  return { score: 0, reasons: [] };
+}
+
+function scoreBranch(note: IndexedNote, terms: string[]): { score: number; reasons: string[] } {
+  if (terms.length === 0) return { score: 0, reasons: [] };
+
+  const titleTokens = tokenize(note.title);
+  const body = `${note.tags.join(' ')} ${note.content}`;
+  const bodyTokens = tokenize(body);
+
+  let score = 0;
+  const matched: string[] = [];
+  for (const term of terms) {
+    if (containsTerm(note.title, term, titleTokens)) {
+      score += BRANCH_TITLE_WEIGHT;
+      matched.push(term);
+    } else if (containsTerm(body, term, bodyTokens)) {
+      score += BRANCH_BODY_WEIGHT;
+      matched.push(term);
+    }
+  }
+
+  if (matched.length === 0) return { score: 0, reasons: [] };
+  return { score: Math.min(score, MAX_BRANCH_SCORE), reasons: [`matches branch: ${matched.join(', ')}`] };
+}
+
+/**
+ * The file a file or error note is about
+ */
+function noteFile(note: IndexedNote): string | undefined {
+  const recorded = note.frontmatter.file_path || note.frontmatter.file;
+  if (typeof recorded === 'string' && recorded) return recorded;
+
+  // Error notes record the file in the body: **File**: `src/app.ts`
+  const match = note.content.match(/\*\*File\*\*: `([^`]+)`/);
+  return match && match[1] !== 'unknown' ? match[1] : undefined;
+}
+
+function recencyFactor(date: string | undefined, now: number): number {
+  const time = date ? new Date(date).getTime() : NaN;
+  if (isNaN(time)) return 1 - RECENCY_WEIGHT;
+
+  const ageDays = Math.max(0, (now - time) / 86400000);
+  return 1 - RECENCY_WEIGHT + RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
@@ -0,0 +1,213 @@
+import type { Config } from '../../shared/types.js';
+import { tokenize } from './tokenizer.js';
+
+/**
+ * Embedding providers for semantic search
+ *
+ * Notes are split into overlapping word chunks; each chunk is embedded once and
+ * cached in the search index. A query is embedded the same way and notes are
+ * ranked by the best cosine similarity of any of their chunks.
+ *
+ * - hashing: fully offline; hashes search tokens (stems, Hangul and CJK
+ *   bigrams), token pairs and character trigrams into a fixed-size vector, so
+ *   related word forms and shared vocabulary land close together
+ * - openai: any OpenAI-compatible /embeddings endpoint (OpenAI, Ollama,
+ *   LM Studio, llama.cpp server, ...)
+ */
+
+export interface EmbeddingProvider {
+  /** Identifies the vector space; cached vectors from another id are recomputed */
+  readonly id: string;
+  /**
+   * Embed a batch of texts, returning one vector per text in the same order
+   * @param signal Cancels the request
+   */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export type EmbeddingConfig = Config['search']['embeddings'];
+
+/** Words per chunk */
+const CHUNK_WORDS = 120;
+/** Words shared between consecutive chunks */
+const CHUNK_OVERLAP = 30;
+const HTTP_TIMEOUT_MS = 30000;
+
+/** Feature weights for the hashing vectorizer */
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * Common English function words carry no topical signal (compared after tokenizing)
+ */
+export const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'then', 'there', 'these', 'this',
+  'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with',
+  'you', 'your',
+].flatMap(word => tokenize(word)));
+
+/**
+ * Offline feature-hashing vectorizer
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.id = `hashing-v2:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const words = tokenize(text).filter(word => !STOPWORDS.has(word));
+
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    words.forEach((word, i) => {
+      add(`w:${word}`, WORD_WEIGHT);
+      if (i > 0) {
+        add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      }
+
+      // Character trigrams let related forms the stemmer misses share most of their features
+      const padded = `^${word}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.substring(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      // Sublinear term frequency keeps repeated words from dominating
+      vector[hash % this.dimensions] += sign * Math.log1p(weight);
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Client for an OpenAI-compatible embeddings endpoint
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.id = `openai:${this.model}@${this.baseUrl}`;
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(HTTP_TIMEOUT_MS)]) : AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Embedding request failed: ${response.status} ${body.substring(0, 200)}`);
+    }
+
+    const json = await response.json() as { data?: Array<{ embedding: number[]; index?: number }> };
+    if (!Array.isArray(json.data) || json.data.length !== texts.length) {
+      throw new Error('Embedding response did not contain one vector per input');
+    }
+
+    return [...json.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => normalize(item.embedding));
+  }
+}
+
+/**
+ * Create the provider selected in config
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  if (config.provider === 'openai') {
+    return new OpenAIEmbeddingProvider({
+      baseUrl: config.baseUrl,
+      model: config.model,
+      apiKey: config.apiKey || process.env.OPENAI_API_KEY,
+    });
+  }
+  return new HashingEmbeddingProvider(config.dimensions);
+}
+
+/**
+ * Split note content into overlapping word windows
+ * Always returns at least one chunk so title-only notes are still embeddable.
+ */
+export function chunkText(content: string, maxWords: number = CHUNK_WORDS, overlap: number = CHUNK_OVERLAP): string[] {
+  const words = content.split(/\s+/).filter(Boolean);
+  if (words.length <= maxWords) {
+    return [words.join(' ')];
+  }
+
+  const chunks: string[] = [];
+  const step = Math.max(1, maxWords - overlap);
+  for (let start = 0; start < words.length; start += step) {
+    chunks.push(words.slice(start, start + maxWords).join(' '));
+    if (start + maxWords >= words.length) break;
+  }
+  return chunks;
+}
+
+/**
+ * Cosine similarity of two vectors (dot product when both are unit length)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
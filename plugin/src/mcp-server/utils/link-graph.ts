@@ -0,0 +1,252 @@
+import * as path from 'path';
+import { extractWikilinks } from './wikilinks.js';
+import type { SearchIndex } from './search-index.js';
+import type { LinkType, LinkEdge, Backlink, GraphNode, NoteGraph } from '../../shared/types.js';
+
+/**
+ * Wikilink graph over the memory folder
+ *
+ * Links are extracted when a note is indexed and stored in the search index
+ * (`links` table), so the graph stays current as notes are written or synced.
+ * Targets are stored as written and resolved at query time, the way Obsidian
+ * does: a full vault path, or a bare filename.
+ *
+ * Edge types:
+ * - parent, supersedes, superseded_by: the frontmatter field holding the link
+ * - knowledge: links in a session's "Knowledge Captured" section
+ * - index: links from project and category index notes
+ * - link: any other wikilink
+ */
+
+export interface NoteLink {
+  /** Normalized link target (see normalizeLinkTarget) */
+  target: string;
+  type: LinkType;
+}
+
+export type GraphDirection = 'out' | 'in' | 'both';
+
+export interface GraphOptions {
+  /** Hops from the root note */
+  depth?: number;
+  direction?: GraphDirection;
+  /** Only follow these edge types */
+  types?: LinkType[];
+  /** Stop adding notes once this many are in the graph */
+  maxNodes?: number;
+}
+
+const FRONTMATTER_LINK_TYPES: Record<string, LinkType> = {
+  parent: 'parent',
+  supersedes: 'supersedes',
+  superseded_by: 'superseded_by',
+};
+
+const KNOWLEDGE_SECTION = /^##\s+Knowledge Captured\s*$/;
+
+const DEFAULT_DEPTH = 1;
+const DEFAULT_MAX_NODES = 50;
+
+/**
+ * Extract typed outgoing links from a note
+ * A target linked from a typed frontmatter field is not repeated as a plain body link.
+ */
+export function extractNoteLinks(frontmatter: Record<string, unknown>, content: string): NoteLink[] {
+  const links: NoteLink[] = [];
+  const seen = new Map<string, Set<LinkType>>();
+
+  const add = (rawTarget: string, type: LinkType) => {
+    const target = normalizeLinkTarget(rawTarget);
+    if (!target) return;
+
+    const types = seen.get(target) || new Set<LinkType>();
+    const generic = type === 'link' || type === 'index';
+    if (types.has(type) || (generic && types.size > 0)) return;
+
+    types.add(type);
+    seen.set(target, types);
+    links.push({ target, type });
+  };
+
+  for (const [key, value] of Object.entries(frontmatter)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item !== 'string' || !item.includes('[[')) continue;
+      for (const link of extractWikilinks(item)) {
+        add(link.link, FRONTMATTER_LINK_TYPES[key] || 'link');
+      }
+    }
+  }
+
+  const tags = Array.isArray(frontmatter.tags) ? frontmatter.tags : [];
+  const bodyType: LinkType = tags.includes('index') ? 'index' : 'link';
+
+  let inKnowledge = false;
+  for (const line of content.split('\n')) {
+    if (line.startsWith('## ') || line.startsWith('# ')) {
+      inKnowledge = KNOWLEDGE_SECTION.test(line);
+      continue;
+    }
+    for (const link of extractWikilinks(line)) {
+      add(link.link, inKnowledge ? 'knowledge' : bodyType);
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Normalize a link target for comparison: case-insensitive, no .md, forward slashes
+ */
+export function normalizeLinkTarget(target: string): string {
+  return target
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\.?\//, '')
+    .replace(/\.md$/i, '')
+    .toLowerCase();
+}
+
+/**
+ * Build a function mapping link targets to note paths
+ * Full vault paths win; bare names resolve to the shortest path with that filename.
+ */
+export function createLinkResolver(notePaths: string[]): (target: string) => string | undefined {
+  const byPath = new Map<string, string>();
+  const byName = new Map<string, string>();
+
+  const sorted = [...notePaths].sort((a, b) => a.length - b.length || a.localeCompare(b));
+  for (const notePath of sorted) {
+    const key = normalizeLinkTarget(notePath);
+    byPath.set(key, notePath);
+    const name = path.posix.basename(key);
+    if (!byName.has(name)) byName.set(name, notePath);
+  }
+
+  return (target: string) => {
+    const key = normalizeLinkTarget(target);
+    return byPath.get(key) || (key.includes('/') ? undefined : byName.get(key));
+  };
+}
+
+/**
+ * Targets under which other notes may link to a note
+ */
+export function linkKeys(notePath: string): string[] {
+  const key = normalizeLinkTarget(notePath);
+  return [key, path.posix.basename(key)];
+}
+
+/**
+ * Query view over the links stored in the search index
+ */
+export class LinkGraph {
+  private index: SearchIndex;
+  private nodes: Map<string, { title: string; type: string }>;
+  private resolve: (target: string) => string | undefined;
+
+  constructor(index: SearchIndex) {
+    this.index = index;
+    const entries = index.listEntries();
+    this.nodes = new Map(entries.map(entry => [entry.path, { title: entry.title, type: entry.type }]));
+    this.resolve = createLinkResolver(entries.map(entry => entry.path));
+  }
+
+  /**
+   * Links from a note to other existing notes
+   */
+  outgoing(notePath: string): LinkEdge[] {
+    const edges: LinkEdge[] = [];
+    for (const link of this.index.getLinksFrom(notePath)) {
+      const target = this.resolve(link.target);
+      if (target && target !== notePath) {
+        edges.push({ source: notePath, target, type: link.type });
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Links from other notes to a note
+   */
+  incoming(notePath: string): LinkEdge[] {
+    const edges: LinkEdge[] = [];
+    for (const link of this.index.getLinksTo(linkKeys(notePath))) {
+      // A bare name may belong to a different note with the same filename
+      if (link.source !== notePath && this.resolve(link.target) === notePath) {
+        edges.push({ source: link.source, target: notePath, type: link.type });
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Notes linking to a note, one entry per note with every kind of link it uses
+   */
+  backlinks(notePath: string): Backlink[] {
+    const bySource = new Map<string, Backlink>();
+    for (const edge of this.incoming(notePath)) {
+      const existing = bySource.get(edge.source);
+      if (existing) {
+        existing.linkTypes.push(edge.type);
+      } else {
+        bySource.set(edge.source, { ...this.describe(edge.source), linkTypes: [edge.type] });
+      }
+    }
+    return [...bySource.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Breadth-first neighborhood of a note
+   */
+  neighborhood(root: string, options: GraphOptions = {}): NoteGraph {
+    const depth = options.depth ?? DEFAULT_DEPTH;
+    const direction = options.direction || 'both';
+    const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+    const types = options.types && options.types.length > 0 ? new Set(options.types) : null;
+
+    const depths = new Map<string, number>([[root, 0]]);
+    const edges = new Map<string, LinkEdge>();
+    let truncated = false;
+    let frontier = [root];
+
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+
+      for (const notePath of frontier) {
+        const candidates = [
+          ...(direction !== 'in' ? this.outgoing(notePath) : []),
+          ...(direction !== 'out' ? this.incoming(notePath) : []),
+        ];
+
+        for (const edge of candidates) {
+          if (types && !types.has(edge.type)) continue;
+
+          const other = edge.source === notePath ? edge.target : edge.source;
+          if (!depths.has(other)) {
+            if (depths.size >= maxNodes) {
+              truncated = true;
+              continue;
+            }
+            depths.set(other, hop);
+            next.push(other);
+          }
+          edges.set(`${edge.source}\0${edge.target}\0${edge.type}`, edge);
+        }
+      }
+
+      frontier = next;
+    }
+
+    const nodes: GraphNode[] = [...depths].map(([notePath, hops]) => ({ ...this.describe(notePath), depth: hops }));
+    return { root, nodes, edges: [...edges.values()], truncated };
+  }
+
+  private describe(notePath: string): { title: string; type: string; path: string } {
+    const node = this.nodes.get(notePath);
+    return {
+      title: node?.title || path.posix.basename(notePath, '.md'),
+      type: node?.type || 'unknown',
+      path: notePath,
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import * as path from 'path';
+
+/**
+ * Resolve loose note references (wikilinks, titles, aliases, misspelled
+ * filenames) to notes in the index
+ *
+ * Exact matches win in this order: filename, alias, title. Only when none
+ * exists is edit distance used, and a fuzzy match is taken only if it is
+ * both close and clearly better than the runner-up.
+ */
+
+export interface NoteEntry {
+  /** Vault-relative path */
+  path: string;
+  title: string;
+  type: string;
+  aliases: string[];
+}
+
+export interface NoteReference {
+  /** Path, filename, title or alias being looked up */
+  target: string;
+  heading?: string;
+  blockId?: string;
+}
+
+export type NoteMatchKind = 'filename' | 'alias' | 'title' | 'fuzzy';
+
+export interface NoteCandidate {
+  entry: NoteEntry;
+  kind: NoteMatchKind;
+  /** 1 for exact matches, otherwise 1 - editDistance / length */
+  similarity: number;
+}
+
+/** Minimum similarity to resolve a reference without an exact match */
+const FUZZY_THRESHOLD = 0.75;
+/** Minimum similarity to suggest a note in a "not found" error */
+const SUGGESTION_THRESHOLD = 0.4;
+const MAX_SUGGESTIONS = 5;
+
+const EXACT_KIND_ORDER: NoteMatchKind[] = ['filename', 'alias', 'title'];
+
+/**
+ * Strip wikilink syntax: [[target#heading|display]], ![[target#^block]]
+ */
+export function parseNoteReference(reference: string): NoteReference {
+  let text = reference.trim();
+  const link = text.match(/^!?\[\[(.+?)\]\]$/);
+  if (link) {
+    text = link[1];
+  }
+
+  text = text.replace(/\|.*$/, '');
+
+  let heading: string | undefined;
+  let blockId: string | undefined;
+  const anchor = text.indexOf('#');
+  if (link && anchor !== -1) {
+    const fragment = text.substring(anchor + 1);
+    text = text.substring(0, anchor);
+    if (fragment.startsWith('^')) {
+      blockId = fragment.substring(1);
+    } else {
+      heading = fragment;
+    }
+  }
+
+  return { target: text.trim(), heading, blockId };
+}
+
+/**
+ * Rank index entries against a reference target
+ * Exact matches come first (filename, alias, title), then fuzzy ones by similarity.
+ */
+export function findNoteCandidates(target: string, entries: NoteEntry[]): NoteCandidate[] {
+  const wanted = normalizeName(path.basename(target).replace(/\.md$/i, ''));
+  if (!wanted) return [];
+
+  const candidates: NoteCandidate[] = [];
+  for (const entry of entries) {
+    const fileNames = fileNameKeys(entry.path);
+    const aliases = entry.aliases.map(normalizeName);
+    const title = normalizeName(entry.title);
+
+    let kind: NoteMatchKind | null = null;
+    if (fileNames.includes(wanted)) kind = 'filename';
+    else if (aliases.includes(wanted)) kind = 'alias';
+    else if (title === wanted) kind = 'title';
+
+    if (kind) {
+      candidates.push({ entry, kind, similarity: 1 });
+      continue;
+    }
+
+    const similarity = Math.max(...[...fileNames, ...aliases, title].map(name => nameSimilarity(wanted, name)));
+    candidates.push({ entry, kind: 'fuzzy', similarity });
+  }
+
+  return candidates.sort((a, b) =>
+    kindRank(a.kind) - kindRank(b.kind) || b.similarity - a.similarity || a.entry.path.localeCompare(b.entry.path)
+  );
+}
+
+/**
+ * Pick the note a reference unambiguously refers to
+ * @returns The entry, or null if there is no match or several equally good ones
+ */
+export function pickCandidate(candidates: NoteCandidate[]): NoteEntry | null {
+  const [best, second] = candidates;
+  if (!best) return null;
+
+  if (best.kind !== 'fuzzy') {
+    // Two notes sharing a title (or alias) is ambiguous; let the caller list them
+    return second && second.kind === best.kind ? null : best.entry;
+  }
+
+  if (best.similarity < FUZZY_THRESHOLD) return null;
+  if (second && second.similarity >= best.similarity) return null;
+  return best.entry;
+}
+
+/**
+ * Candidates worth suggesting when a reference can't be resolved
+ */
+export function suggestCandidates(candidates: NoteCandidate[]): NoteCandidate[] {
+  return candidates.filter(c => c.similarity >= SUGGESTION_THRESHOLD).slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Levenshtein edit distance (insertions, deletions, substitutions)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Compare names the way people type them: case, spaces, dashes and underscores don't matter
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().trim().replace(/[\s_-]+/g, '-');
+}
+
+/**
+ * A note's filename, with and without the date prefix used for dated notes
+ */
+function fileNameKeys(notePath: string): string[] {
+  const name = normalizeName(path.basename(notePath, '.md'));
+  const undated = name.replace(/^\d{4}-\d{2}-\d{2}-/, '');
+  return undated !== name ? [name, undated] : [name];
+}
+
+function kindRank(kind: NoteMatchKind): number {
+  const index = EXACT_KIND_ORDER.indexOf(kind);
+  return index === -1 ? EXACT_KIND_ORDER.length : index;
+}
@@ -0,0 +1,165 @@
+/**
+ * Project overview note
+ *
+ * One note per project (projects/<name>/overview.md) saying where the project
+ * stands. The block between the auto markers is rebuilt after every session
+ * from recent session summaries, active decisions and knowledge; everything
+ * outside it belongs to the user and is kept as written.
+ *
+ * The overview's summary (the user's notes followed by the Current State
+ * paragraph) is the top paragraph of project context.
+ */
+
+export const OVERVIEW_AUTO_START = '<!-- only-context:auto:start -->';
+export const OVERVIEW_AUTO_END = '<!-- only-context:auto:end -->';
+
+/** Last line of the auto block */
+const AUTO_FOOTER = '_This block is rebuilt after each session; edit the Notes section above instead._';
+/** Shown in the user's section of a new overview until it is edited */
+const NOTES_PLACEHOLDER = '_Add anything worth knowing about this project here. This section is never overwritten._';
+
+export interface OverviewEntry {
+  title: string;
+  /** Wikilink target */
+  link: string;
+  summary?: string;
+  date?: string;
+}
+
+export interface OverviewInput {
+  project: string;
+  /** Where the project stands, one paragraph */
+  currentState: string;
+  /** Newest first */
+  sessions: OverviewEntry[];
+  decisions: OverviewEntry[];
+  knowledge: OverviewEntry[];
+}
+
+export interface ProjectStats {
+  sessions: number;
+  firstSession?: string;
+  lastSession?: { date: string; summary: string };
+  openErrors: number;
+  activeDecisions: number;
+}
+
+/**
+ * Note body for an overview, keeping the user's part of an existing one
+ */
+export function buildOverviewContent(existing: string | undefined, input: OverviewInput): string {
+  const auto = renderAutoBlock(input);
+
+  if (existing !== undefined) {
+    const start = existing.indexOf(OVERVIEW_AUTO_START);
+    const end = existing.indexOf(OVERVIEW_AUTO_END);
+    if (start !== -1 && end > start) {
+      return existing.substring(0, start) + auto + existing.substring(end + OVERVIEW_AUTO_END.length);
+    }
+    // Markers removed by hand: keep the whole note and add a fresh block below
+    return `${existing.trimEnd()}\n\n${auto}\n`;
+  }
+
+  return [
+    `# ${input.project} Overview`,
+    '',
+    '## Notes',
+    '',
+    NOTES_PLACEHOLDER,
+    '',
+    auto,
+    '',
+  ].join('\n');
+}
+
+/**
+ * The user's notes and the Current State paragraph of an overview
+ */
+export function parseOverview(content: string): { notes: string; currentState: string } {
+  const start = content.indexOf(OVERVIEW_AUTO_START);
+  const end = content.indexOf(OVERVIEW_AUTO_END);
+  const hasBlock = start !== -1 && end > start;
+
+  const outside = hasBlock
+    ? content.substring(0, start) + content.substring(end + OVERVIEW_AUTO_END.length)
+    : content;
+  const notes = outside
+    .split('\n')
+    .filter(line => !/^#\s/.test(line.trim()) && line.trim() !== '## Notes' && line.trim() !== NOTES_PLACEHOLDER)
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  let currentState = '';
+  if (hasBlock) {
+    const block = content.substring(start + OVERVIEW_AUTO_START.length, end).replace(AUTO_FOOTER, '');
+    const match = block.match(/## Current State\n+([\s\S]*?)(?=\n## |$)/);
+    currentState = match ? match[1].trim() : '';
+  }
+
+  return { notes, currentState };
+}
+
+/**
+ * Top paragraph of project context: the user's notes, then the current state
+ */
+export function overviewSummary(content: string): string {
+  const { notes, currentState } = parseOverview(content);
+  return [notes, currentState].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Current State paragraph built from counts, for when no summarizer has written one
+ */
+export function describeProjectState(stats: ProjectStats): string {
+  const parts: string[] = [];
+
+  if (stats.sessions > 0) {
+    const since = stats.firstSession ? ` since ${stats.firstSession}` : '';
+    const last = stats.lastSession
+      ? `, most recently on ${stats.lastSession.date}${stats.lastSession.summary ? `: ${stats.lastSession.summary}` : '.'}`
+      : '.';
+    parts.push(`${plural(stats.sessions, 'session')} recorded${since}${last}`);
+  } else {
+    parts.push('No sessions recorded yet.');
+  }
+
+  parts.push(`${plural(stats.openErrors, 'open error')}, ${plural(stats.activeDecisions, 'active decision')}.`);
+  return parts.join(' ');
+}
+
+function renderAutoBlock(input: OverviewInput): string {
+  const lines: string[] = [OVERVIEW_AUTO_START, '## Current State', '', input.currentState, ''];
+
+  if (input.sessions.length > 0) {
+    lines.push('## Recent Work', '');
+    for (const session of input.sessions) {
+      lines.push(`- **${session.date || session.title}**: ${session.summary || '_No summary_'} ([[${session.link}|${session.title}]])`);
+    }
+    lines.push('');
+  }
+
+  if (input.decisions.length > 0) {
+    lines.push('## Active Decisions', '');
+    for (const decision of input.decisions) {
+      lines.push(`- [[${decision.link}|${decision.title}]]${decision.summary ? `: ${decision.summary}` : ''}`);
+    }
+    lines.push('');
+  }
+
+  if (input.knowledge.length > 0) {
+    lines.push('## Knowledge', '');
+    for (const item of input.knowledge) {
+      lines.push(`- [[${item.link}|${item.title}]]`);
+    }
+    lines.push('');
+  }
+
+  lines.push(AUTO_FOOTER);
+  lines.push(OVERVIEW_AUTO_END);
+  return lines.join('\n');
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
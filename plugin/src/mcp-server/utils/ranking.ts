@@ -0,0 +1,197 @@
+import type { SearchResult } from '../../shared/types.js';
+import type { IndexedNote } from './search-index.js';
+import { tokenize, findSequence } from './tokenizer.js';
+
+/**
+ * Relevance ranking for memory search
+ *
+ * score = relevance (BM25F over title + body) x recency decay x type boost
+ *
+ * Semantic search uses the same formula with embedding similarity as relevance.
+ *
+ * Results from separate searches (regular notes vs knowledge) are combined
+ * with reciprocal rank fusion, which only looks at ranks and so does not
+ * depend on the two lists having comparable raw scores.
+ */
+
+/** BM25 term-frequency saturation */
+const BM25_K1 = 1.2;
+/** BM25 length normalization strength */
+const BM25_B = 0.75;
+/** A match in the title counts this many times a body match */
+const TITLE_WEIGHT = 3;
+/** Age at which the recency component has decayed by half */
+const RECENCY_HALF_LIFE_DAYS = 90;
+/** Share of the score that is subject to recency decay (old notes keep the rest) */
+const RECENCY_WEIGHT = 0.4;
+/** Reciprocal rank fusion constant */
+const RRF_K = 60;
+
+/**
+ * Multipliers favoring distilled knowledge over raw activity logs
+ */
+const TYPE_BOOSTS: Record<string, number> = {
+  decision: 1.5,
+  pattern: 1.4,
+  error: 1.15,
+  learning: 1.1,
+  file: 0.9,
+  session: 0.8,
+};
+
+const KNOWLEDGE_TYPE_BOOSTS: Record<string, number> = {
+  decision: 1.5,
+  learning: 1.2,
+  explanation: 1.1,
+  qa: 1.1,
+  research: 1.0,
+};
+
+/** Category and project index notes are navigation aids, not answers */
+const INDEX_NOTE_BOOST = 0.5;
+const SUPERSEDED_BOOST = 0.5;
+
+export interface CorpusStats {
+  documentCount: number;
+  /** Average body length in tokens */
+  averageLength: number;
+  /** Number of documents containing each term (lowercased) */
+  documentFrequency: Record<string, number>;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  relevance: number;
+  recency: number;
+  typeBoost: number;
+}
+
+/**
+ * Score a note against the positive query terms
+ * With no terms, relevance is neutral and ordering comes from recency and type.
+ */
+export function scoreNote(
+  note: IndexedNote,
+  terms: string[],
+  stats: CorpusStats,
+  now: number = Date.now()
+): ScoreBreakdown {
+  return scoreRelevance(note, terms.length > 0 ? bm25f(note, terms, stats) : 1, now);
+}
+
+/**
+ * Apply recency and type boosts to an externally computed relevance (e.g. cosine similarity)
+ */
+export function scoreRelevance(note: IndexedNote, relevance: number, now: number = Date.now()): ScoreBreakdown {
+  const recency = recencyFactor(note.updated || note.created, now);
+  const typeBoost = typeBoostFor(note);
+
+  return {
+    score: relevance * recency * typeBoost,
+    relevance,
+    recency,
+    typeBoost,
+  };
+}
+
+/**
+ * BM25F: per-field term frequencies are length-normalized, weighted, then saturated
+ */
+function bm25f(note: IndexedNote, terms: string[], stats: CorpusStats): number {
+  const body = tokenize(note.content);
+  const title = tokenize(note.title);
+  const bodyLength = body.length;
+  const averageLength = stats.averageLength || 1;
+  const lengthNorm = 1 - BM25_B + BM25_B * (bodyLength / averageLength);
+
+  let score = 0;
+  for (const rawTerm of terms) {
+    const term = rawTerm.toLowerCase();
+    if (!term) continue;
+
+    const tf = countOccurrences(note.content, body, term) / lengthNorm +
+      TITLE_WEIGHT * countOccurrences(note.title, title, term);
+    if (tf === 0) continue;
+
+    const df = stats.documentFrequency[term] || 0;
+    const n = stats.documentCount;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+
+    score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1);
+  }
+
+  return score;
+}
+
+/**
+ * Exponential decay with a floor, so old notes are demoted but never buried
+ */
+function recencyFactor(date: string | undefined, now: number): number {
+  if (!date) return 1 - RECENCY_WEIGHT;
+
+  const time = new Date(date).getTime();
+  if (isNaN(time)) return 1 - RECENCY_WEIGHT;
+
+  const ageDays = Math.max(0, (now - time) / 86400000);
+  const decay = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  return 1 - RECENCY_WEIGHT + RECENCY_WEIGHT * decay;
+}
+
+function typeBoostFor(note: IndexedNote): number {
+  let boost = note.knowledgeType
+    ? KNOWLEDGE_TYPE_BOOSTS[note.knowledgeType] ?? 1
+    : TYPE_BOOSTS[note.type] ?? 1;
+
+  if (note.tags.includes('index')) {
+    boost *= INDEX_NOTE_BOOST;
+  }
+  if (note.frontmatter.status === 'superseded') {
+    boost *= SUPERSEDED_BOOST;
+  }
+
+  return boost;
+}
+
+/**
+ * Combine independently ranked result lists with reciprocal rank fusion
+ * Each list must already be sorted best-first. The fused score replaces `score`.
+ */
+export function fuseResults(lists: SearchResult[][], k: number = RRF_K): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+
+  for (const list of lists) {
+    list.forEach((result, rank) => {
+      const contribution = 1 / (k + rank + 1);
+      const existing = fused.get(result.path);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(result.path, { ...result, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Count occurrences of a term as a token sequence
+ * Terms without word characters fall back to counting substrings.
+ */
+function countOccurrences(text: string, tokens: string[], term: string): number {
+  const needle = tokenize(term);
+  if (needle.length > 0) {
+    return findSequence(tokens, needle).length;
+  }
+
+  const lower = text.toLowerCase();
+  let count = 0;
+  let index = 0;
+
+  while ((index = lower.indexOf(term, index)) !== -1) {
+    count += 1;
+    index += term.length;
+  }
+
+  return count;
+}
@@ -0,0 +1,213 @@
+import * as path from 'path';
+import { extractWikilinks } from './wikilinks.js';
+import { createLinkResolver } from './link-graph.js';
+import type { IndexedNote } from './search-index.js';
+
+/**
+ * Rank notes by how strongly they are connected to a source note
+ *
+ * Signals (weights are summed):
+ * - direct wikilinks in either direction, including frontmatter links such as supersedes
+ * - shared topics and tags, weighted by rarity so "lang/typescript" counts less than "auth/jwt"
+ * - shared wikilink targets (both notes link to the same third note)
+ * - shared sessions (`sessions` on error notes, `session_id` on session notes)
+ * - the same `file_path`, or one note mentioning the other's file
+ *
+ * Category and project index notes are navigation only and never count.
+ */
+
+const LINK_WEIGHT = 4;
+const TOPIC_WEIGHT = 3;
+const FILE_WEIGHT = 3;
+const SESSION_WEIGHT = 2;
+const FILE_MENTION_WEIGHT = 1.5;
+const TAG_WEIGHT = 1;
+const SHARED_LINK_WEIGHT = 1;
+
+/** Tags every note of a kind carries; sharing them says nothing */
+const GENERIC_TAGS = new Set([
+  'session', 'error', 'decision', 'pattern', 'file', 'learning', 'knowledge', 'index', 'auto-extracted',
+]);
+const GENERIC_TAG_PREFIXES = ['project/', 'knowledge/', 'topic/'];
+
+export interface RelatedMatch {
+  note: IndexedNote;
+  score: number;
+  /** Human-readable explanations, strongest first */
+  reasons: string[];
+}
+
+interface NoteFeatures {
+  links: Set<string>;
+  topics: Set<string>;
+  tags: Set<string>;
+  sessions: Set<string>;
+  filePath?: string;
+}
+
+/**
+ * Find notes related to `source` among `notes`
+ */
+export function findRelatedNotes(source: IndexedNote, notes: IndexedNote[], limit: number = 10): RelatedMatch[] {
+  const resolve = createLinkResolver(notes.map(note => note.path));
+  const indexPaths = new Set(notes.filter(isIndexNote).map(note => note.path));
+  const resolveLink = (target: string) => {
+    const resolved = resolve(target);
+    return resolved && !indexPaths.has(resolved) ? resolved : undefined;
+  };
+  const candidates = notes.filter(note => note.path !== source.path && !isIndexNote(note));
+
+  const features = new Map<string, NoteFeatures>();
+  for (const note of [source, ...candidates]) {
+    features.set(note.path, extractFeatures(note, resolveLink));
+  }
+
+  // How many notes share each topic, tag and link target, for rarity weighting
+  const frequency = new Map<string, number>();
+  for (const f of features.values()) {
+    for (const key of [
+      ...[...f.topics].map(t => `topic:${t}`),
+      ...[...f.tags].map(t => `tag:${t}`),
+      ...[...f.links].map(l => `link:${l}`),
+    ]) {
+      frequency.set(key, (frequency.get(key) || 0) + 1);
+    }
+  }
+  const rarity = (key: string) => 1 / Math.log2(1 + (frequency.get(key) || 1));
+
+  const sourceFeatures = features.get(source.path)!;
+  const byPath = new Map(notes.map(note => [note.path, note]));
+  const results: RelatedMatch[] = [];
+
+  for (const note of candidates) {
+    const f = features.get(note.path)!;
+    const reasons: Array<{ weight: number; text: string }> = [];
+
+    if (sourceFeatures.links.has(note.path)) {
+      reasons.push({ weight: LINK_WEIGHT, text: 'linked from this note' });
+    }
+    if (f.links.has(source.path)) {
+      reasons.push({ weight: LINK_WEIGHT, text: 'links to this note' });
+    }
+
+    const sharedTopics = intersect(sourceFeatures.topics, f.topics);
+    if (sharedTopics.length > 0) {
+      reasons.push({
+        weight: sum(sharedTopics.map(t => TOPIC_WEIGHT * rarity(`topic:${t}`))),
+        text: `shared topics: ${sharedTopics.join(', ')}`,
+      });
+    }
+
+    const sharedTags = intersect(sourceFeatures.tags, f.tags);
+    if (sharedTags.length > 0) {
+      reasons.push({
+        weight: sum(sharedTags.map(t => TAG_WEIGHT * rarity(`tag:${t}`))),
+        text: `shared tags: ${sharedTags.map(t => `#${t}`).join(' ')}`,
+      });
+    }
+
+    const sharedTargets = intersect(sourceFeatures.links, f.links)
+      .filter(target => target !== source.path && target !== note.path);
+    if (sharedTargets.length > 0) {
+      const titles = sharedTargets.map(target => byPath.get(target)?.title || path.basename(target, '.md'));
+      reasons.push({
+        weight: sum(sharedTargets.map(target => SHARED_LINK_WEIGHT * rarity(`link:${target}`))),
+        text: `both link to ${titles.map(t => `[[${t}]]`).join(', ')}`,
+      });
+    }
+
+    const sharedSessions = intersect(sourceFeatures.sessions, f.sessions);
+    if (sharedSessions.length > 0) {
+      reasons.push({
+        weight: SESSION_WEIGHT * sharedSessions.length,
+        text: `same session${sharedSessions.length > 1 ? 's' : ''}: ${sharedSessions.map(s => s.substring(0, 8)).join(', ')}`,
+      });
+    }
+
+    if (sourceFeatures.filePath && sourceFeatures.filePath === f.filePath) {
+      reasons.push({ weight: FILE_WEIGHT, text: `same file: ${f.filePath}` });
+    } else if (f.filePath && source.content.includes(f.filePath)) {
+      reasons.push({ weight: FILE_MENTION_WEIGHT, text: `this note mentions its file ${f.filePath}` });
+    } else if (sourceFeatures.filePath && note.content.includes(sourceFeatures.filePath)) {
+      reasons.push({ weight: FILE_MENTION_WEIGHT, text: `mentions this note's file ${sourceFeatures.filePath}` });
+    }
+
+    if (reasons.length === 0) continue;
+
+    reasons.sort((a, b) => b.weight - a.weight);
+    results.push({
+      note,
+      score: sum(reasons.map(r => r.weight)),
+      reasons: reasons.map(r => r.text),
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.note.path.localeCompare(b.note.path))
+    .slice(0, limit);
+}
+
+function extractFeatures(note: IndexedNote, resolveLink: (target: string) => string | undefined): NoteFeatures {
+  const links = new Set<string>();
+  for (const target of [...extractWikilinks(note.content).map(l => l.link), ...frontmatterLinks(note.frontmatter)]) {
+    const resolved = resolveLink(target);
+    if (resolved && resolved !== note.path) links.add(resolved);
+  }
+
+  const topics = new Set<string>();
+  const rawTopics = Array.isArray(note.frontmatter.topics) ? note.frontmatter.topics as unknown[] : [];
+  for (const topic of rawTopics) {
+    topics.add(normalizeTopic(String(topic)));
+  }
+
+  const tags = new Set<string>();
+  for (const rawTag of note.tags) {
+    const tag = String(rawTag).toLowerCase();
+    if (tag.startsWith('topic/')) {
+      topics.add(normalizeTopic(tag.substring('topic/'.length)));
+    } else if (!GENERIC_TAGS.has(tag) && !GENERIC_TAG_PREFIXES.some(prefix => tag.startsWith(prefix))) {
+      tags.add(tag);
+    }
+  }
+
+  const sessions = new Set<string>();
+  const rawSessions = Array.isArray(note.frontmatter.sessions) ? note.frontmatter.sessions as unknown[] : [];
+  for (const session of [...rawSessions, note.frontmatter.session_id]) {
+    if (session) sessions.add(String(session));
+  }
+
+  const filePath = note.frontmatter.file_path ? String(note.frontmatter.file_path) : undefined;
+
+  return { links, topics, tags, sessions, filePath };
+}
+
+/**
+ * Wikilinks written into frontmatter values (parent, supersedes, superseded_by, ...)
+ */
+function frontmatterLinks(frontmatter: Record<string, unknown>): string[] {
+  const targets: string[] = [];
+  for (const value of Object.values(frontmatter)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string' && item.includes('[[')) {
+        targets.push(...extractWikilinks(item).map(l => l.link));
+      }
+    }
+  }
+  return targets;
+}
+
+function isIndexNote(note: IndexedNote): boolean {
+  return note.tags.includes('index');
+}
+
+function normalizeTopic(topic: string): string {
+  return topic.toLowerCase().trim().replace(/\s+/g, '-');
+}
+
+function intersect(a: Set<string>, b: Set<string>): string[] {
+  return [...a].filter(item => b.has(item));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
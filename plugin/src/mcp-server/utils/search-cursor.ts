@@ -0,0 +1,53 @@
+import * as crypto from 'crypto';
+
+/**
+ * Opaque pagination cursors for mem_search
+ *
+ * A cursor records the offset of the next page and a fingerprint of the
+ * search that produced it, so a cursor can't silently be applied to a
+ * different query.
+ */
+
+interface CursorPayload {
+  /** Offset of the first result on the next page */
+  o: number;
+  /** Search fingerprint */
+  f: string;
+}
+
+/**
+ * Fingerprint the parameters that determine a result list (everything except paging)
+ */
+export function fingerprintSearch(params: Record<string, unknown>): string {
+  const stable = Object.keys(params)
+    .sort()
+    .map(key => [key, params[key] ?? null]);
+  return crypto.createHash('sha256').update(JSON.stringify(stable)).digest('hex').substring(0, 12);
+}
+
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor into the offset it points at
+ * @throws Error if the cursor is malformed or belongs to a different search
+ */
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as CursorPayload;
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (typeof payload.o !== 'number' || payload.o < 0 || !Number.isInteger(payload.o)) {
+    throw new Error('Invalid cursor');
+  }
+  if (payload.f !== fingerprint) {
+    throw new Error('Cursor belongs to a different search; repeat the original query and filters');
+  }
+
+  return payload.o;
+}
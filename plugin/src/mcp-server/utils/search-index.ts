@@ -0,0 +1,613 @@
+import { Database } from 'bun:sqlite';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { parseFrontmatter } from './frontmatter.js';
+import { getConfigDir } from '../../shared/config.js';
+import type { CorpusStats } from './ranking.js';
+import { tokenize } from './tokenizer.js';
+import type { NoteEntry } from './note-resolver.js';
+import { chunkText, cosineSimilarity, type EmbeddingProvider } from './embeddings.js';
+import { extractNoteLinks } from './link-graph.js';
+import type { LinkType } from '../../shared/types.js';
+
+/**
+ * Persistent full-text index over the memory folder
+ *
+ * Architecture:
+ * - One SQLite database per memory folder: {configDir}/search-index/{hash}.db
+ * - `notes` holds parsed frontmatter and content for every markdown file
+ * - `notes_fts` is an FTS5 table over pre-tokenized text (see tokenizer.ts), so
+ *   Korean particles, CJK bigrams and English stems match the same way everywhere
+ * - `chunks` caches embedding vectors per note chunk, keyed by provider id
+ * - `links` holds each note's outgoing wikilinks for the link graph (see link-graph.ts)
+ *
+ * Writers update the index as they touch files; `sync()` picks up edits made
+ * outside of only-context (e.g. in Obsidian) by comparing file mtimes.
+ */
+
+const INDEX_DIR = 'search-index';
+const SCHEMA_VERSION = '6';
+const BUSY_TIMEOUT_MS = 3000;
+/** Chunks sent to the embedding provider per request */
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Which search path a note belongs to
+ * - knowledge: notes under a knowledge/ or research/ folder (searchKnowledge)
+ * - note: everything else (searchNotes)
+ */
+export type IndexedNoteKind = 'knowledge' | 'note';
+
+export interface IndexedNote {
+  /** Path relative to the vault root (forward slashes) */
+  path: string;
+  title: string;
+  type: string;
+  /** Sanitized project folder name, if the note lives under projects/ */
+  projectDir?: string;
+  kind: IndexedNoteKind;
+  knowledgeType?: string;
+  created?: string;
+  updated?: string;
+  tags: string[];
+  frontmatter: Record<string, unknown>;
+  content: string;
+  /** Line of the file where `content` starts (1-based, after frontmatter) */
+  bodyLine: number;
+}
+
+export interface IndexQuery {
+  /**
+   * Terms that must appear in the title or content (compared as token sequences),
+   * as a conjunction of disjunctions: [['a', 'b'], ['c']] means (a OR b) AND c
+   */
+  terms?: string[][];
+  kind?: IndexedNoteKind;
+  projectDir?: string;
+  type?: string;
+  knowledgeType?: string;
+}
+
+export interface SemanticMatch {
+  /** Best cosine similarity over the note's chunks */
+  similarity: number;
+  /** Text of the best-matching chunk */
+  chunk: string;
+}
+
+interface NoteRow {
+  path: string;
+  title: string;
+  type: string;
+  project_dir: string | null;
+  kind: IndexedNoteKind;
+  knowledge_type: string | null;
+  created: string | null;
+  updated: string | null;
+  tags: string;
+  frontmatter: string;
+  content: string;
+  body_line: number;
+}
+
+export class SearchIndex {
+  private db: Database;
+  private vaultPath: string;
+  private memFolder: string;
+
+  constructor(vaultPath: string, memFolder: string, dbPath?: string) {
+    this.vaultPath = vaultPath;
+    this.memFolder = memFolder;
+
+    const file = dbPath || SearchIndex.getIndexPath(vaultPath, memFolder);
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(file, { create: true });
+    this.db.run(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.run('PRAGMA journal_mode = WAL');
+    this.migrate();
+  }
+
+  /**
+   * Get the database path for a vault's memory folder
+   * Hashing the folder path keeps indexes for different vaults apart
+   */
+  static getIndexPath(vaultPath: string, memFolder: string): string {
+    const memPath = path.resolve(vaultPath, memFolder);
+    const hash = crypto.createHash('sha256').update(memPath).digest('hex').substring(0, 16);
+    return path.join(getConfigDir(), INDEX_DIR, `${hash}.db`);
+  }
+
+  /**
+   * Create tables, dropping everything if the schema version changed
+   */
+  private migrate(): void {
+    this.db.run('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT)');
+    const row = this.db
+      .query<{ value: string }, [string]>('SELECT value FROM meta WHERE key = ?')
+      .get('schema_version');
+
+    if (row?.value !== SCHEMA_VERSION) {
+      this.db.run('DROP TABLE IF EXISTS notes');
+      this.db.run('DROP TABLE IF EXISTS notes_fts');
+      this.db.run('DROP TABLE IF EXISTS chunks');
+      this.db.run('DROP TABLE IF EXISTS links');
+    }
+
+    this.db.run(`CREATE TABLE IF NOT EXISTS notes (
+      path TEXT PRIMARY KEY,
+      mtime REAL NOT NULL,
+      title TEXT NOT NULL,
+      type TEXT NOT NULL,
+      project_dir TEXT,
+      kind TEXT NOT NULL,
+      knowledge_type TEXT,
+      created TEXT,
+      updated TEXT,
+      tags TEXT NOT NULL,
+      frontmatter TEXT NOT NULL,
+      content TEXT NOT NULL,
+      body_line INTEGER NOT NULL,
+      length INTEGER NOT NULL
+    )`);
+    this.db.run(
+      "CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(path UNINDEXED, title, body, tokenize='unicode61 remove_diacritics 0')"
+    );
+    this.db.run(`CREATE TABLE IF NOT EXISTS chunks (
+      path TEXT NOT NULL,
+      chunk INTEGER NOT NULL,
+      provider TEXT NOT NULL,
+      mtime REAL NOT NULL,
+      text TEXT NOT NULL,
+      vector BLOB NOT NULL,
+      PRIMARY KEY (path, chunk)
+    )`);
+    this.db.run(`CREATE TABLE IF NOT EXISTS links (
+      source TEXT NOT NULL,
+      target TEXT NOT NULL,
+      type TEXT NOT NULL
+    )`);
+    this.db.run('CREATE INDEX IF NOT EXISTS links_source ON links (source)');
+    this.db.run('CREATE INDEX IF NOT EXISTS links_target ON links (target)');
+    this.db
+      .query('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)')
+      .run('schema_version', SCHEMA_VERSION);
+  }
+
+  /**
+   * Get the full path to the memory folder
+   */
+  private getMemPath(): string {
+    return path.join(this.vaultPath, this.memFolder);
+  }
+
+  /**
+   * Convert an absolute path to the vault-relative key used in the index
+   */
+  private toKey(fullPath: string): string {
+    return path.relative(this.vaultPath, fullPath).split(path.sep).join('/');
+  }
+
+  /**
+   * Add or refresh a single file in the index
+   * Removes the entry if the file no longer exists
+   */
+  indexFile(fullPath: string): void {
+    if (!fs.existsSync(fullPath)) {
+      this.removeFile(fullPath);
+      return;
+    }
+
+    const stat = fs.statSync(fullPath);
+    const raw = fs.readFileSync(fullPath, 'utf-8');
+    const { frontmatter, content } = parseFrontmatter(raw);
+
+    const key = this.toKey(fullPath);
+    const memRelative = path.relative(this.getMemPath(), fullPath).split(path.sep);
+    const dirSegments = memRelative.slice(0, -1);
+    const kind: IndexedNoteKind =
+      dirSegments.includes('knowledge') || dirSegments.includes('research') ? 'knowledge' : 'note';
+    const projectDir = memRelative[0] === 'projects' && memRelative.length > 2 ? memRelative[1] : null;
+    // YAML may hand back numbers (title: 2024) or null (an empty type:)
+    const title = String(frontmatter.title || path.basename(fullPath, '.md'));
+    const type = String(frontmatter.type || 'learning');
+    const bodyTokens = tokenize(content);
+    const bodyOffset = raw.endsWith(content) ? raw.length - content.length : 0;
+    const bodyLine = raw.substring(0, bodyOffset).split('\n').length;
+
+    const write = this.db.transaction(() => {
+      this.db.query('DELETE FROM notes_fts WHERE path = ?').run(key);
+      this.db.query('DELETE FROM chunks WHERE path = ?').run(key);
+      this.db.query('DELETE FROM links WHERE source = ?').run(key);
+      this.db.query(`INSERT OR REPLACE INTO notes
+        (path, mtime, title, type, project_dir, kind, knowledge_type, created, updated, tags, frontmatter, content, body_line, length)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+        key,
+        stat.mtimeMs,
+        title,
+        type,
+        projectDir,
+        kind,
+        (frontmatter.knowledge_type as string) || null,
+        toDateString(frontmatter.created),
+        toDateString(frontmatter.updated),
+        JSON.stringify(Array.isArray(frontmatter.tags) ? frontmatter.tags : []),
+        JSON.stringify(frontmatter),
+        content,
+        bodyLine,
+        bodyTokens.length
+      );
+      this.db
+        .query('INSERT INTO notes_fts (path, title, body) VALUES (?, ?, ?)')
+        .run(key, tokenize(title).join(' '), bodyTokens.join(' '));
+      const insertLink = this.db.query('INSERT INTO links (source, target, type) VALUES (?, ?, ?)');
+      for (const link of extractNoteLinks(frontmatter, content)) {
+        insertLink.run(key, link.target, link.type);
+      }
+    });
+    write();
+  }
+
+  /**
+   * Remove a file from the index
+   */
+  removeFile(fullPath: string): void {
+    const key = this.toKey(fullPath);
+    const remove = this.db.transaction(() => {
+      this.db.query('DELETE FROM notes_fts WHERE path = ?').run(key);
+      this.db.query('DELETE FROM chunks WHERE path = ?').run(key);
+      this.db.query('DELETE FROM links WHERE source = ?').run(key);
+      this.db.query('DELETE FROM notes WHERE path = ?').run(key);
+    });
+    remove();
+  }
+
+  /**
+   * Bring the index up to date with the filesystem
+   * Only files whose mtime changed are re-read, so this is cheap on a warm index
+   * Files that fail to index are logged and returned in `failed` rather than dropped silently
+   */
+  sync(): { indexed: number; removed: number; failed: string[] } {
+    const known = new Map<string, number>();
+    for (const row of this.db.query<{ path: string; mtime: number }, []>('SELECT path, mtime FROM notes').all()) {
+      known.set(row.path, row.mtime);
+    }
+
+    let indexed = 0;
+    const failed: string[] = [];
+    for (const file of walkMarkdown(this.getMemPath())) {
+      const key = this.toKey(file);
+      const mtime = known.get(key);
+      known.delete(key);
+
+      try {
+        if (mtime === undefined || fs.statSync(file).mtimeMs !== mtime) {
+          this.indexFile(file);
+          indexed++;
+        }
+      } catch (error) {
+        console.error(`Failed to index ${key}:`, error);
+        failed.push(key);
+      }
+    }
+
+    // Whatever is left was deleted from disk
+    for (const key of known.keys()) {
+      this.removeFile(path.join(this.vaultPath, key));
+    }
+
+    return { indexed, removed: known.size, failed };
+  }
+
+  /**
+   * Drop every entry and re-index the whole memory folder
+   */
+  rebuild(): { indexed: number; failed: string[] } {
+    const clear = this.db.transaction(() => {
+      this.db.run('DELETE FROM notes_fts');
+      this.db.run('DELETE FROM chunks');
+      this.db.run('DELETE FROM links');
+      this.db.run('DELETE FROM notes');
+    });
+    clear();
+    const { indexed, failed } = this.sync();
+    return { indexed, failed };
+  }
+
+  /**
+   * Find notes matching the query filters
+   */
+  query(q: IndexQuery): IndexedNote[] {
+    const where: string[] = [];
+    const params: string[] = [];
+
+    const ftsClauses: string[] = [];
+    for (const clause of q.terms || []) {
+      const alternatives = clause.filter(term => term.length > 0);
+      if (alternatives.length === 0) continue;
+
+      // Terms with no word characters (e.g. "++") can't use the token index and fall back to a scan
+      const phrases = alternatives.map(toFtsPhrase);
+      if (phrases.every(phrase => phrase !== null)) {
+        ftsClauses.push(`(${phrases.join(' OR ')})`);
+      } else {
+        where.push(`(${alternatives.map(() => "instr(lower(n.content || ' ' || n.title), ?) > 0").join(' OR ')})`);
+        params.push(...alternatives.map(term => term.toLowerCase()));
+      }
+    }
+    if (ftsClauses.length > 0) {
+      where.push('n.path IN (SELECT path FROM notes_fts WHERE notes_fts MATCH ?)');
+      params.push(ftsClauses.join(' AND '));
+    }
+    if (q.kind) {
+      where.push('n.kind = ?');
+      params.push(q.kind);
+    }
+    if (q.projectDir) {
+      where.push('n.project_dir = ?');
+      params.push(q.projectDir);
+    }
+    if (q.type) {
+      where.push('n.type = ?');
+      params.push(q.type);
+    }
+    if (q.knowledgeType) {
+      where.push('n.knowledge_type = ?');
+      params.push(q.knowledgeType);
+    }
+
+    const sql = `SELECT n.* FROM notes n${where.length > 0 ? ` WHERE ${where.join(' AND ')}` : ''}`;
+    return this.db.query<NoteRow, string[]>(sql).all(...params).map(rowToNote);
+  }
+
+  /**
+   * Corpus statistics for BM25: document count, average length and per-term document frequency
+   */
+  getStats(terms: string[]): CorpusStats {
+    const totals = this.db
+      .query<{ n: number; avg: number | null }, []>('SELECT COUNT(*) AS n, AVG(length) AS avg FROM notes')
+      .get();
+
+    const documentFrequency: Record<string, number> = {};
+    for (const rawTerm of terms) {
+      const term = rawTerm.toLowerCase();
+      if (!term || term in documentFrequency) continue;
+
+      const phrase = toFtsPhrase(term);
+      const row = phrase !== null
+        ? this.db
+          .query<{ n: number }, [string]>('SELECT COUNT(*) AS n FROM notes_fts WHERE notes_fts MATCH ?')
+          .get(phrase)
+        : this.db
+          .query<{ n: number }, [string]>("SELECT COUNT(*) AS n FROM notes WHERE instr(lower(content || ' ' || title), ?) > 0")
+          .get(term);
+      documentFrequency[term] = row?.n || 0;
+    }
+
+    return {
+      documentCount: totals?.n || 0,
+      averageLength: totals?.avg || 0,
+      documentFrequency,
+    };
+  }
+
+  /**
+   * Embed notes that have no vectors from this provider yet (or changed since)
+   * Vectors are computed lazily, on the first semantic search after a change.
+   */
+  async updateEmbeddings(provider: EmbeddingProvider, signal?: AbortSignal): Promise<number> {
+    const stale = this.db
+      .query<{ path: string; mtime: number; title: string; content: string }, [string]>(
+        `SELECT n.path, n.mtime, n.title, n.content FROM notes n
+         WHERE NOT EXISTS (SELECT 1 FROM chunks c WHERE c.path = n.path AND c.provider = ? AND c.mtime = n.mtime)`
+      )
+      .all(provider.id);
+
+    const pending: Array<{ path: string; mtime: number; chunk: number; last: boolean; text: string; input: string }> = [];
+    for (const note of stale) {
+      const chunks = chunkText(note.content);
+      chunks.forEach((text, chunk) => {
+        // The title gives every chunk the note's topic
+        pending.push({
+          path: note.path,
+          mtime: note.mtime,
+          chunk,
+          last: chunk === chunks.length - 1,
+          text,
+          input: `${note.title}\n${text}`,
+        });
+      });
+    }
+
+    // Batches span notes, but a note is only written once all its chunks are embedded,
+    // so a failed or aborted batch never leaves it half-embedded under a fresh mtime
+    const vectors: number[][] = [];
+    let noteStart = 0;
+    for (let start = 0; start < pending.length; start += EMBED_BATCH_SIZE) {
+      if (signal) {
+        // Offline providers never yield on their own; let the caller's timer fire between batches
+        await new Promise(resolve => setImmediate(resolve));
+        signal.throwIfAborted();
+      }
+      const batch = pending.slice(start, start + EMBED_BATCH_SIZE);
+      vectors.push(...(await provider.embed(batch.map(item => item.input), signal)));
+
+      for (let i = start; i < vectors.length; i++) {
+        if (!pending[i].last) continue;
+        const first = noteStart;
+        const write = this.db.transaction(() => {
+          this.db.query('DELETE FROM chunks WHERE path = ?').run(pending[first].path);
+          for (let j = first; j <= i; j++) {
+            const item = pending[j];
+            this.db
+              .query('INSERT OR REPLACE INTO chunks (path, chunk, provider, mtime, text, vector) VALUES (?, ?, ?, ?, ?, ?)')
+              .run(item.path, item.chunk, provider.id, item.mtime, item.text, new Uint8Array(new Float32Array(vectors[j]).buffer));
+          }
+        });
+        write();
+        noteStart = i + 1;
+      }
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * Rank notes by embedding similarity to a query
+   * @param paths Restrict to these notes (vault-relative); all notes when omitted
+   * @param signal Stops embedding; notes fully embedded before it fired are kept
+   */
+  async semanticSearch(
+    provider: EmbeddingProvider,
+    text: string,
+    paths?: Set<string>,
+    signal?: AbortSignal
+  ): Promise<Map<string, SemanticMatch>> {
+    await this.updateEmbeddings(provider, signal);
+    const [queryVector] = await provider.embed([text], signal);
+
+    const matches = new Map<string, SemanticMatch>();
+    const rows = this.db
+      .query<{ path: string; text: string; vector: Uint8Array }, [string]>(
+        'SELECT path, text, vector FROM chunks WHERE provider = ?'
+      )
+      .all(provider.id);
+
+    for (const row of rows) {
+      if (paths && !paths.has(row.path)) continue;
+
+      // Copy into an aligned buffer before viewing as floats
+      const vector = new Float32Array(row.vector.slice().buffer);
+      const similarity = cosineSimilarity(queryVector, vector);
+      const best = matches.get(row.path);
+      if (!best || similarity > best.similarity) {
+        matches.set(row.path, { similarity, chunk: row.text });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Outgoing links of a note, with targets as written (normalized)
+   */
+  getLinksFrom(notePath: string): Array<{ target: string; type: LinkType }> {
+    return this.db
+      .query<{ target: string; type: LinkType }, [string]>('SELECT target, type FROM links WHERE source = ?')
+      .all(notePath);
+  }
+
+  /**
+   * Links whose normalized target is one of `targets`
+   */
+  getLinksTo(targets: string[]): Array<{ source: string; target: string; type: LinkType }> {
+    if (targets.length === 0) return [];
+    return this.db
+      .query<{ source: string; target: string; type: LinkType }, string[]>(
+        `SELECT source, target, type FROM links WHERE target IN (${targets.map(() => '?').join(', ')})`
+      )
+      .all(...targets);
+  }
+
+  /**
+   * Whether a note is in the index
+   */
+  has(notePath: string): boolean {
+    return this.db.query<{ n: number }, [string]>('SELECT 1 AS n FROM notes WHERE path = ?').get(notePath) !== null;
+  }
+
+  /**
+   * Path, title, type and aliases of every note, for resolving note references
+   */
+  listEntries(): NoteEntry[] {
+    return this.db
+      .query<{ path: string; title: string; type: string; aliases: string | null }, []>(
+        // -> keeps the value as JSON; json_extract would return a plain string alias unquoted
+        "SELECT path, title, type, frontmatter -> '$.aliases' AS aliases FROM notes"
+      )
+      .all()
+      .map(row => {
+        const aliases: unknown = row.aliases ? JSON.parse(row.aliases) : null;
+        return {
+          path: row.path,
+          title: row.title,
+          type: row.type,
+          // A single alias may be written as a plain string
+          aliases: (Array.isArray(aliases) ? aliases : [aliases]).filter(alias => alias !== null && alias !== undefined).map(String),
+        };
+      });
+  }
+
+  /**
+   * Number of notes in the index
+   */
+  count(): number {
+    return this.db.query<{ n: number }, []>('SELECT COUNT(*) AS n FROM notes').get()?.n || 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Turn a term into an FTS5 phrase over its tokens
+ * @returns null if the term has no indexable tokens
+ */
+function toFtsPhrase(term: string): string | null {
+  const tokens = tokenize(term);
+  if (tokens.length === 0) return null;
+  return `"${tokens.join(' ').replace(/"/g, '""')}"`;
+}
+
+/**
+ * Normalize a frontmatter date (string or Date from YAML) to an ISO string
+ */
+function toDateString(value: unknown): string | null {
+  if (!value) return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function rowToNote(row: NoteRow): IndexedNote {
+  return {
+    path: row.path,
+    title: row.title,
+    type: row.type,
+    projectDir: row.project_dir || undefined,
+    kind: row.kind,
+    knowledgeType: row.knowledge_type || undefined,
+    created: row.created || undefined,
+    updated: row.updated || undefined,
+    tags: JSON.parse(row.tags) as string[],
+    frontmatter: JSON.parse(row.frontmatter) as Record<string, unknown>,
+    content: row.content,
+    bodyLine: row.body_line,
+  };
+}
+
+/**
+ * Recursively list markdown files under a directory
+ */
+function walkMarkdown(dir: string): string[] {
+  const files: string[] = [];
+
+  if (!fs.existsSync(dir)) {
+    return files;
+  }
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walkMarkdown(fullPath));
+    } else if (entry.name.endsWith('.md')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,379 @@
+import type { IndexedNote } from './search-index.js';
+import { sanitizeProjectName } from '../../shared/config.js';
+import { tokenize, findSequence } from './tokenizer.js';
+
+/**
+ * Search query grammar for mem_search
+ *
+ *   auth token            both terms must appear (any order)
+ *   "token refresh"       exact phrase
+ *   -redis  -"old api"    exclude notes containing the term or phrase
+ *   jwt OR session        either term (OR binds adjacent terms)
+ *   field:value           frontmatter filter, e.g. type:decision tag:auth
+ *   field:"two words"     quoted filter value
+ *   key=value  key>3      predicate on any frontmatter key; operators = != > >= < <=
+ *                         e.g. resolved=false occurrences>3 knowledge_type=qa
+ *
+ * The parsed form is a conjunction of clauses, each clause a disjunction of atoms.
+ * Text is compared token by token (see tokenizer.ts), so "인증" finds "인증에서"
+ * and "migrate" finds "migrating".
+ */
+
+export const QUERY_FIELDS = ['title', 'tag', 'project', 'type', 'status', 'topic'] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export const PREDICATE_OPERATORS = ['!=', '>=', '<=', '=', '>', '<'] as const;
+
+export type PredicateOperator = typeof PREDICATE_OPERATORS[number];
+
+export type QueryAtom =
+  | { kind: 'text'; value: string; phrase: boolean }
+  | { kind: 'field'; field: QueryField; value: string }
+  | { kind: 'predicate'; key: string; operator: PredicateOperator; value: string };
+
+export interface ParsedQuery {
+  /** Every clause must match; a clause matches if any of its atoms matches */
+  clauses: QueryAtom[][];
+  /** No excluded atom may match */
+  excluded: QueryAtom[];
+}
+
+interface RawToken {
+  text: string;
+  quoted: boolean;
+  negated: boolean;
+  field?: QueryField;
+  predicate?: { key: string; operator: PredicateOperator };
+}
+
+/**
+ * Parse a query string into clauses and exclusions
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const tokens = tokenizeQuery(query);
+  const clauses: QueryAtom[][] = [];
+  const excluded: QueryAtom[] = [];
+
+  let joinNext = false;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // Bare OR joins the previous and next atoms into one clause
+    if (!token.quoted && !token.negated && !token.field && !token.predicate && token.text === 'OR') {
+      joinNext = clauses.length > 0;
+      continue;
+    }
+
+    const atom = toAtom(token);
+
+    if (token.negated) {
+      excluded.push(atom);
+      joinNext = false;
+      continue;
+    }
+
+    if (joinNext) {
+      clauses[clauses.length - 1].push(atom);
+    } else {
+      clauses.push([atom]);
+    }
+    joinNext = false;
+  }
+
+  return { clauses, excluded };
+}
+
+/**
+ * Split a query into raw tokens, honoring quotes, leading "-", field prefixes and predicates
+ */
+function tokenizeQuery(query: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  const regex = /(-(?=[^\s-]))?(?:([a-zA-Z]+):|([a-zA-Z_][\w.-]*)(!=|>=|<=|=|>|<)(?=\S))?(?:"([^"]*)"?|(\S+))/g;
+
+  let match;
+  while ((match = regex.exec(query)) !== null) {
+    const [, minus, fieldName, predicateKey, operator, quotedText, bareText] = match;
+
+    if (predicateKey) {
+      const value = quotedText !== undefined ? quotedText : bareText;
+      tokens.push({
+        text: value.trim(),
+        quoted: quotedText !== undefined,
+        negated: minus === '-',
+        predicate: { key: predicateKey, operator: operator as PredicateOperator },
+      });
+      continue;
+    }
+
+    const field = fieldName && (QUERY_FIELDS as readonly string[]).includes(fieldName.toLowerCase())
+      ? fieldName.toLowerCase() as QueryField
+      : undefined;
+
+    // Unknown prefixes (e.g. "http:") are kept as part of the text
+    let text = quotedText !== undefined ? quotedText : bareText;
+    if (fieldName && !field) {
+      text = `${fieldName}:${text}`;
+    }
+
+    if (!text || !text.trim()) continue;
+
+    tokens.push({
+      text: text.trim(),
+      quoted: quotedText !== undefined,
+      negated: minus === '-',
+      field,
+    });
+  }
+
+  return tokens;
+}
+
+function toAtom(token: RawToken): QueryAtom {
+  if (token.predicate) {
+    return { kind: 'predicate', key: token.predicate.key, operator: token.predicate.operator, value: token.text };
+  }
+  if (token.field) {
+    return { kind: 'field', field: token.field, value: token.text };
+  }
+  return { kind: 'text', value: token.text, phrase: token.quoted };
+}
+
+/**
+ * Text clauses usable for full-text candidate selection
+ * Only clauses made entirely of text atoms can narrow the candidate set.
+ */
+export function getTextClauses(query: ParsedQuery): string[][] {
+  return query.clauses
+    .filter(clause => clause.every(atom => atom.kind === 'text'))
+    .map(clause => clause.map(atom => atom.value));
+}
+
+/**
+ * Positive text atoms, used for scoring and snippets
+ */
+export function getPositiveTerms(query: ParsedQuery): string[] {
+  const terms: string[] = [];
+  for (const clause of query.clauses) {
+    for (const atom of clause) {
+      if (atom.kind === 'text') terms.push(atom.value);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Check whether an indexed note satisfies the parsed query
+ */
+export function matchesQuery(query: ParsedQuery, note: IndexedNote): boolean {
+  return matchesClauses(query, note, false);
+}
+
+/**
+ * Check field filters and exclusions only, ignoring positive free-text clauses
+ * Used by semantic search, where the text is matched by meaning instead.
+ */
+export function matchesFilters(query: ParsedQuery, note: IndexedNote): boolean {
+  return matchesClauses(query, note, true);
+}
+
+function matchesClauses(query: ParsedQuery, note: IndexedNote, skipTextClauses: boolean): boolean {
+  const text = new NoteText(note.content + '\n' + note.title);
+
+  for (const clause of query.clauses) {
+    if (skipTextClauses && clause.every(atom => atom.kind === 'text')) continue;
+    if (!clause.some(atom => matchesAtom(atom, note, text))) {
+      return false;
+    }
+  }
+
+  for (const atom of query.excluded) {
+    if (matchesAtom(atom, note, text)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Note text, tokenized on first use
+ */
+class NoteText {
+  private text: string;
+  private tokens: string[] | null = null;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  contains(term: string): boolean {
+    if (!this.tokens) {
+      this.tokens = tokenize(this.text);
+    }
+    return containsTerm(this.text, term, this.tokens);
+  }
+}
+
+/**
+ * Check whether text contains a term as a token sequence
+ * Terms without word characters (e.g. "++") fall back to substring matching.
+ */
+export function containsTerm(text: string, term: string, textTokens: string[] = tokenize(text)): boolean {
+  const needle = tokenize(term);
+  if (needle.length === 0) {
+    return text.toLowerCase().includes(term.toLowerCase());
+  }
+  return findSequence(textTokens, needle).length > 0;
+}
+
+function matchesAtom(atom: QueryAtom, note: IndexedNote, text: NoteText): boolean {
+  const value = atom.value.toLowerCase();
+
+  if (atom.kind === 'text') {
+    return text.contains(atom.value);
+  }
+  if (atom.kind === 'predicate') {
+    return matchesPredicate(note.frontmatter[atom.key], atom.operator, atom.value);
+  }
+
+  switch (atom.field) {
+    case 'title':
+      return containsTerm(note.title, atom.value);
+    case 'tag': {
+      const tag = value.replace(/^#/, '');
+      // tag:error also matches nested tags such as error/type
+      return note.tags.some(t => {
+        const lower = String(t).toLowerCase();
+        return lower === tag || lower.startsWith(tag + '/');
+      });
+    }
+    case 'project': {
+      const project = note.frontmatter.project as string | undefined;
+      return (project !== undefined && String(project).toLowerCase() === value) ||
+        note.projectDir === sanitizeProjectName(atom.value);
+    }
+    case 'type':
+      return note.type.toLowerCase() === value ||
+        (note.knowledgeType || '').toLowerCase() === value ||
+        (value === 'knowledge' && note.kind === 'knowledge');
+    case 'status': {
+      const status = (note.frontmatter.status as string | undefined) || 'active';
+      return status.toLowerCase() === value;
+    }
+    case 'topic': {
+      const topics = Array.isArray(note.frontmatter.topics) ? note.frontmatter.topics as unknown[] : [];
+      const slug = value.replace(/\s+/g, '-');
+      return topics.some(t => String(t).toLowerCase() === value) ||
+        note.tags.some(t => String(t).toLowerCase() === `topic/${slug}`);
+    }
+  }
+}
+
+/**
+ * Compare a frontmatter value against a predicate
+ * Values are compared as booleans, numbers or dates when both sides parse as
+ * such, otherwise as case-insensitive strings. Lists match if any item does.
+ * A missing key only satisfies "!=".
+ */
+export function matchesPredicate(actual: unknown, operator: PredicateOperator, expected: string): boolean {
+  if (Array.isArray(actual)) {
+    const some = actual.some(item => matchesPredicate(item, operator === '!=' ? '=' : operator, expected));
+    return operator === '!=' ? !some : some;
+  }
+  if (actual === undefined || actual === null) {
+    return operator === '!=';
+  }
+
+  const comparison = compareValues(actual, expected);
+  if (comparison === null) return operator === '!=';
+
+  switch (operator) {
+    case '=': return comparison === 0;
+    case '!=': return comparison !== 0;
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+  }
+}
+
+/**
+ * Order a frontmatter value relative to a query literal
+ * @returns negative, zero or positive; null if the two can't be ordered (e.g. true > 3)
+ */
+function compareValues(actual: unknown, expected: string): number | null {
+  const literal = expected.trim().toLowerCase();
+
+  if (typeof actual === 'boolean' || literal === 'true' || literal === 'false') {
+    const actualText = String(actual).toLowerCase();
+    if (literal !== 'true' && literal !== 'false') return null;
+    return actualText === literal ? 0 : actualText < literal ? -1 : 1;
+  }
+
+  const actualNumber = typeof actual === 'number' ? actual : Number(actual);
+  const expectedNumber = Number(literal);
+  if (literal !== '' && !isNaN(expectedNumber) && String(actual).trim() !== '' && !isNaN(actualNumber)) {
+    return actualNumber - expectedNumber;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(literal)) {
+    const actualTime = new Date(actual instanceof Date ? actual : String(actual)).getTime();
+    const expectedTime = new Date(expected.trim()).getTime();
+    if (!isNaN(actualTime) && !isNaN(expectedTime)) {
+      return actualTime - expectedTime;
+    }
+  }
+
+  const actualText = String(actual).toLowerCase();
+  return actualText === literal ? 0 : actualText < literal ? -1 : 1;
+}
+
+/**
+ * Whether the query filters on status itself (then superseded notes are not hidden implicitly)
+ */
+export function hasStatusFilter(query: ParsedQuery): boolean {
+  return [...query.clauses.flat(), ...query.excluded].some(atom =>
+    (atom.kind === 'field' && atom.field === 'status') ||
+    (atom.kind === 'predicate' && atom.key === 'status')
+  );
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 3600000,
+  d: 86400000,
+  w: 7 * 86400000,
+  m: 30 * 86400000,
+  y: 365 * 86400000,
+};
+
+/**
+ * Resolve a since/until value to a timestamp
+ * Accepts ISO dates ("2024-06-01", "2024-06-01T12:00:00Z"), relative durations
+ * counted back from now ("12h", "7d", "2w", "3m", "1y"), "today" and "yesterday".
+ * A date-only upper bound covers that whole day.
+ */
+export function resolveDateBound(value: string, bound: 'start' | 'end', now: number = Date.now()): number {
+  const text = value.trim().toLowerCase();
+
+  const relative = text.match(/^(\d+)\s*([hdwmy])$/);
+  if (relative) {
+    return now - parseInt(relative[1], 10) * DURATION_UNITS_MS[relative[2]];
+  }
+
+  if (text === 'today' || text === 'yesterday') {
+    const day = new Date(now);
+    day.setHours(0, 0, 0, 0);
+    if (text === 'yesterday') day.setDate(day.getDate() - 1);
+    return bound === 'start' ? day.getTime() : day.getTime() + 86400000 - 1;
+  }
+
+  const time = new Date(value.trim()).getTime();
+  if (isNaN(time)) {
+    throw new Error(`Invalid date "${value}": use an ISO date like 2024-06-01 or a duration like 7d`);
+  }
+  if (bound === 'end' && /^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return time + 86400000 - 1;
+  }
+  return time;
+}
@@ -0,0 +1,228 @@
+/**
+ * Test history note
+ *
+ * One note per project (projects/<name>/test-history.md) listing recent test
+ * runs and, for every test that has failed, its result in each session it
+ * ran in. A session's result is marked "edited" when files that could affect
+ * the test were edited in that session before it ran. A test whose result
+ * keeps changing from one session to the next without such edits is flaky.
+ */
+
+import { normalizeCommand, samePath } from '../../shared/commands.js';
+import type { TestRunData, FlakyTest } from '../../shared/types.js';
+
+/** Rows kept in Recent Runs */
+const MAX_RUNS = 20;
+/** Session results kept per test */
+const MAX_RESULTS = 12;
+/** Unexplained result changes that make a test flaky */
+const FLAKY_FLIPS = 2;
+
+const TESTS_HEADING = '## Tests';
+const RUNS_HEADING = '## Recent Runs';
+
+export interface TestSessionResult {
+  /** First 8 characters of the session id */
+  session: string;
+  status: 'pass' | 'fail';
+  /** Related files were edited in the session before this result */
+  edited: boolean;
+}
+
+export interface TrackedTest {
+  name: string;
+  file?: string;
+  /** Command it last failed under; a clean run of the same command passes it */
+  command: string;
+  /** Oldest first, one per session */
+  results: TestSessionResult[];
+}
+
+export interface TestHistory {
+  /** Recent Runs table rows, newest first */
+  runs: string[];
+  tests: TrackedTest[];
+}
+
+/**
+ * Runs and tracked tests of an existing note's body
+ */
+export function parseTestHistory(content: string): TestHistory {
+  const history: TestHistory = { runs: [], tests: [] };
+
+  history.runs = tableRows(content, RUNS_HEADING);
+  for (const row of tableRows(content, TESTS_HEADING)) {
+    const [name, file, command, results] = splitRow(row).map(cell => unescapeCell(cell.replace(/^`|`$/g, '')));
+    if (!name) continue;
+    history.tests.push({
+      name,
+      file: file && file !== '-' ? file : undefined,
+      command: command || '',
+      results: (results || '').split(', ').map(parseResult).filter((result): result is TestSessionResult => !!result),
+    });
+  }
+
+  return history;
+}
+
+/**
+ * The history with a test run added
+ * @param context.editedFiles Files edited in the session before the run
+ */
+export function recordTestRun(
+  history: TestHistory,
+  run: TestRunData,
+  context: { sessionId: string; date: string; editedFiles: string[] }
+): TestHistory {
+  const session = context.sessionId.substring(0, 8);
+  const command = normalizeCommand(run.command);
+  const clean = run.failed === 0 && run.exitCode === 0;
+  const tests = history.tests.map(test => ({ ...test, results: [...test.results] }));
+
+  for (const failing of run.tests.filter(test => test.status === 'failed')) {
+    if (!tests.some(test => sameTest(test, failing))) {
+      tests.push({ name: failing.name, file: failing.file, command, results: [] });
+    }
+  }
+
+  for (const test of tests) {
+    const listed = run.tests.find(result => sameTest(test, result) && result.status !== 'skipped');
+    const status = listed
+      ? (listed.status === 'failed' ? 'fail' : 'pass')
+      : (clean && test.command === command ? 'pass' : undefined);
+    if (!status) continue;
+
+    if (status === 'fail') test.command = command;
+    const edited = context.editedFiles.some(file => isRelatedEdit(file, test.file));
+    const last = test.results[test.results.length - 1];
+    if (last?.session === session) {
+      test.results[test.results.length - 1] = { session, status, edited: last.edited || edited };
+    } else {
+      test.results.push({ session, status, edited });
+    }
+    test.results = test.results.slice(-MAX_RESULTS);
+  }
+
+  return { runs: [runRow(run, session, context.date), ...history.runs].slice(0, MAX_RUNS), tests };
+}
+
+/**
+ * Tests whose result changed between sessions at least twice without related edits
+ */
+export function findFlakyTests(history: TestHistory, notePath = ''): FlakyTest[] {
+  const flaky: FlakyTest[] = [];
+
+  for (const test of history.tests) {
+    const flips = test.results.filter((result, i) =>
+      i > 0 && result.status !== test.results[i - 1].status && !result.edited
+    ).length;
+    if (flips < FLAKY_FLIPS) continue;
+
+    flaky.push({
+      name: test.name,
+      file: test.file,
+      flips,
+      sessions: test.results.length,
+      lastStatus: test.results[test.results.length - 1].status,
+      path: notePath,
+    });
+  }
+
+  return flaky.sort((a, b) => b.flips - a.flips || a.name.localeCompare(b.name));
+}
+
+/**
+ * Note body for a project's test history
+ */
+export function buildTestHistoryContent(project: string, history: TestHistory): string {
+  const flaky = findFlakyTests(history);
+  const code = (text: string) => `\`${escapeCell(text)}\``;
+
+  return [
+    `# ${project} Test History`,
+    '',
+    '## Flaky Tests',
+    '',
+    ...(flaky.length > 0 ? flaky.map(describeFlakyTest) : ['_No flaky tests detected._']),
+    '',
+    RUNS_HEADING,
+    '',
+    '| Date | Session | Runner | Command | Result | Duration |',
+    '|------|---------|--------|---------|--------|----------|',
+    ...history.runs,
+    '',
+    TESTS_HEADING,
+    '',
+    '| Test | File | Command | Results |',
+    '|------|------|---------|---------|',
+    ...history.tests.map(test => `| ${code(test.name)} | ${test.file ? code(test.file) : '-'} | ${code(test.command)} | ${test.results.map(formatResult).join(', ')} |`),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Identifies a flaky test in injected context; the note path alone would
+ * stand for every test in the note
+ */
+export function flakyTestId(test: FlakyTest): string {
+  return `${test.path}#${test.name}`;
+}
+
+/**
+ * One line about a flaky test, e.g. for project context
+ */
+export function describeFlakyTest(test: FlakyTest): string {
+  const where = test.file && !test.name.startsWith(test.file) ? ` (${test.file})` : '';
+  return `- \`${test.name}\`${where}: ${test.flips} result changes without related edits over ${test.sessions} sessions, last ${test.lastStatus === 'fail' ? 'failed' : 'passed'}`;
+}
+
+/**
+ * Whether editing a file could explain a change in a test's result
+ * Docs never do, and other tests' files don't when the test's own file is known.
+ */
+function isRelatedEdit(file: string, testFile: string | undefined): boolean {
+  if (/\.(md|mdx|txt|rst)$/i.test(file)) return false;
+  if (!testFile || !isTestFile(file)) return true;
+  return samePath(file, testFile);
+}
+
+function isTestFile(file: string): boolean {
+  return /[._](test|spec)\.\w+$|(^|[\\/])(tests?|__tests__)[\\/]|(^|[\\/])test_[^\\/]+\.py$|_test\.(go|py)$/.test(file);
+}
+
+function sameTest(test: { name: string; file?: string }, other: { name: string; file?: string }): boolean {
+  return test.name === other.name && (!test.file || !other.file || samePath(test.file, other.file));
+}
+
+function runRow(run: TestRunData, session: string, date: string): string {
+  const result = [`${run.passed} passed`, `${run.failed} failed`, ...(run.skipped > 0 ? [`${run.skipped} skipped`] : [])].join(', ');
+  const duration = run.durationMs === undefined ? '-' : run.durationMs < 1000 ? `${run.durationMs}ms` : `${(run.durationMs / 1000).toFixed(1)}s`;
+  return `| ${date} | ${session} | ${run.runner} | \`${escapeCell(normalizeCommand(run.command))}\` | ${result} | ${duration} |`;
+}
+
+function formatResult(result: TestSessionResult): string {
+  return `${result.status} ${result.session}${result.edited ? ' (edited)' : ''}`;
+}
+
+function parseResult(text: string): TestSessionResult | null {
+  const match = text.trim().match(/^(pass|fail) (\S+)( \(edited\))?$/);
+  return match ? { status: match[1] as 'pass' | 'fail', session: match[2], edited: !!match[3] } : null;
+}
+
+function tableRows(content: string, heading: string): string[] {
+  const section = content.match(new RegExp(`${heading}\\n\\n\\|.*\\|\\n\\|[-|\\s]+\\|\\n((?:\\|.*\\|\\n?)*)`));
+  return section ? section[1].split('\n').filter(line => line.startsWith('|')) : [];
+}
+
+/** Cells of a table row, splitting only on unescaped pipes */
+function splitRow(row: string): string[] {
+  return row.replace(/^\|\s*|\s*\|$/g, '').split(/\s*(?<!\\)\|\s*/);
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function unescapeCell(text: string): string {
+  return text.replace(/\\\|/g, '|');
+}
@@ -0,0 +1,239 @@
+/**
+ * Tokenizer for memory search
+ *
+ * Indexing, matching, ranking, snippets and the hashing embedder all go through
+ * this module, so a query term and the text it should find are always reduced
+ * to the same tokens.
+ *
+ * - Latin and digits: lowercased words with light suffix stemming
+ *   ("migrating", "migration", "migrated" -> "migrat")
+ * - Hangul: trailing particles and common endings are stripped from each word
+ *   ("인증에서" -> "인증", "오류가" -> "오류"), then the stem is split into
+ *   syllable bigrams so parts of compound nouns still match ("서버" in "인증서버")
+ * - Han and Kana: character bigrams (no spaces between words)
+ *
+ * A multi-token term matches where its tokens appear consecutively.
+ */
+
+export interface Token {
+  term: string;
+  /** Offsets into the original text */
+  start: number;
+  end: number;
+}
+
+const HANGUL = /\p{Script=Hangul}/u;
+const RUN_PATTERN = new RegExp(
+  [
+    '\\p{Script=Hangul}+',
+    '[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]+',
+    '(?:(?![\\p{Script=Hangul}\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}])[\\p{L}\\p{N}])+',
+  ].join('|'),
+  'gu'
+);
+
+/**
+ * Korean particles and endings, longest first so "에서는" wins over "는"
+ */
+const HANGUL_SUFFIXES = [
+  '에서부터', '으로부터',
+  '에서는', '으로는', '에게서', '이라는', '입니다', '합니다', '했는데',
+  '에서', '에게', '한테', '으로', '부터', '까지', '처럼', '보다', '이나', '이랑', '에는', '와는', '과는',
+  '라는', '하는', '하고', '하기', '하여', '해서', '했다', '한다', '된다', '되는', '했음', '이다',
+  '은', '는', '이', '가', '을', '를', '에', '의', '도', '로', '와', '과', '만', '랑', '한', '된',
+];
+
+/** Stems shorter than this are left alone ("회의" is a word, not "회" + "의") */
+const MIN_HANGUL_STEM = 2;
+
+/**
+ * Split text into search tokens with their source offsets
+ */
+export function tokenizeWithOffsets(text: string): Token[] {
+  const tokens: Token[] = [];
+  let previousEnd = -1;
+
+  for (const match of text.matchAll(RUN_PATTERN)) {
+    const run = match[0];
+    const start = match.index ?? 0;
+    const attached = start === previousEnd;
+    previousEnd = start + run.length;
+
+    if (HANGUL.test(run[0])) {
+      const stem = stripHangulSuffix(run);
+      // A bare particle glued to a Latin word ("API를") carries nothing
+      if (stem === null) {
+        if (attached) continue;
+        pushNgrams(tokens, run, start);
+      } else {
+        pushNgrams(tokens, stem, start);
+      }
+    } else if (/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(run[0])) {
+      pushNgrams(tokens, run, start);
+    } else {
+      tokens.push({ term: stemWord(run.toLowerCase()), start, end: start + run.length });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Split text into search tokens
+ */
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map(token => token.term);
+}
+
+/**
+ * Find every occurrence of a token sequence, returning start indexes into `haystack`
+ */
+export function findSequence(haystack: string[], needle: string[]): number[] {
+  const positions: number[] = [];
+  if (needle.length === 0) return positions;
+
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    let matched = true;
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) positions.push(i);
+  }
+
+  return positions;
+}
+
+/**
+ * Locate the source spans where any of the terms occur
+ * Terms without word characters (e.g. "++") fall back to case-insensitive substring search.
+ */
+export function findTermSpans(text: string, terms: string[]): Array<{ start: number; end: number }> {
+  const tokens = tokenizeWithOffsets(text);
+  const tokenTerms = tokens.map(token => token.term);
+  const spans: Array<{ start: number; end: number }> = [];
+
+  for (const term of terms) {
+    const needle = tokenize(term);
+    if (needle.length > 0) {
+      for (const position of findSequence(tokenTerms, needle)) {
+        spans.push({ start: tokens[position].start, end: tokens[position + needle.length - 1].end });
+      }
+      continue;
+    }
+
+    const lower = text.toLowerCase();
+    const value = term.toLowerCase();
+    if (!value) continue;
+    let index = 0;
+    while ((index = lower.indexOf(value, index)) !== -1) {
+      spans.push({ start: index, end: index + value.length });
+      index += value.length;
+    }
+  }
+
+  return mergeSpans(spans);
+}
+
+/**
+ * Strip one trailing particle or ending from a Hangul word
+ * @returns The stem, the word itself if nothing was stripped, or null if the word is only a particle
+ */
+function stripHangulSuffix(word: string): string | null {
+  for (const suffix of HANGUL_SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+    if (word === suffix) return null;
+
+    const stem = word.substring(0, word.length - suffix.length);
+    if ([...stem].length >= MIN_HANGUL_STEM) {
+      return stem;
+    }
+  }
+  return word;
+}
+
+/**
+ * Emit character bigrams of a run (a single character becomes a unigram)
+ */
+function pushNgrams(tokens: Token[], run: string, runStart: number): void {
+  const chars = [...run];
+  const offsets: number[] = [];
+  let offset = runStart;
+  for (const char of chars) {
+    offsets.push(offset);
+    offset += char.length;
+  }
+  offsets.push(offset);
+
+  if (chars.length === 1) {
+    tokens.push({ term: chars[0], start: offsets[0], end: offsets[1] });
+    return;
+  }
+
+  for (let i = 0; i + 1 < chars.length; i++) {
+    tokens.push({ term: chars[i] + chars[i + 1], start: offsets[i], end: offsets[i + 2] });
+  }
+}
+
+/**
+ * Light English suffix stemmer
+ * Not linguistically exact; it only has to map related forms to the same stem.
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+
+  let w = word;
+
+  // Plurals
+  if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('ies')) {
+    w = w.slice(0, -3) + 'i';
+  } else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  // Verb forms
+  for (const suffix of ['ing', 'ed']) {
+    const stem = w.slice(0, -suffix.length);
+    if (w.endsWith(suffix) && stem.length >= 3 && /[aeiouy]/.test(stem)) {
+      w = /([^aeiouylsz])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+      break;
+    }
+  }
+
+  // Derivational endings
+  for (const [suffix, replacement] of [['ational', 'ate'], ['ization', 'ize'], ['ation', 'ate'], ['ness', '']]) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 4) {
+      w = w.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  if (w.endsWith('y') && w.length > 3) {
+    w = w.slice(0, -1) + 'i';
+  }
+  if (w.endsWith('e') && w.length > 4) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+function mergeSpans(spans: Array<{ start: number; end: number }>): Array<{ start: number; end: number }> {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const merged: Array<{ start: number; end: number }> = [];
+
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  return merged;
+}
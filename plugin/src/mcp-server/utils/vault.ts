@@ -1,18 +1,105 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parseFrontmatter, stringifyFrontmatter, generateFrontmatter, mergeFrontmatter } from './frontmatter.js';
-import type { Note, NoteFrontmatter, WriteNoteInput, NoteType, SearchResult, ProjectContext } from '../../shared/types.js';
+import { SearchIndex, type IndexQuery, type IndexedNote } from './search-index.js';
+import {
+  parseSearchQuery,
+  matchesQuery,
+  matchesFilters,
+  getTextClauses,
+  getPositiveTerms,
+  hasStatusFilter,
+  resolveDateBound,
+  type ParsedQuery,
+} from './search-query.js';
+import { scoreNote, scoreRelevance, fuseResults, type ScoreBreakdown } from './ranking.js';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embeddings.js';
+import { findTermSpans } from './tokenizer.js';
+import {
+  parseNoteReference,
+  findNoteCandidates,
+  pickCandidate,
+  suggestCandidates,
+  type NoteCandidate,
+} from './note-resolver.js';
+import { findRelatedNotes } from './related.js';
+import { LinkGraph, type GraphOptions } from './link-graph.js';
+import { rankContextNotes } from './context-ranking.js';
+import { buildOverviewContent, parseOverview, overviewSummary, describeProjectState } from './project-overview.js';
+import { parseTestHistory, recordTestRun, findFlakyTests, buildTestHistoryContent } from './test-history.js';
+import type { Note, NoteFrontmatter, WriteNoteInput, NoteType, SearchQuery, SearchResult, SearchMatch, RelatedNote, Backlink, NoteGraph, ProjectContext, ProjectOverview, PinnedNote, WorkingTreeState, ContextItem, RedactionConfig, TestRunData, FlakyTest } from '../../shared/types.js';
 import { loadConfig, getMemFolderPath, getProjectPath, sanitizeProjectName } from '../../shared/config.js';
+import { redactNote } from '../../shared/redaction.js';
 import { PROJECTS_FOLDER, GLOBAL_FOLDER, TEMPLATES_FOLDER } from '../../shared/constants.js';
 
+/** Minimum time between filesystem syncs of the search index */
+const INDEX_SYNC_INTERVAL_MS = 30000;
+/** Semantic matches below this cosine similarity are treated as unrelated */
+const MIN_SEMANTIC_SIMILARITY = 0.1;
+/** Matching lines reported per search result */
+const MAX_MATCHES_PER_RESULT = 20;
+const MAX_MATCH_LINE_LENGTH = 200;
+
+/** File name of a project's overview note, next to the project index */
+const OVERVIEW_FILE = 'overview.md';
+/** Entries listed in each part of the overview */
+const OVERVIEW_SESSIONS = 5;
+const OVERVIEW_DECISIONS = 5;
+const OVERVIEW_KNOWLEDGE = 8;
+
+/** File name of a project's instructions note, always injected at session start */
+const INSTRUCTIONS_FILE = 'instructions.md';
+/** Per-project test history, kept up to date by test runs */
+const TEST_HISTORY_FILE = 'test-history.md';
+/** Body of a new instructions note; a note with nothing else in it isn't injected */
+const INSTRUCTIONS_PLACEHOLDER = '_Rules and conventions for every session in this project, e.g. "never run migrations against prod". Everything you write here is injected at session start._';
+
+/**
+ * Options shared by searchNotes and searchKnowledge
+ */
+type SearchOptions = Pick<SearchQuery, 'limit' | 'mode' | 'dateRange' | 'dateField' | 'includeSuperseded'> & {
+  /** Cancels semantic search; keyword search is synchronous */
+  signal?: AbortSignal;
+};
+
+/**
+ * Where a search looks and how its results are labeled
+ */
+interface SearchScope {
+  /** Index-level filters (everything except text terms) */
+  filter: Omit<IndexQuery, 'terms'>;
+  /** Option filters the index can't express */
+  accept: (note: IndexedNote) => boolean;
+  resultType: (note: IndexedNote) => string;
+}
+
 export class VaultManager {
   private vaultPath: string;
   private memFolder: string;
+  private searchIndex: SearchIndex | null = null;
+  private lastIndexSync = 0;
+  private indexSync: boolean;
+  private embeddingProvider: EmbeddingProvider | null = null;
+  private redaction: RedactionConfig;
 
-  constructor(vaultPath?: string, memFolder?: string) {
+  /**
+   * @param options.indexSync Walk the vault for outside edits before reading the index (default true).
+   *   Hooks with a time limit turn it off and read the index as the last writer left it.
+   */
+  constructor(vaultPath?: string, memFolder?: string, options: { indexSync?: boolean } = {}) {
     const config = loadConfig();
     this.vaultPath = vaultPath || config.vault.path;
     this.memFolder = memFolder || config.vault.memFolder;
+    this.redaction = config.redaction;
+    this.indexSync = options.indexSync !== false;
+  }
+
+  /**
+   * Write a note file with secrets redacted
+   * Every note the vault writes goes through here.
+   */
+  private writeNoteFile(fullPath: string, raw: string): void {
+    fs.writeFileSync(fullPath, redactNote(raw, this.redaction));
   }
 
   /**
@@ -22,6 +109,61 @@ export class VaultManager {
     return path.join(this.vaultPath, this.memFolder);
   }
 
+  /**
+   * Wikilink target of a project's index note, or of one of its category indexes
+   */
+  getProjectIndexLink(projectName: string, category?: string): string {
+    const project = sanitizeProjectName(projectName);
+    const parts = [this.memFolder, PROJECTS_FOLDER, project];
+    return (category ? [...parts, category, category] : [...parts, project]).join('/');
+  }
+
+  /**
+   * Get the persistent search index for this vault (opened lazily)
+   */
+  getSearchIndex(): SearchIndex {
+    if (!this.searchIndex) {
+      this.searchIndex = new SearchIndex(this.vaultPath, this.memFolder);
+    }
+    return this.searchIndex;
+  }
+
+  /**
+   * Update the search index for a note after it was written
+   * Accepts a vault-relative, mem-relative or absolute path.
+   * Failures are logged and never break the write itself.
+   */
+  indexNote(notePath: string): void {
+    try {
+      this.getSearchIndex().indexFile(this.resolvePath(notePath));
+    } catch (error) {
+      console.error(`Failed to update search index for ${notePath}:`, error);
+    }
+  }
+
+  /**
+   * Drop and rebuild the search index from the files on disk
+   * @returns Number of notes indexed, and the vault-relative paths of notes that failed to index
+   */
+  async rebuildSearchIndex(): Promise<{ indexed: number; failed: string[] }> {
+    const result = this.getSearchIndex().rebuild();
+    this.lastIndexSync = Date.now();
+    return result;
+  }
+
+  /**
+   * Pick up notes created or edited outside of only-context (e.g. in Obsidian)
+   * Runs at most once per INDEX_SYNC_INTERVAL_MS, and never when indexSync is off
+   */
+  private syncSearchIndex(): SearchIndex {
+    const index = this.getSearchIndex();
+    if (this.indexSync && Date.now() - this.lastIndexSync > INDEX_SYNC_INTERVAL_MS) {
+      index.sync();
+      this.lastIndexSync = Date.now();
+    }
+    return index;
+  }
+
   /**
    * Ensure the vault structure exists
    */
@@ -81,6 +223,12 @@ export class VaultManager {
       await this.createProjectIndex(projectName, projectPath);
     }
 
+    // Create the instructions note if it doesn't exist
+    const instructionsPath = path.join(projectPath, INSTRUCTIONS_FILE);
+    if (!fs.existsSync(instructionsPath)) {
+      this.createInstructionsNote(projectName, instructionsPath);
+    }
+
     // Create category indexes if they don't exist
     for (const category of categories) {
       // Use category name as index file name (e.g., decisions/decisions.md)
@@ -182,7 +330,26 @@ SORT created DESC
 \`\`\`
 `;
 
-    fs.writeFileSync(indexPath, frontmatter + content);
+    this.writeNoteFile(indexPath, frontmatter + content);
+    this.indexNote(indexPath);
+  }
+
+  /**
+   * Create a project's instructions note with only the placeholder in it
+   */
+  private createInstructionsNote(projectName: string, fullPath: string): void {
+    const frontmatter = generateFrontmatter('learning', {
+      title: `${projectName} Instructions`,
+      project: projectName,
+      tags: ['index', 'instructions', `project/${sanitizeProjectName(projectName)}`],
+      additional: {
+        parent: `[[${this.getProjectIndexLink(projectName)}]]`,
+      },
+    });
+
+    const content = `# ${projectName} Instructions\n\n${INSTRUCTIONS_PLACEHOLDER}\n`;
+    this.writeNoteFile(fullPath, stringifyFrontmatter(frontmatter, content));
+    this.indexNote(fullPath);
   }
 
   /**
@@ -200,6 +367,8 @@ SORT created DESC
 
     const content = `# ${projectName}
 
+See [[${this.memFolder}/${relativePath}/overview|Overview]] for where the project stands and [[${this.memFolder}/${relativePath}/instructions|Instructions]] for rules every session follows.
+
 ## Categories
 
 ${categoryLinks}
@@ -262,23 +431,20 @@ LIMIT 10
       tags: ['index', 'project-root', `project/${sanitizedName}`],
     });
 
-    fs.writeFileSync(
-      path.join(projectPath, `${sanitizedName}.md`),
-      stringifyFrontmatter(frontmatter, content)
-    );
+    const indexPath = path.join(projectPath, `${sanitizedName}.md`);
+    this.writeNoteFile(indexPath, stringifyFrontmatter(frontmatter, content));
+    this.indexNote(indexPath);
   }
 
   /**
    * Read a note by path
    */
   async readNote(notePath: string, section?: string): Promise<Note> {
-    const fullPath = this.resolvePath(notePath);
+    const located = this.locateNote(notePath);
+    notePath = located.path;
+    section = section || located.section;
 
-    if (!fs.existsSync(fullPath)) {
-      throw new Error(`Note not found: ${notePath}`);
-    }
-
-    const raw = fs.readFileSync(fullPath, 'utf-8');
+    const raw = fs.readFileSync(located.fullPath, 'utf-8');
     const { frontmatter, content } = parseFrontmatter(raw);
 
     let finalContent = content;
@@ -294,6 +460,82 @@ LIMIT 10
     };
   }
 
+  /**
+   * Titles of notes by path, skipping notes that were moved or deleted
+   */
+  async readNoteTitles(notePaths: string[]): Promise<Array<{ path: string; title: string }>> {
+    const titles: Array<{ path: string; title: string }> = [];
+    for (const notePath of notePaths) {
+      try {
+        const note = await this.readNote(notePath);
+        titles.push({ path: note.path, title: note.title });
+      } catch {
+        // Note moved or deleted since it was captured
+      }
+    }
+    return titles;
+  }
+
+  /**
+   * Find the file a note reference points at
+   * Falls back to wikilinks, titles, aliases and near-miss filenames when it isn't a path.
+   * @throws Error listing the closest matches if nothing matches
+   */
+  private locateNote(notePath: string): { path: string; fullPath: string; section?: string } {
+    const fullPath = this.resolvePath(notePath);
+    if (fs.existsSync(fullPath)) {
+      return { path: notePath, fullPath };
+    }
+
+    const reference = parseNoteReference(notePath);
+    const found = this.findNote(reference.target);
+    // The index may still list a file that was just deleted
+    if (!found.path || !fs.existsSync(this.resolvePath(found.path))) {
+      throw new Error(this.formatNoteNotFound(notePath, found.suggestions));
+    }
+
+    return {
+      path: found.path,
+      fullPath: this.resolvePath(found.path),
+      section: reference.blockId ? `^${reference.blockId}` : reference.heading,
+    };
+  }
+
+  /**
+   * Resolve a loose note reference to a vault-relative path
+   * Tries the reference as a path first, then filenames, aliases and titles in the
+   * index, then edit-distance matches.
+   */
+  private findNote(target: string): { path?: string; suggestions: NoteCandidate[] } {
+    if (!target) return { suggestions: [] };
+
+    for (const candidate of [target, `${target}.md`]) {
+      try {
+        if (fs.existsSync(this.resolvePath(candidate))) {
+          return { path: candidate, suggestions: [] };
+        }
+      } catch {
+        // Not a usable path; keep looking by name
+      }
+    }
+
+    const candidates = findNoteCandidates(target, this.syncSearchIndex().listEntries());
+    const picked = pickCandidate(candidates);
+    if (picked) {
+      return { path: picked.path, suggestions: [] };
+    }
+    return { suggestions: suggestCandidates(candidates) };
+  }
+
+  private formatNoteNotFound(notePath: string, suggestions: NoteCandidate[]): string {
+    if (suggestions.length === 0) {
+      return `Note not found: ${notePath}`;
+    }
+
+    const lines = suggestions.map(s => `- ${s.entry.path} ("${s.entry.title}")`);
+    return `Note not found: ${notePath}\nClosest matches:\n${lines.join('\n')}`;
+  }
+
   /**
    * Write a note
    */
@@ -323,7 +565,7 @@ LIMIT 10
       } as Partial<NoteFrontmatter>);
       updatedFrontmatter.updated = new Date().toISOString();
 
-      fs.writeFileSync(fullPath, stringifyFrontmatter(updatedFrontmatter, newContent));
+      this.writeNoteFile(fullPath, stringifyFrontmatter(updatedFrontmatter, newContent));
     } else if (exists && input.preserveFrontmatter) {
       // Overwrite content but preserve existing frontmatter fields
       const existing = await this.readNote(notePath);
@@ -352,7 +594,7 @@ LIMIT 10
         updated: new Date().toISOString(),
       };
 
-      fs.writeFileSync(fullPath, stringifyFrontmatter(mergedFrontmatter, input.content));
+      this.writeNoteFile(fullPath, stringifyFrontmatter(mergedFrontmatter, input.content));
     } else {
       // Generate parent link for hierarchical navigation
       const parentLink = this.generateParentLink(notePath, input.project);
@@ -373,9 +615,11 @@ LIMIT 10
         },
       });
 
-      fs.writeFileSync(fullPath, stringifyFrontmatter(frontmatter, input.content));
+      this.writeNoteFile(fullPath, stringifyFrontmatter(frontmatter, input.content));
     }
 
+    this.indexNote(fullPath);
+
     return { path: notePath, created: !exists };
   }
 
@@ -476,7 +720,8 @@ LIMIT 10
         updatedContent = notice + content;
       }
 
-      fs.writeFileSync(fullOldPath, stringifyFrontmatter(frontmatter, updatedContent));
+      this.writeNoteFile(fullOldPath, stringifyFrontmatter(frontmatter, updatedContent));
+      this.indexNote(fullOldPath);
     }
 
     return { oldPath: oldNotePath, newPath: newResult.path };
@@ -665,20 +910,55 @@ ${keyPointsSection}${sourceSection}
           // Append to end of file with proper newline
           raw = raw.trimEnd() + '\n' + links + '\n';
         }
-        fs.writeFileSync(fullPath, raw);
+        this.writeNoteFile(fullPath, raw);
       } else {
         // Create new section
         const knowledgeSection = `\n## Knowledge Captured\n\n${links}\n`;
-        fs.appendFileSync(fullPath, knowledgeSection);
+        this.writeNoteFile(fullPath, fs.readFileSync(fullPath, 'utf-8') + knowledgeSection);
       }
 
       // Update knowledge_captured count in frontmatter
       this.updateKnowledgeCount(fullPath, knowledgePaths.length);
+      this.indexNote(fullPath);
     } catch (error) {
       console.error(`Failed to link session to knowledge: ${sessionPath}`, error);
     }
   }
 
+  /**
+   * Replace a session note's summary and add key actions
+   * The summary goes into the `## Summary` section and frontmatter `summary`;
+   * key actions are appended to `key_actions`, skipping ones already recorded.
+   */
+  async updateSessionSummary(
+    sessionPath: string,
+    update: { summary?: string; keyActions?: string[] }
+  ): Promise<void> {
+    const fullPath = this.resolvePath(sessionPath);
+    if (!fs.existsSync(fullPath)) return;
+
+    try {
+      let { frontmatter, content } = parseFrontmatter(fs.readFileSync(fullPath, 'utf-8'));
+
+      const summary = update.summary?.trim();
+      if (summary) {
+        frontmatter.summary = summary;
+        content = this.replaceSection(content, 'Summary', summary);
+      }
+
+      if (update.keyActions && update.keyActions.length > 0) {
+        const existing = Array.isArray(frontmatter.key_actions) ? frontmatter.key_actions.map(String) : [];
+        frontmatter.key_actions = [...new Set([...existing, ...update.keyActions])];
+      }
+
+      frontmatter.updated = new Date().toISOString();
+      this.writeNoteFile(fullPath, stringifyFrontmatter(frontmatter, content));
+      this.indexNote(fullPath);
+    } catch (error) {
+      console.error(`Failed to update session summary: ${sessionPath}`, error);
+    }
+  }
+
   /**
    * Update the knowledge_captured count in session frontmatter
    */
@@ -691,7 +971,7 @@ ${keyPointsSection}${sourceSection}
       frontmatter.knowledge_captured = currentCount + addCount;
       frontmatter.updated = new Date().toISOString();
 
-      fs.writeFileSync(fullPath, stringifyFrontmatter(frontmatter, content));
+      this.writeNoteFile(fullPath, stringifyFrontmatter(frontmatter, content));
     } catch {
       // Ignore errors - count update is best-effort
     }
@@ -706,178 +986,281 @@ ${keyPointsSection}${sourceSection}
       project?: string;
       knowledgeType?: 'qa' | 'explanation' | 'decision' | 'research' | 'learning';
       topics?: string[];
-      limit?: number;
-    } = {}
+    } & SearchOptions = {}
   ): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
-    const limit = options.limit || 10;
-
-    // Build search directories
-    const searchDirs: string[] = [];
-    if (options.project) {
-      const projectPath = path.join(
-        this.getMemPath(),
-        PROJECTS_FOLDER,
-        sanitizeProjectName(options.project)
-      );
-      searchDirs.push(path.join(projectPath, 'knowledge'));
-      searchDirs.push(path.join(projectPath, 'research'));
-    } else {
-      // Search all projects
-      const projectsDir = path.join(this.getMemPath(), PROJECTS_FOLDER);
-      if (fs.existsSync(projectsDir)) {
-        const projects = fs.readdirSync(projectsDir, { withFileTypes: true })
-          .filter(d => d.isDirectory())
-          .map(d => d.name);
-        for (const proj of projects) {
-          searchDirs.push(path.join(projectsDir, proj, 'knowledge'));
-          searchDirs.push(path.join(projectsDir, proj, 'research'));
+    return this.runSearch(query, {
+      filter: {
+        kind: 'knowledge',
+        projectDir: options.project ? sanitizeProjectName(options.project) : undefined,
+        knowledgeType: options.knowledgeType,
+      },
+      accept: note => {
+        // Knowledge lives in project folders only
+        if (!note.projectDir) return false;
+
+        // Filter by topics
+        if (options.topics && options.topics.length > 0) {
+          const itemTopics = (note.frontmatter.topics as string[]) || [];
+          return options.topics.some(t =>
+            itemTopics.some(it => it.toLowerCase().includes(t.toLowerCase()))
+          );
         }
-      }
-    }
+        return true;
+      },
+      resultType: note => `knowledge/${note.knowledgeType || 'unknown'}`,
+    }, options);
+  }
 
-    const queryLower = query.toLowerCase();
+  /**
+   * Search notes by content
+   * Excludes knowledge/ and research/ folders (use searchKnowledge for those)
+   */
+  async searchNotes(query: string, options: {
+    project?: string;
+    type?: NoteType;
+    tags?: string[];
+  } & SearchOptions = {}): Promise<SearchResult[]> {
+    return this.runSearch(query, {
+      filter: {
+        kind: 'note',
+        projectDir: options.project ? sanitizeProjectName(options.project) : undefined,
+        type: options.type,
+      },
+      // Filter by tags
+      accept: note => !options.tags || options.tags.every(tag => note.tags.includes(tag)),
+      resultType: note => note.type,
+    }, options);
+  }
 
-    for (const dir of searchDirs) {
-      if (!fs.existsSync(dir)) continue;
+  /**
+   * Run a search in the given mode
+   * Hybrid fuses the keyword and semantic rankings; if embedding fails there,
+   * keyword results are still returned.
+   */
+  private async runSearch(query: string, baseScope: SearchScope, options: SearchOptions): Promise<SearchResult[]> {
+    const limit = options.limit || 10;
+    const mode = options.mode || 'keyword';
+    const parsed = parseSearchQuery(query);
+    const index = this.syncSearchIndex();
+
+    const matchesCommon = this.commonFilter(parsed, options);
+    const scope: SearchScope = {
+      ...baseScope,
+      accept: note => baseScope.accept(note) && matchesCommon(note),
+    };
 
-      const files = this.walkDir(dir, '.md');
+    const keyword = mode === 'semantic' ? [] : this.keywordSearch(index, parsed, scope);
 
-      for (const file of files) {
-        if (results.length >= limit) break;
+    let semantic: SearchResult[] = [];
+    if (mode !== 'keyword') {
+      try {
+        semantic = await this.semanticSearch(index, parsed, scope, options.signal);
+      } catch (error) {
+        if (mode === 'semantic') throw error;
+        console.error('Semantic search failed, using keyword results only:', error);
+      }
+    }
 
-        try {
-          const raw = fs.readFileSync(file, 'utf-8');
-          const { frontmatter, content } = parseFrontmatter(raw);
+    const results = mode === 'hybrid'
+      ? fuseResults([keyword, semantic])
+      : mode === 'semantic' ? semantic : keyword;
 
-          // Filter by knowledge type
-          if (options.knowledgeType && frontmatter.knowledge_type !== options.knowledgeType) {
-            continue;
-          }
+    return results.slice(0, limit);
+  }
 
-          // Filter by topics
-          if (options.topics && options.topics.length > 0) {
-            const itemTopics = (frontmatter.topics as string[]) || [];
-            const hasMatchingTopic = options.topics.some(t =>
-              itemTopics.some(it => it.toLowerCase().includes(t.toLowerCase()))
-            );
-            if (!hasMatchingTopic) continue;
-          }
+  /**
+   * Filters shared by every search: date range and superseded notes
+   * Superseded notes stay hidden unless asked for, or the query filters on status itself.
+   */
+  private commonFilter(parsed: ParsedQuery, options: SearchOptions): (note: IndexedNote) => boolean {
+    const start = options.dateRange?.start ? resolveDateBound(options.dateRange.start, 'start') : undefined;
+    const end = options.dateRange?.end ? resolveDateBound(options.dateRange.end, 'end') : undefined;
+    const dateField = options.dateField || 'created';
+    const hideSuperseded = !options.includeSuperseded && !hasStatusFilter(parsed);
+
+    return note => {
+      if (hideSuperseded && note.frontmatter.status === 'superseded') return false;
+      if (start === undefined && end === undefined) return true;
+
+      // Notes that were never updated count as updated when created
+      const date = note[dateField] || note.created;
+      const time = date ? new Date(date).getTime() : NaN;
+      if (isNaN(time)) return false;
+
+      return (start === undefined || time >= start) && (end === undefined || time <= end);
+    };
+  }
 
-          // Search in content
-          const fullText = (content + ' ' + (frontmatter.title || '')).toLowerCase();
-          if (!fullText.includes(queryLower)) {
-            continue;
-          }
+  /**
+   * Full-text search ranked with BM25F
+   */
+  private keywordSearch(index: SearchIndex, parsed: ParsedQuery, scope: SearchScope): SearchResult[] {
+    const terms = getPositiveTerms(parsed);
+    const stats = index.getStats(terms);
+    const candidates = index.query({ ...scope.filter, terms: getTextClauses(parsed) });
 
-          results.push({
-            id: path.basename(file, '.md'),
-            title: frontmatter.title || path.basename(file, '.md'),
-            type: `knowledge/${frontmatter.knowledge_type || 'unknown'}`,
-            path: path.relative(this.vaultPath, file),
-            snippet: this.extractSnippet(content, query),
-            score: this.calculateScore(fullText, queryLower),
-            metadata: {
-              project: frontmatter.project,
-              date: frontmatter.created,
-              tags: frontmatter.tags,
-            },
-          });
-        } catch {
-          // Skip files that can't be parsed
-        }
-      }
+    const results: SearchResult[] = [];
+    for (const note of candidates) {
+      if (!scope.accept(note) || !matchesQuery(parsed, note)) continue;
+      results.push(this.toSearchResult(note, scope, {
+        snippet: this.extractSnippet(note.content, terms),
+        score: scoreNote(note, terms, stats),
+        terms,
+      }));
     }
 
     // Sort by score
-    results.sort((a, b) => b.score - a.score);
-
-    return results.slice(0, limit);
+    return results.sort((a, b) => b.score - a.score);
   }
 
   /**
-   * Search notes by content (keyword search)
-   * Excludes knowledge/ and research/ folders (use searchKnowledge for those)
+   * Embedding search: free text is matched by meaning, field filters and exclusions still apply
    */
-  async searchNotes(query: string, options: {
-    project?: string;
-    type?: NoteType;
-    tags?: string[];
-    limit?: number;
-  } = {}): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
-    const limit = options.limit || 10;
+  private async semanticSearch(
+    index: SearchIndex,
+    parsed: ParsedQuery,
+    scope: SearchScope,
+    signal?: AbortSignal
+  ): Promise<SearchResult[]> {
+    const terms = getPositiveTerms(parsed);
+    if (terms.length === 0) {
+      // Nothing to compare meaning against - filters alone decide
+      return this.keywordSearch(index, parsed, scope);
+    }
+
+    const candidates = index
+      .query(scope.filter)
+      .filter(note => scope.accept(note) && matchesFilters(parsed, note));
+    const byPath = new Map(candidates.map(note => [note.path, note]));
 
-    const searchDir = options.project
-      ? path.join(this.getMemPath(), PROJECTS_FOLDER, sanitizeProjectName(options.project))
-      : this.getMemPath();
+    if (!this.embeddingProvider) {
+      this.embeddingProvider = createEmbeddingProvider(loadConfig().search.embeddings);
+    }
+    const matches = await index.semanticSearch(this.embeddingProvider, terms.join(' '), new Set(byPath.keys()), signal);
 
-    if (!fs.existsSync(searchDir)) {
-      return results;
+    const snippetTerms = terms.flatMap(term => term.split(/\s+/));
+    const results: SearchResult[] = [];
+    for (const [notePath, match] of matches) {
+      const note = byPath.get(notePath);
+      if (!note || match.similarity < MIN_SEMANTIC_SIMILARITY) continue;
+      results.push(this.toSearchResult(note, scope, {
+        snippet: this.extractSnippet(match.chunk, snippetTerms),
+        score: scoreRelevance(note, match.similarity),
+        terms: snippetTerms,
+      }));
     }
 
-    const files = this.walkDir(searchDir, '.md');
-    const queryLower = query.toLowerCase();
+    return results.sort((a, b) => b.score - a.score);
+  }
 
-    for (const file of files) {
-      if (results.length >= limit) break;
+  private toSearchResult(
+    note: IndexedNote,
+    scope: SearchScope,
+    hit: { snippet: string; score: ScoreBreakdown; terms: string[] }
+  ): SearchResult {
+    return {
+      id: path.basename(note.path, '.md'),
+      title: note.title,
+      type: scope.resultType(note),
+      path: note.path,
+      snippet: hit.snippet,
+      score: hit.score.score,
+      scoreBreakdown: {
+        relevance: hit.score.relevance,
+        recency: hit.score.recency,
+        typeBoost: hit.score.typeBoost,
+      },
+      matches: this.findMatchLines(note, hit.terms),
+      metadata: {
+        project: note.frontmatter.project as string | undefined,
+        date: note.created,
+        tags: note.tags,
+      },
+    };
+  }
 
-      // Skip knowledge/ and research/ folders (handled by searchKnowledge)
-      // Normalize path separators for cross-platform support (Windows uses \)
-      const relativePath = path.relative(searchDir, file).split(path.sep).join('/');
-      if (relativePath.includes('/knowledge/') || relativePath.includes('/research/') ||
-          relativePath.startsWith('knowledge/') || relativePath.startsWith('research/')) {
-        continue;
+  /**
+   * Lines of the note containing query terms, numbered as in the file
+   */
+  private findMatchLines(note: IndexedNote, terms: string[]): SearchMatch[] {
+    const matches: SearchMatch[] = [];
+    const lines = note.content.split('\n');
+
+    let lineIndex = 0;
+    let lineEnd = lines[0].length;
+    for (const span of findTermSpans(note.content, terms)) {
+      // Spans are sorted, so the line cursor only moves forward
+      while (span.start > lineEnd && lineIndex < lines.length - 1) {
+        lineIndex++;
+        lineEnd += 1 + lines[lineIndex].length;
       }
 
-      try {
-        const raw = fs.readFileSync(file, 'utf-8');
-        const { frontmatter, content } = parseFrontmatter(raw);
+      const line = note.bodyLine + lineIndex;
+      if (matches.length > 0 && matches[matches.length - 1].line === line) continue;
 
-        // Filter by type
-        if (options.type && frontmatter.type !== options.type) {
-          continue;
-        }
+      matches.push({ line, text: lines[lineIndex].trim().substring(0, MAX_MATCH_LINE_LENGTH) });
+      if (matches.length >= MAX_MATCHES_PER_RESULT) break;
+    }
 
-        // Filter by tags
-        if (options.tags && options.tags.length > 0) {
-          const hasAllTags = options.tags.every(tag =>
-            frontmatter.tags.includes(tag)
-          );
-          if (!hasAllTags) continue;
-        }
+    return matches;
+  }
 
-        // Search in content
-        const fullText = (content + ' ' + (frontmatter.title || '')).toLowerCase();
-        if (!fullText.includes(queryLower)) {
-          continue;
-        }
+  /**
+   * Find notes connected to a note by topics, tags, links, sessions and files
+   * Accepts the same references as readNote.
+   */
+  async findRelatedNotes(notePath: string, options: { limit?: number } = {}): Promise<RelatedNote[]> {
+    const key = this.locateIndexedNote(notePath);
+    const notes = this.getSearchIndex().query({});
+    const source = notes.find(note => note.path === key);
+    if (!source) return [];
+
+    return findRelatedNotes(source, notes, options.limit || 10).map(match => ({
+      title: match.note.title,
+      type: match.note.type,
+      path: match.note.path,
+      score: match.score,
+      reasons: match.reasons,
+    }));
+  }
 
-        // Extract snippet
-        const snippet = this.extractSnippet(content, query);
-
-        results.push({
-          id: path.basename(file, '.md'),
-          title: frontmatter.title || path.basename(file, '.md'),
-          type: frontmatter.type,
-          path: path.relative(this.vaultPath, file),
-          snippet,
-          score: this.calculateScore(fullText, queryLower),
-          metadata: {
-            project: frontmatter.project,
-            date: frontmatter.created,
-            tags: frontmatter.tags,
-          },
-        });
-      } catch {
-        // Skip files that can't be parsed
-      }
-    }
+  /**
+   * Notes that link to a note, with the kinds of link each one uses
+   * Accepts the same references as readNote.
+   */
+  async getBacklinks(notePath: string): Promise<Backlink[]> {
+    const key = this.locateIndexedNote(notePath);
+    return new LinkGraph(this.getSearchIndex()).backlinks(key);
+  }
 
-    // Sort by score
-    results.sort((a, b) => b.score - a.score);
+  /**
+   * The link neighborhood of a note, up to `depth` hops away
+   */
+  async getNoteGraph(notePath: string, options: GraphOptions = {}): Promise<NoteGraph> {
+    const key = this.locateIndexedNote(notePath);
+    return new LinkGraph(this.getSearchIndex()).neighborhood(key, options);
+  }
 
-    return results.slice(0, limit);
+  /**
+   * Locate a note and make sure the index knows about it
+   * @returns The note's index key (vault-relative path)
+   */
+  private locateIndexedNote(notePath: string): string {
+    const located = this.locateNote(notePath);
+    const index = this.syncSearchIndex();
+    const key = this.toVaultPath(located.fullPath);
+    if (!index.has(key)) {
+      // Written outside only-context since the last sync
+      index.indexFile(located.fullPath);
+    }
+    return key;
+  }
+
+  /**
+   * Convert an absolute path to a vault-relative path (the index key)
+   */
+  private toVaultPath(fullPath: string): string {
+    return path.relative(this.vaultPath, fullPath).split(path.sep).join('/');
   }
 
   /**
@@ -888,6 +1271,7 @@ ${keyPointsSection}${sourceSection}
     includeErrors?: boolean;
     includeDecisions?: boolean;
     includePatterns?: boolean;
+    includeFlakyTests?: boolean;
   } = {}): Promise<ProjectContext> {
     const projectPath = path.join(
       this.getMemPath(),
@@ -898,8 +1282,10 @@ ${keyPointsSection}${sourceSection}
     const context: ProjectContext = {
       project: projectName,
       summary: '',
+      pinned: [],
       recentSessions: [],
       unresolvedErrors: [],
+      flakyTests: [],
       activeDecisions: [],
       patterns: [],
     };
@@ -908,6 +1294,12 @@ ${keyPointsSection}${sourceSection}
       return context;
     }
 
+    context.summary = this.getProjectOverview(projectName)?.summary || '';
+    context.pinned = this.getPinnedNotes(projectName);
+    if (options.includeFlakyTests !== false) {
+      context.flakyTests = this.getFlakyTests(projectName);
+    }
+
     // Get recent sessions
     if (options.includeRecentSessions !== 0) {
       const sessionsDir = path.join(projectPath, 'sessions');
@@ -923,9 +1315,10 @@ ${keyPointsSection}${sourceSection}
             );
             context.recentSessions.push({
               id: frontmatter.session_id as string || path.basename(file, '.md'),
+              path: this.toVaultPath(file),
               date: frontmatter.created,
               summary: frontmatter.summary as string || this.extractFirstParagraph(content),
-              keyActions: [],
+              keyActions: this.readKeyActions(frontmatter),
             });
           } catch {
             // Skip
@@ -946,6 +1339,7 @@ ${keyPointsSection}${sourceSection}
             );
             if (frontmatter.resolved !== true) {
               context.unresolvedErrors.push({
+                path: this.toVaultPath(file),
                 type: frontmatter.error_type as string || 'unknown',
                 message: frontmatter.title || path.basename(file, '.md'),
                 lastSeen: frontmatter.last_seen as string || frontmatter.updated,
@@ -972,6 +1366,7 @@ ${keyPointsSection}${sourceSection}
               fs.readFileSync(file, 'utf-8')
             );
             context.activeDecisions.push({
+              path: this.toVaultPath(file),
               title: frontmatter.title || path.basename(file, '.md'),
               decision: this.extractFirstParagraph(content),
             });
@@ -993,6 +1388,7 @@ ${keyPointsSection}${sourceSection}
               fs.readFileSync(file, 'utf-8')
             );
             context.patterns.push({
+              path: this.toVaultPath(file),
               name: frontmatter.title || path.basename(file, '.md'),
               description: this.extractFirstParagraph(content),
             });
@@ -1006,6 +1402,315 @@ ${keyPointsSection}${sourceSection}
     return context;
   }
 
+  /**
+   * Rebuild the automatic part of a project's overview note, creating it if needed
+   * @param options.currentState Replaces the Current State paragraph (written by the summarizer).
+   *   Without it, a summarizer-written paragraph is kept and a generated one is refreshed.
+   * @returns Vault-relative path of the overview
+   */
+  async updateProjectOverview(projectName: string, options: { currentState?: string } = {}): Promise<string> {
+    await this.ensureProjectStructure(projectName);
+    const fullPath = this.getOverviewPath(projectName);
+
+    const notes = this.syncSearchIndex()
+      .query({ projectDir: sanitizeProjectName(projectName) })
+      .filter(note => !note.tags.includes('index'));
+    const newestFirst = (a: IndexedNote, b: IndexedNote) =>
+      (b.updated || b.created || '').localeCompare(a.updated || a.created || '');
+    const sessions = notes
+      .filter(note => note.type === 'session')
+      .sort((a, b) => (b.created || '').localeCompare(a.created || ''));
+    const decisions = notes
+      .filter(note => note.type === 'decision' && note.frontmatter.status !== 'superseded')
+      .sort(newestFirst);
+    const knowledge = notes.filter(note => note.kind === 'knowledge').sort(newestFirst);
+    const openErrors = notes.filter(note => note.type === 'error' && note.frontmatter.resolved !== true).length;
+
+    const existing = fs.existsSync(fullPath) ? parseFrontmatter(fs.readFileSync(fullPath, 'utf-8')) : undefined;
+    const previous = existing ? parseOverview(existing.content).currentState : '';
+    const keepPrevious = !options.currentState && existing?.frontmatter.state_source === 'summarizer' && !!previous;
+
+    const date = (note: IndexedNote) => (note.created || '').split('T')[0];
+    const currentState = options.currentState?.trim() || (keepPrevious ? previous : describeProjectState({
+      sessions: sessions.length,
+      firstSession: sessions.length > 0 ? date(sessions[sessions.length - 1]) : undefined,
+      lastSession: sessions.length > 0
+        ? { date: date(sessions[0]), summary: this.summarizeSession(sessions[0]) }
+        : undefined,
+      openErrors,
+      activeDecisions: decisions.length,
+    }));
+
+    const link = (note: IndexedNote) => note.path.replace(/\.md$/, '');
+    const content = buildOverviewContent(existing?.content, {
+      project: projectName,
+      currentState,
+      sessions: sessions.slice(0, OVERVIEW_SESSIONS).map(note => ({
+        title: note.title,
+        link: link(note),
+        date: date(note),
+        summary: this.summarizeSession(note),
+      })),
+      decisions: decisions.slice(0, OVERVIEW_DECISIONS).map(note => ({
+        title: note.title,
+        link: link(note),
+        summary: this.extractFirstParagraph(note.content),
+      })),
+      knowledge: knowledge.slice(0, OVERVIEW_KNOWLEDGE).map(note => ({ title: note.title, link: link(note) })),
+    });
+
+    const stateSource = options.currentState || keepPrevious ? 'summarizer' : 'generated';
+    const frontmatter: NoteFrontmatter = existing
+      ? { ...existing.frontmatter, updated: new Date().toISOString(), state_source: stateSource }
+      : generateFrontmatter('learning', {
+          title: `${projectName} Overview`,
+          project: projectName,
+          tags: ['index', 'overview', `project/${sanitizeProjectName(projectName)}`],
+          additional: {
+            parent: `[[${this.getProjectIndexLink(projectName)}]]`,
+            state_source: stateSource,
+          },
+        });
+
+    this.writeNoteFile(fullPath, stringifyFrontmatter(frontmatter, content));
+    this.indexNote(fullPath);
+    return this.toVaultPath(fullPath);
+  }
+
+  /**
+   * A project's overview note, if one has been written
+   * @returns The vault-relative path and the summary to show at the top of project context
+   */
+  getProjectOverview(projectName: string): ProjectOverview | null {
+    const fullPath = this.getOverviewPath(projectName);
+    if (!fs.existsSync(fullPath)) return null;
+
+    try {
+      const { content } = parseFrontmatter(fs.readFileSync(fullPath, 'utf-8'));
+      return {
+        path: this.toVaultPath(fullPath),
+        summary: overviewSummary(content),
+        currentState: parseOverview(content).currentState,
+      };
+    } catch (error) {
+      console.error(`Failed to read project overview: ${fullPath}`, error);
+      return null;
+    }
+  }
+
+  private getOverviewPath(projectName: string): string {
+    return path.join(this.getMemPath(), PROJECTS_FOLDER, sanitizeProjectName(projectName), OVERVIEW_FILE);
+  }
+
+  /**
+   * Add a test run to a project's test history note, creating it if needed
+   * @param context.editedFiles Files edited in the session before the run
+   * @returns Vault-relative path of the note
+   */
+  async recordTestRun(
+    projectName: string,
+    run: TestRunData,
+    context: { sessionId: string; editedFiles: string[] }
+  ): Promise<string> {
+    await this.ensureProjectStructure(projectName);
+    const fullPath = this.getTestHistoryPath(projectName);
+
+    const existing = fs.existsSync(fullPath) ? parseFrontmatter(fs.readFileSync(fullPath, 'utf-8')) : undefined;
+    const history = recordTestRun(existing ? parseTestHistory(existing.content) : { runs: [], tests: [] }, run, {
+      ...context,
+      date: new Date().toISOString().split('T')[0],
+    });
+    const flaky = findFlakyTests(history).map(test => test.name);
+
+    const frontmatter: NoteFrontmatter = existing
+      ? { ...existing.frontmatter, updated: new Date().toISOString(), flaky_tests: flaky }
+      : generateFrontmatter('learning', {
+          title: `${projectName} Test History`,
+          project: projectName,
+          tags: ['index', 'test-history', `project/${sanitizeProjectName(projectName)}`],
+          additional: {
+            parent: `[[${this.getProjectIndexLink(projectName)}]]`,
+            flaky_tests: flaky,
+          },
+        });
+
+    this.writeNoteFile(fullPath, stringifyFrontmatter(frontmatter, buildTestHistoryContent(projectName, history)));
+    this.indexNote(fullPath);
+    return this.toVaultPath(fullPath);
+  }
+
+  /**
+   * Tests of a project flagged as flaky in its test history note
+   */
+  getFlakyTests(projectName: string): FlakyTest[] {
+    const fullPath = this.getTestHistoryPath(projectName);
+    if (!fs.existsSync(fullPath)) return [];
+
+    try {
+      const { content } = parseFrontmatter(fs.readFileSync(fullPath, 'utf-8'));
+      return findFlakyTests(parseTestHistory(content), this.toVaultPath(fullPath));
+    } catch (error) {
+      console.error(`Failed to read test history: ${fullPath}`, error);
+      return [];
+    }
+  }
+
+  private getTestHistoryPath(projectName: string): string {
+    return path.join(this.getMemPath(), PROJECTS_FOLDER, sanitizeProjectName(projectName), TEST_HISTORY_FILE);
+  }
+
+  /**
+   * Notes injected at every session start regardless of ranking
+   * The project's instructions note comes first (unless it only has its
+   * placeholder), then notes marked `pinned: true` in the project and in global.
+   */
+  getPinnedNotes(projectName: string): PinnedNote[] {
+    const pinned: PinnedNote[] = [];
+
+    const instructionsPath = path.join(this.getMemPath(), PROJECTS_FOLDER, sanitizeProjectName(projectName), INSTRUCTIONS_FILE);
+    if (fs.existsSync(instructionsPath)) {
+      try {
+        const { frontmatter, content } = parseFrontmatter(fs.readFileSync(instructionsPath, 'utf-8'));
+        const body = this.stripTitle(content).replace(INSTRUCTIONS_PLACEHOLDER, '').trim();
+        if (body) {
+          pinned.push({
+            path: this.toVaultPath(instructionsPath),
+            title: (frontmatter.title as string) || `${projectName} Instructions`,
+            content: body,
+            source: 'instructions',
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to read project instructions: ${instructionsPath}`, error);
+      }
+    }
+
+    const index = this.syncSearchIndex();
+    const globalFolder = `${this.memFolder}/${GLOBAL_FOLDER}/`;
+    const notes = [
+      ...index.query({ projectDir: sanitizeProjectName(projectName) }),
+      ...index.query({}).filter(note => note.path.startsWith(globalFolder)),
+    ];
+
+    for (const note of notes) {
+      if (note.frontmatter.pinned !== true || note.frontmatter.status === 'superseded') continue;
+      if (pinned.some(existing => existing.path === note.path)) continue;
+      pinned.push({ path: note.path, title: note.title, content: this.stripTitle(note.content).trim(), source: 'pinned' });
+    }
+
+    return pinned;
+  }
+
+  /**
+   * Pin a note so it is injected at every session start, or unpin it
+   * @returns The note's path and whether its pinned state changed
+   */
+  async setPinned(notePath: string, pinned: boolean): Promise<{ path: string; changed: boolean }> {
+    const located = this.locateNote(notePath);
+    const { frontmatter, content } = parseFrontmatter(fs.readFileSync(located.fullPath, 'utf-8'));
+
+    if ((frontmatter.pinned === true) === pinned) {
+      return { path: located.path, changed: false };
+    }
+
+    if (pinned) {
+      frontmatter.pinned = true;
+    } else {
+      delete frontmatter.pinned;
+    }
+
+    this.writeNoteFile(located.fullPath, stringifyFrontmatter(frontmatter, content));
+    this.indexNote(located.fullPath);
+    return { path: located.path, changed: true };
+  }
+
+  /**
+   * Note body without its leading `# Title` line
+   */
+  private stripTitle(content: string): string {
+    return content.replace(/^\s*#\s[^\n]*\n?/, '');
+  }
+
+  /**
+   * Notes worth injecting at session start, most relevant to the working tree first
+   * Candidates are the project's sessions, errors, decisions and file notes plus global patterns.
+   */
+  async getRelevantContext(projectName: string, state: WorkingTreeState, options: {
+    includeRecentSessions?: number;
+    includeErrors?: boolean;
+    includeDecisions?: boolean;
+    includePatterns?: boolean;
+  } = {}): Promise<ContextItem[]> {
+    const index = this.syncSearchIndex();
+    const candidates = index.query({ projectDir: sanitizeProjectName(projectName) });
+    if (options.includePatterns !== false) {
+      const patternsFolder = `${this.memFolder}/${GLOBAL_FOLDER}/patterns/`;
+      candidates.push(...index.query({ type: 'pattern' }).filter(note => note.path.startsWith(patternsFolder)));
+    }
+
+    const maxSessions = options.includeRecentSessions ?? 3;
+    let sessions = 0;
+    const items: ContextItem[] = [];
+
+    for (const { note, kind, score, reasons } of rankContextNotes(candidates, state)) {
+      if (kind === 'error' && options.includeErrors === false) continue;
+      if (kind === 'decision' && options.includeDecisions === false) continue;
+      if (kind === 'session' && sessions++ >= maxSessions) continue;
+
+      const paragraph = this.extractFirstParagraph(note.content);
+      let summary = paragraph;
+      if (kind === 'session') {
+        summary = this.summarizeSession(note);
+      } else if (kind === 'file' && (!paragraph || paragraph.startsWith('_'))) {
+        // Purpose not documented yet
+        summary = `Edited ${note.frontmatter.edit_count || 1} time(s)`;
+      }
+
+      items.push({ kind, title: note.title, path: note.path, summary, score, reasons });
+    }
+
+    return items;
+  }
+
+  /**
+   * What a session accomplished: the AI summary, else its key actions, else the first paragraph
+   * Without an AI summary the first paragraph is just counts, so key actions say more.
+   */
+  private summarizeSession(note: IndexedNote): string {
+    if (note.frontmatter.summary) return String(note.frontmatter.summary);
+
+    const keyActions = this.readKeyActions(note.frontmatter);
+    if (keyActions.length > 0) return keyActions.slice(0, 3).join('; ');
+
+    return this.extractFirstParagraph(note.content);
+  }
+
+  /**
+   * Key actions recorded in a session note's frontmatter
+   */
+  private readKeyActions(frontmatter: Record<string, unknown>): string[] {
+    return Array.isArray(frontmatter.key_actions) ? frontmatter.key_actions.map(String) : [];
+  }
+
+  /**
+   * Replace the body of a `## heading` section, adding the section after the title if missing
+   */
+  private replaceSection(content: string, heading: string, body: string): string {
+    const lines = content.split('\n');
+    const start = lines.findIndex(line => line.trim().toLowerCase() === `## ${heading.toLowerCase()}`);
+
+    if (start === -1) {
+      const title = lines.findIndex(line => /^#\s/.test(line));
+      lines.splice(title + 1, 0, '', `## ${heading}`, '', body);
+      return lines.join('\n');
+    }
+
+    let end = start + 1;
+    while (end < lines.length && !/^#{1,2}\s/.test(lines[end])) end++;
+    lines.splice(start + 1, end - start - 1, '', body, '');
+    return lines.join('\n');
+  }
+
   /**
    * List all projects
    */
@@ -1166,37 +1871,36 @@ ${keyPointsSection}${sourceSection}
     return match ? match[1].trim() : undefined;
   }
 
-  private extractSnippet(content: string, query: string, maxLength = 200): string {
-    const queryLower = query.toLowerCase();
-    const contentLower = content.toLowerCase();
-    const index = contentLower.indexOf(queryLower);
+  /**
+   * Cut a snippet around the first match and mark matched terms in bold
+   */
+  private extractSnippet(content: string, terms: string[], maxLength = 200): string {
+    const spans = findTermSpans(content, terms);
 
-    if (index === -1) {
+    if (spans.length === 0) {
       return content.substring(0, maxLength) + '...';
     }
 
-    const start = Math.max(0, index - 50);
-    const end = Math.min(content.length, index + query.length + 150);
+    // Center the snippet on the earliest matching term
+    const first = spans[0];
+    const start = Math.max(0, first.start - 50);
+    const end = Math.min(content.length, first.end + 150);
+
+    let snippet = '';
+    let cursor = start;
+    for (const span of spans) {
+      if (span.start < start || span.end > end) continue;
+      snippet += content.substring(cursor, span.start) + '**' + content.substring(span.start, span.end) + '**';
+      cursor = span.end;
+    }
+    snippet += content.substring(cursor, end);
 
-    let snippet = content.substring(start, end);
     if (start > 0) snippet = '...' + snippet;
     if (end < content.length) snippet = snippet + '...';
 
     return snippet;
   }
 
-  private calculateScore(text: string, query: string): number {
-    let score = 0;
-    let index = 0;
-
-    while ((index = text.indexOf(query, index)) !== -1) {
-      score += 1;
-      index += query.length;
-    }
-
-    return score;
-  }
-
   private extractFirstParagraph(content: string): string {
     const lines = content.split('\n');
     const result: string[] = [];
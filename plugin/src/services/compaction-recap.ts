@@ -0,0 +1,93 @@
+/**
+ * Post-compaction recap
+ *
+ * After a conversation is compacted, SessionStart fires again with source
+ * "compact". Instead of generic project context, the hook injects a recap of
+ * the work since the previous compaction: what the user asked for, what was
+ * done, errors that are still failing, and knowledge notes the PreCompact
+ * summarizer captured.
+ */
+
+import { assembleContext } from '../shared/context-assembler.js';
+import { extractKeyActions, openErrors } from './key-actions.js';
+import type { AssembledContext, ContextSection } from '../shared/context-assembler.js';
+import type { Session } from '../shared/types.js';
+
+/** Requests shown, most recent first */
+const MAX_REQUESTS = 5;
+/** Longest request preview */
+const MAX_REQUEST_LENGTH = 200;
+
+export interface RecapKnowledge {
+  /** Vault path of the note */
+  path: string;
+  title: string;
+}
+
+/**
+ * Recap of a session's work before compaction, within a token budget
+ * @param since When the session was previously compacted; earlier work is already in the compacted summary
+ * @param knowledge Knowledge notes captured before compaction, oldest first
+ * @param leading Sections shown before the recap, e.g. pinned notes
+ */
+export function buildCompactionRecap(
+  session: Session,
+  knowledge: RecapKnowledge[],
+  since: string | undefined,
+  maxTokens: number,
+  leading: ContextSection[] = []
+): AssembledContext {
+  const observations = since
+    ? session.observations.filter(observation => observation.timestamp > since)
+    : session.observations;
+  const prompts = observations.filter(observation => observation.tool === 'UserPrompt');
+  const work = { ...session, observations: observations.filter(observation => observation.tool !== 'UserPrompt') };
+
+  const sections: ContextSection[] = [
+    ...leading,
+    {
+      heading: 'Still Failing',
+      priority: 4,
+      maxShare: 0.3,
+      noun: 'errors',
+      entries: openErrors(work.observations).map((error, i) => ({ id: `error-${i}`, text: `- ${error}` })),
+    },
+    {
+      heading: 'Recent Requests',
+      priority: 3,
+      minShare: 0.2,
+      noun: 'requests',
+      entries: prompts.slice(-MAX_REQUESTS).reverse().map((prompt, i) => ({
+        id: `request-${i}`,
+        text: `- ${formatRequest((prompt.data as { prompt?: string }).prompt || '')}`,
+      })),
+    },
+    {
+      heading: 'What Was Done',
+      priority: 2,
+      minShare: 0.2,
+      noun: 'actions',
+      entries: extractKeyActions(work).map((action, i) => ({ id: `action-${i}`, text: `- ${action}` })),
+    },
+    {
+      heading: 'Knowledge Captured',
+      priority: 1,
+      noun: 'notes',
+      entries: [...knowledge].reverse().map(note => {
+        const link = note.path.replace(/\.md$/, '');
+        return { id: note.path, text: `- [[${link}|${note.title}]]`, link };
+      }),
+    },
+  ];
+
+  return assembleContext(
+    `<!-- Memory recap for ${session.project}: work before the conversation was compacted -->`,
+    sections,
+    maxTokens
+  );
+}
+
+function formatRequest(prompt: string): string {
+  const line = prompt.replace(/\s+/g, ' ').trim();
+  return line.length > MAX_REQUEST_LENGTH ? line.substring(0, MAX_REQUEST_LENGTH) + '...' : line;
+}
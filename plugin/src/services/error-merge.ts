@@ -0,0 +1,180 @@
+/**
+ * Merging duplicate error notes
+ *
+ * Error notes written before messages were normalized (or under other
+ * fingerprint settings) can split one error across several notes. This
+ * recomputes each note's fingerprint from its type, message and file and
+ * folds notes that now share one into a single note named after it: the most
+ * recently seen note is kept, with the occurrence counts added up, the
+ * sessions and Occurrences tables combined and the earliest first_seen.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { errorFingerprint } from '../shared/error-fingerprint.js';
+import { redactNote } from '../shared/redaction.js';
+import type { ErrorFingerprintConfig, RedactionConfig } from '../shared/types.js';
+
+export interface ErrorNoteMerge {
+  /** File name (without .md) of the note everything was merged into */
+  into: string;
+  /** File names of the notes folded into it, removed unless this was a dry run */
+  from: string[];
+  occurrences: number;
+}
+
+interface ErrorNoteFile {
+  name: string;
+  raw: string;
+  fingerprint: string;
+  occurrences: number;
+  firstSeen: string;
+  lastSeen: string;
+  created: string;
+  sessions: string[];
+  mergedFrom: string[];
+  rows: string[];
+}
+
+/**
+ * Merge the error notes in a project's errors folder that share a fingerprint
+ * Notes whose name no longer matches their fingerprint are renamed, so later
+ * occurrences find them.
+ * @returns One entry per note written
+ */
+export function mergeErrorNotes(
+  errorsDir: string,
+  fingerprint: ErrorFingerprintConfig,
+  options: { dryRun?: boolean; redaction?: RedactionConfig } = {}
+): ErrorNoteMerge[] {
+  if (!fs.existsSync(errorsDir)) return [];
+
+  const groups = new Map<string, ErrorNoteFile[]>();
+  for (const file of fs.readdirSync(errorsDir)) {
+    if (!file.endsWith('.md')) continue;
+    const note = readErrorNote(path.join(errorsDir, file), fingerprint);
+    if (!note) continue;
+    groups.set(note.fingerprint, [...(groups.get(note.fingerprint) || []), note]);
+  }
+
+  const merges: ErrorNoteMerge[] = [];
+  for (const [hash, notes] of groups) {
+    if (notes.length === 1 && notes[0].name === hash) continue;
+
+    const merged = mergeNotes(hash, notes);
+    const from = notes.map(note => note.name).filter(name => name !== hash).sort();
+    merges.push({ into: hash, from, occurrences: notes.reduce((sum, note) => sum + note.occurrences, 0) });
+
+    if (!options.dryRun) {
+      fs.writeFileSync(path.join(errorsDir, `${hash}.md`), redactNote(merged, options.redaction));
+      for (const name of from) {
+        fs.rmSync(path.join(errorsDir, `${name}.md`), { force: true });
+      }
+    }
+  }
+
+  return merges.sort((a, b) => a.into.localeCompare(b.into));
+}
+
+function readErrorNote(filePath: string, config: ErrorFingerprintConfig): ErrorNoteFile | null {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const field = (name: string) => raw.match(new RegExp(`^${name}: (.*)$`, 'm'))?.[1].trim().replace(/^['"]|['"]$/g, '');
+
+  // Category index notes share the folder but carry no error_hash
+  if (field('type') !== 'error' || field('error_hash') === undefined) return null;
+
+  const type = field('error_type');
+  const message = raw.match(/## Error Message\n\n```\n([\s\S]*?)\n```/)?.[1]
+    ?? raw.match(/> \[!danger\] Error Pattern\n> (.*)/)?.[1]
+    ?? '';
+  const file = raw.match(/^\*\*File\*\*: `(.*)`$/m)?.[1];
+
+  // Notes store placeholders where the error had nothing, which hashed as empty
+  const hash = errorFingerprint({
+    type: type && type !== 'unknown' ? type : '',
+    message: message === 'No error message' || message === 'No message' ? '' : message,
+    file: file && file !== 'unknown' ? file : undefined,
+  }, config);
+
+  return {
+    name: path.basename(filePath, '.md'),
+    raw,
+    fingerprint: hash,
+    occurrences: parseInt(field('occurrences') || '1', 10) || 1,
+    firstSeen: field('first_seen') || '',
+    lastSeen: field('last_seen') || '',
+    created: field('created') || '',
+    sessions: listField(raw, 'sessions'),
+    mergedFrom: listField(raw, 'merged_from'),
+    rows: occurrenceRows(raw),
+  };
+}
+
+/**
+ * The most recently seen note, carrying the counts, sessions and occurrences of all of them
+ */
+function mergeNotes(hash: string, notes: ErrorNoteFile[]): string {
+  const byLastSeen = [...notes].sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  const keep = byLastSeen[0];
+  const earliest = (values: string[]) => values.filter(Boolean).sort()[0] || '';
+
+  const byFirstSeen = [...notes].sort((a, b) => a.firstSeen.localeCompare(b.firstSeen));
+  const sessions = [...new Set(byFirstSeen.flatMap(note => note.sessions))];
+  const mergedFrom = [...new Set([
+    ...notes.flatMap(note => note.mergedFrom),
+    ...notes.map(note => note.name).filter(name => name !== hash).sort(),
+  ])];
+
+  let raw = keep.raw
+    .replace(/^error_hash: .*$/m, `error_hash: ${hash}`)
+    .replace(/^occurrences: \d+$/m, `occurrences: ${notes.reduce((sum, note) => sum + note.occurrences, 0)}`)
+    .replace(/^first_seen: .*$/m, () => `first_seen: ${earliest(notes.map(note => note.firstSeen))}`)
+    .replace(/^created: .*$/m, () => `created: ${earliest(notes.map(note => note.created))}`)
+    .replace(/^merged_from:\n(?: {2}- .*\n)*/m, '');
+
+  raw = replaceList(raw, 'sessions', sessions);
+  if (mergedFrom.length > 0) {
+    raw = raw.replace(/^(error_hash: .*\n)/m, (line) => `${line}merged_from:\n${mergedFrom.map(name => `  - ${name}`).join('\n')}\n`);
+  }
+
+  return replaceOccurrenceRows(raw, mergeRows(byLastSeen.flatMap(note => note.rows)));
+}
+
+function listField(raw: string, name: string): string[] {
+  const block = raw.match(new RegExp(`^${name}:\\n((?: {2}- .*\\n)*)`, 'm'));
+  if (!block) return [];
+  return block[1].split('\n').map(line => line.replace(/^ {2}- /, '').trim()).filter(Boolean);
+}
+
+function replaceList(raw: string, name: string, values: string[]): string {
+  const list = `${name}:\n${values.map(value => `  - ${value}`).join('\n')}\n`;
+  const pattern = new RegExp(`^${name}:\\n(?: {2}- .*\\n)*`, 'm');
+  return pattern.test(raw) ? raw.replace(pattern, () => list) : raw;
+}
+
+function occurrenceRows(raw: string): string[] {
+  const section = raw.match(/## Occurrences\n\n\|.*\|\n\|[-|\s]+\|\n((?:\|.*\|\n?)*)/);
+  return section ? section[1].split('\n').filter(line => line.startsWith('|')) : [];
+}
+
+/**
+ * Rows of all notes, newest first, with only the oldest left as the first occurrence
+ */
+function mergeRows(rows: string[]): string[] {
+  const date = (row: string) => row.split('|')[1]?.trim() || '';
+  const sorted = rows
+    .map((row, order) => ({ row, order }))
+    .sort((a, b) => date(b.row).localeCompare(date(a.row)) || a.order - b.order)
+    .map(({ row }) => row);
+
+  return sorted.map((row, i) =>
+    i < sorted.length - 1 ? row.replace(/\| First occurrence \|$/, '| Recurring |') : row
+  );
+}
+
+function replaceOccurrenceRows(raw: string, rows: string[]): string {
+  return raw.replace(
+    /(## Occurrences\n\n\|.*\|\n\|[-|\s]+\|\n)(?:\|.*\|\n?)*/,
+    (_match, header: string) => `${header}${rows.join('\n')}\n`
+  );
+}
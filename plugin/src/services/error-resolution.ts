@@ -0,0 +1,230 @@
+/**
+ * Error resolution
+ *
+ * Decides which earlier errors of a session a successful tool call resolves:
+ * - the same command ran without error (options may be added, as long as
+ *   they don't narrow what it runs), or the same tool succeeded on the same file
+ * - a test or build run passed after the file the error points at was edited
+ *
+ * Only the latest occurrence of an error counts, and an error is resolved by
+ * the first success that matches it; the file edits in between are the fix.
+ *
+ * The fix is written into the error note's Resolution section. If the error
+ * happens again the note is reopened and the fix kept, marked as not having held.
+ */
+
+import * as fs from 'fs';
+import { normalizeCommand, sameCommand, samePath } from '../shared/commands.js';
+import { normalizeErrorMessage } from '../shared/error-fingerprint.js';
+import { redactNote } from '../shared/redaction.js';
+import type { Observation, CommandData, ErrorData, FileEditData, RedactionConfig } from '../shared/types.js';
+
+export interface ErrorResolution {
+  /** The error observation being resolved */
+  error: Observation;
+  /** File edits between the error and the success */
+  fixes: Observation[];
+  /** What resolved it, e.g. "`npm test` succeeded" */
+  via: string;
+}
+
+/** Resolution callout of a new error note */
+export const RESOLUTION_PLACEHOLDER = '> [!success] Solution\n> _Not yet resolved_';
+
+/** Start of an automatic resolution that still stands */
+const STANDING_FIX = /^> \[!success\] Solution\n(?=> Resolved automatically in session )/gm;
+
+/** Fix edits listed in a Resolution section, and how many of them show their patch */
+const MAX_FIX_EDITS = 5;
+const MAX_FIX_PATCHES = 3;
+
+
+/** Commands whose success shows that edits fixed an error */
+const VERIFY_COMMAND = /\b(test|tests|pytest|jest|vitest|mocha|rspec|phpunit|tsc|build|compile|lint|check|vet|clippy|make)\b/;
+
+/**
+ * Errors in the session's earlier observations that a successful observation resolves
+ */
+export function findResolvedErrors(observations: Observation[], success: Observation): ErrorResolution[] {
+  if (isFailure(success)) return [];
+
+  const latest = new Map<string, number>();
+  observations.forEach((observation, index) => {
+    if (isFailure(observation)) latest.set(errorKey(observation), index);
+  });
+
+  const resolutions: ErrorResolution[] = [];
+  for (const index of latest.values()) {
+    const error = observations[index];
+    const between = observations.slice(index + 1);
+    const edits = (upTo: number) => between.slice(0, upTo).filter(isSuccessfulEdit);
+
+    // Already resolved by an earlier success
+    if (between.some((later, i) => !isFailure(later) && resolves(error, later, edits(i)))) continue;
+
+    const fixes = edits(between.length);
+    if (resolves(error, success, fixes)) {
+      resolutions.push({ error, fixes, via: describeSuccess(success) });
+    }
+  }
+
+  return resolutions;
+}
+
+/**
+ * Set resolved, resolved_at and resolved_in_session and write the fix into the Resolution section
+ * The fix replaces the placeholder; anything else in the section (notes
+ * written by hand, earlier fixes that didn't hold) is kept above it.
+ */
+export function resolveErrorNote(
+  filePath: string,
+  resolution: ErrorResolution,
+  sessionId: string,
+  redaction?: RedactionConfig
+): void {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  if (/^resolved: true$/m.test(raw)) return;
+
+  const resolvedAt = new Date().toISOString();
+  let updated = raw
+    .replace(/^resolved_(at|in_session): .*\n/gm, '')
+    .replace(/^resolved: .*$/m, `resolved: true\nresolved_at: ${resolvedAt}\nresolved_in_session: ${sessionId}`)
+    .replace(/^updated: .+$/m, `updated: ${resolvedAt}`);
+
+  const block = resolutionBlock(resolution, sessionId);
+  const section = resolutionSection(updated);
+  if (!section) {
+    updated = `${updated.trimEnd()}\n\n## Resolution\n\n${block}\n`;
+  } else if (section.includes(RESOLUTION_PLACEHOLDER)) {
+    updated = updated.replace(section, () => section.replace(RESOLUTION_PLACEHOLDER, () => block));
+  } else {
+    // A fix still standing in an open note was reopened by hand
+    updated = updated.replace(section, () => `${markFixesStale(section, resolvedAt).trimEnd()}\n\n${block}\n`);
+  }
+
+  fs.writeFileSync(filePath, redactNote(updated, redaction));
+}
+
+/**
+ * An error note's content reopened because the error happened again
+ * The resolved fields are removed and automatic fixes marked as not having held.
+ * @param seenAt When the error recurred (ISO timestamp)
+ */
+export function reopenErrorNote(raw: string, seenAt: string): string {
+  if (!/^resolved: true$/m.test(raw)) return raw;
+
+  const reopened = raw
+    .replace(/^resolved_(at|in_session): .*\n/gm, '')
+    .replace(/^resolved: true$/m, 'resolved: false');
+  const section = resolutionSection(reopened);
+  return section ? reopened.replace(section, () => markFixesStale(section, seenAt)) : reopened;
+}
+
+function resolutionSection(content: string): string | undefined {
+  return content.match(/## Resolution\n[\s\S]*?(?=\n## |$)/)?.[0];
+}
+
+function markFixesStale(section: string, recurredAt: string): string {
+  return section.replace(STANDING_FIX, `> [!warning] Earlier fix, recurred ${recurredAt.split('T')[0]}\n`);
+}
+
+/**
+ * Resolution callout, the edits that fixed the error and their patches
+ */
+function resolutionBlock(resolution: ErrorResolution, sessionId: string): string {
+  const { fixes, via } = resolution;
+  const edits = fixes.length === 1 ? '1 edit' : `${fixes.length} edits`;
+  const lines = [
+    '> [!success] Solution',
+    `> Resolved automatically in session ${sessionId.substring(0, 8)}: ${via}${fixes.length > 0 ? ` after ${edits}` : ''}.`,
+  ];
+  if (fixes.length === 0) return lines.join('\n');
+
+  lines.push('', '### Fix', '');
+  for (const fix of fixes.slice(0, MAX_FIX_EDITS)) {
+    const data = fix.data as FileEditData;
+    lines.push(`- \`${data.path}\`${data.summary ? ` (${data.summary})` : ''}`);
+  }
+  if (fixes.length > MAX_FIX_EDITS) {
+    lines.push(`- _... and ${fixes.length - MAX_FIX_EDITS} more edits_`);
+  }
+
+  for (const fix of fixes.filter(f => (f.data as FileEditData).patch).slice(0, MAX_FIX_PATCHES)) {
+    const data = fix.data as FileEditData;
+    const fence = data.patch!.includes('```') ? '````' : '```';
+    lines.push('', `\`${data.path}\`:`, '', `${fence}diff`, data.patch!, fence);
+  }
+  return lines.join('\n');
+}
+
+function resolves(error: Observation, success: Observation, edits: Observation[]): boolean {
+  const errorTarget = callTarget(error);
+  const successTarget = callTarget(success);
+  if (errorTarget && successTarget && sameCall(errorTarget, successTarget)) {
+    return true;
+  }
+
+  const file = (error.data as ErrorData).file;
+  if (!file || !isCommand(success) || !VERIFY_COMMAND.test((success.data as CommandData).command || '')) {
+    return false;
+  }
+  return edits.some(edit => samePath((edit.data as FileEditData).path, file));
+}
+
+/**
+ * Whether a success repeated the call that failed; see sameCommand for Bash
+ */
+function sameCall(errorTarget: string, successTarget: string): boolean {
+  if (errorTarget.startsWith('Bash: ') && successTarget.startsWith('Bash: ')) {
+    return sameCommand(errorTarget.substring(6), successTarget.substring(6));
+  }
+  return successTarget === errorTarget;
+}
+
+/**
+ * What a call was run on: the command for Bash, the tool and file otherwise
+ */
+function callTarget(observation: Observation): string | null {
+  const data = observation.data as Record<string, unknown>;
+
+  if (observation.tool === 'Bash') {
+    const context = typeof data.context === 'string' ? data.context : '';
+    const command = observation.type === 'error'
+      ? (context.startsWith('Command: ') ? context.substring(9) : '')
+      : (data as unknown as CommandData).command;
+    const normalized = normalizeCommand(command);
+    return normalized ? `Bash: ${normalized}` : null;
+  }
+
+  const input = (data.input || {}) as Record<string, unknown>;
+  const file = [data.file, data.path, input.file_path, input.path].find(value => typeof value === 'string');
+  return file ? `${observation.tool}: ${file}` : null;
+}
+
+function describeSuccess(success: Observation): string {
+  if (isCommand(success)) {
+    const command = normalizeCommand((success.data as CommandData).command);
+    return `\`${command.length > 80 ? `${command.substring(0, 80)}...` : command}\` succeeded`;
+  }
+  const target = callTarget(success);
+  return `${target ? `\`${target}\`` : success.tool} succeeded`;
+}
+
+function errorKey(observation: Observation): string {
+  const data = observation.data as Partial<ErrorData>;
+  return [observation.tool, callTarget(observation), data.type, normalizeErrorMessage(data.message || ''), data.file].join('\0');
+}
+
+function isFailure(observation: Observation): boolean {
+  return observation.type === 'error' || observation.isError;
+}
+
+/** Bash commands, test runs included */
+function isCommand(observation: Observation): boolean {
+  return observation.type === 'command' || observation.type === 'test_run';
+}
+
+function isSuccessfulEdit(observation: Observation): boolean {
+  return observation.type === 'file_edit' && !observation.isError;
+}
+
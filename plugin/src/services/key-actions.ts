@@ -0,0 +1,172 @@
+/**
+ * Key actions of a session
+ *
+ * A handful of one-line statements of what a session did, recorded in the
+ * session note's `key_actions` frontmatter: the files changed most, commands
+ * worth remembering (tests, builds, installs, commits), errors that a later
+ * run of the same command got past, and knowledge captured.
+ */
+
+import * as path from 'path';
+import { normalizeCommand, sameCommand } from '../shared/commands.js';
+import type { Session, Observation, FileEditData, CommandData, ErrorData } from '../shared/types.js';
+
+const MAX_FILES = 3;
+const MAX_COMMANDS = 3;
+const MAX_ERRORS = 3;
+const MAX_KNOWLEDGE = 5;
+const MAX_COMMAND_LENGTH = 60;
+const MAX_ERROR_LENGTH = 80;
+
+/** Commands that only look around; never key actions */
+const TRIVIAL_COMMAND = /^(ls|cd|pwd|cat|head|tail|less|more|echo|which|type|find|grep|rg|wc|tree|stat|file|clear|sed -n|git (status|diff|log|show|branch|remote))\b/;
+/** Commands that usually mark progress */
+const NOTABLE_COMMAND = /\b(test|tests|build|lint|tsc|check|install|add|deploy|migrate|release|publish|commit|push|merge|rebase)\b/;
+
+/**
+ * Key actions of a session, most important first within each kind
+ * @param knowledgeTitles Titles of knowledge notes captured during the session
+ */
+export function extractKeyActions(session: Session, knowledgeTitles: string[] = []): string[] {
+  return [
+    ...fileActions(session),
+    ...commandActions(session.observations),
+    ...resolvedErrorActions(session.observations),
+    ...knowledgeActions(knowledgeTitles),
+  ];
+}
+
+/**
+ * Key actions for knowledge notes, e.g. to append once the summarizer has written them
+ */
+export function knowledgeActions(titles: string[]): string[] {
+  return [...new Set(titles)].slice(0, MAX_KNOWLEDGE).map(title => `Captured knowledge: ${title}`);
+}
+
+/**
+ * Lines added and removed per file over a session, e.g. "+15 -4"
+ * Removed lines are left out once a Write didn't report what it replaced.
+ */
+export function fileLineCounts(observations: Observation[]): Map<string, string> {
+  const totals = new Map<string, { added: number; removed?: number }>();
+  for (const observation of observations) {
+    if (observation.type !== 'file_edit') continue;
+    const data = observation.data as FileEditData;
+    if (!data.path || data.linesAdded === undefined) continue;
+
+    const total = totals.get(data.path) || { added: 0, removed: 0 };
+    total.added += data.linesAdded;
+    total.removed = total.removed !== undefined && data.linesRemoved !== undefined
+      ? total.removed + data.linesRemoved
+      : undefined;
+    totals.set(data.path, total);
+  }
+
+  return new Map([...totals].map(([file, { added, removed }]) =>
+    [file, `+${added}${removed !== undefined ? ` -${removed}` : ''}`]
+  ));
+}
+
+function fileActions(session: Session): string[] {
+  const files = new Map<string, { edits: number; created: boolean; deleted: boolean; order: number }>();
+
+  for (const observation of session.observations) {
+    if (observation.type !== 'file_edit') continue;
+    const data = observation.data as FileEditData;
+    if (!data.path) continue;
+
+    const file = files.get(data.path) || { edits: 0, created: false, deleted: false, order: files.size };
+    file.edits++;
+    file.created = file.created || data.changeType === 'create';
+    file.deleted = data.changeType === 'delete';
+    files.set(data.path, file);
+  }
+
+  const lineCounts = fileLineCounts(session.observations);
+  return [...files.entries()]
+    .sort(([, a], [, b]) => b.edits - a.edits || a.order - b.order)
+    .slice(0, MAX_FILES)
+    .map(([filePath, file]) => {
+      const shown = displayPath(filePath, session.projectPath);
+      if (file.deleted) return `Deleted ${shown}`;
+
+      const counts = lineCounts.get(filePath);
+      if (file.created) return `Created ${shown}${counts ? ` (${counts})` : ''}`;
+      const details = [file.edits > 1 ? `${file.edits} edits` : '', counts || ''].filter(Boolean).join(', ');
+      return `Edited ${shown}${details ? ` (${details})` : ''}`;
+    });
+}
+
+function commandActions(observations: Observation[]): string[] {
+  const commands = new Map<string, { runs: number; order: number }>();
+
+  for (const observation of observations) {
+    if (observation.type !== 'command' && observation.type !== 'test_run') continue;
+    const command = normalizeCommand((observation.data as CommandData).command);
+    if (!command || TRIVIAL_COMMAND.test(command)) continue;
+
+    const entry = commands.get(command) || { runs: 0, order: commands.size };
+    entry.runs++;
+    commands.set(command, entry);
+  }
+
+  const weight = (command: string, runs: number) => runs + (NOTABLE_COMMAND.test(command) ? 2 : 0);
+  return [...commands.entries()]
+    .sort(([a, x], [b, y]) => weight(b, y.runs) - weight(a, x.runs) || x.order - y.order)
+    .slice(0, MAX_COMMANDS)
+    .map(([command, { runs }]) => `Ran \`${truncate(command, MAX_COMMAND_LENGTH)}\`${runs > 1 ? ` (${runs} times)` : ''}`);
+}
+
+function resolvedErrorActions(observations: Observation[]): string[] {
+  return classifyErrors(observations).resolved
+    .slice(0, MAX_ERRORS)
+    .map(label => `Resolved ${truncate(label, MAX_ERROR_LENGTH)}`);
+}
+
+/**
+ * Errors no later command got past, e.g. for a recap of where work stands
+ */
+export function openErrors(observations: Observation[]): string[] {
+  return classifyErrors(observations).open.map(label => truncate(label, MAX_ERROR_LENGTH));
+}
+
+/**
+ * Split errors into resolved ones (their command later ran without error) and open ones
+ * Errors that didn't come from a command can't be matched and count as open.
+ */
+function classifyErrors(observations: Observation[]): { resolved: string[]; open: string[] } {
+  const resolved = new Set<string>();
+  const open = new Set<string>();
+
+  observations.forEach((observation, i) => {
+    if (observation.type !== 'error' && !(observation.type === 'test_run' && observation.isError)) return;
+    const error = observation.data as ErrorData;
+    const command = error.context?.startsWith('Command: ') ? normalizeCommand(error.context.substring(9)) : '';
+    const label = `${error.type}: ${error.message}`.replace(/\s+/g, ' ');
+
+    const fixed = !!command && observations.slice(i + 1).some(later =>
+      (later.type === 'command' || (later.type === 'test_run' && !later.isError)) &&
+      sameCommand(command, normalizeCommand((later.data as CommandData).command))
+    );
+    if (fixed) {
+      resolved.add(label);
+      open.delete(label);
+    } else if (!resolved.has(label)) {
+      open.add(label);
+    }
+  });
+
+  return { resolved: [...resolved], open: [...open] };
+}
+
+function displayPath(filePath: string, projectPath: string): string {
+  if (!projectPath) return filePath;
+  const relative = path.relative(projectPath, filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+    ? relative.split(path.sep).join('/')
+    : filePath;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length) + '...' : text;
+}
@@ -0,0 +1,165 @@
+/**
+ * Prompt recall service
+ *
+ * Searches memory for a submitted prompt and picks the decisions, errors and
+ * knowledge notes worth showing the model before it answers. Prompts are
+ * natural language, so keyword recall ORs the prompt's content words and then
+ * requires a result to cover at least two of them.
+ */
+
+import { VaultManager } from '../mcp-server/utils/vault.js';
+import { fuseResults } from '../mcp-server/utils/ranking.js';
+import { containsTerm } from '../mcp-server/utils/search-query.js';
+import { tokenizeWithOffsets } from '../mcp-server/utils/tokenizer.js';
+import { STOPWORDS } from '../mcp-server/utils/embeddings.js';
+import { estimateTokens } from '../shared/context-assembler.js';
+import type { SearchMode, SearchResult } from '../shared/types.js';
+
+/** Note types worth recalling; sessions and file logs are too noisy per prompt */
+const RECALL_TYPES = new Set(['decision', 'error', 'pattern', 'learning', 'qa', 'explanation', 'research']);
+/** Most prompt words used in a keyword query */
+const MAX_QUERY_TERMS = 12;
+/** Distinct prompt words a keyword result must contain */
+const MIN_TERM_COVERAGE = 2;
+const MAX_SNIPPET_LENGTH = 300;
+
+export interface RecallOptions {
+  project?: string;
+  mode: SearchMode;
+  maxResults: number;
+  /** Token budget for the formatted context */
+  maxTokens: number;
+  /** Vault paths already injected this session */
+  exclude?: Iterable<string>;
+  /** Cancels embedding requests in semantic and hybrid mode */
+  signal?: AbortSignal;
+}
+
+export interface Recall {
+  /** Markdown for additionalContext, empty if nothing was relevant */
+  context: string;
+  /** Paths of the notes included */
+  paths: string[];
+}
+
+/**
+ * Content words of a prompt, as written (stopwords and duplicates removed)
+ */
+export function extractPromptTerms(prompt: string): string[] {
+  const terms: string[] = [];
+  const seen = new Set<string>();
+
+  for (const token of tokenizeWithOffsets(prompt)) {
+    if (STOPWORDS.has(token.term) || seen.has(token.term)) continue;
+    if (token.term.length < 2 || /^\d+$/.test(token.term)) continue;
+
+    seen.add(token.term);
+    terms.push(prompt.substring(token.start, token.end));
+    if (terms.length >= MAX_QUERY_TERMS) break;
+  }
+
+  return terms;
+}
+
+/**
+ * Search memory for a prompt and format the best new matches within the budget
+ */
+export async function recallForPrompt(vault: VaultManager, prompt: string, options: RecallOptions): Promise<Recall> {
+  const terms = extractPromptTerms(prompt);
+  if (terms.length === 0) {
+    return { context: '', paths: [] };
+  }
+
+  // Keyword search ANDs terms; a prompt needs OR. Semantic search takes the prompt as is.
+  const query = options.mode === 'keyword' ? terms.join(' OR ') : prompt;
+  const searchOptions = { project: options.project, mode: options.mode, limit: options.maxResults * 4, signal: options.signal };
+  const [notes, knowledge] = await Promise.all([
+    vault.searchNotes(query, searchOptions),
+    vault.searchKnowledge(query, searchOptions),
+  ]);
+
+  const exclude = new Set(options.exclude || []);
+  const required = Math.min(MIN_TERM_COVERAGE, terms.length);
+  const candidates = fuseResults([notes, knowledge]).filter(result =>
+    RECALL_TYPES.has(result.type) &&
+    !exclude.has(result.path) &&
+    (options.mode !== 'keyword' || termCoverage(result, terms) >= required)
+  );
+
+  return selectWithinBudget(candidates, options.maxResults, options.maxTokens);
+}
+
+/**
+ * recallForPrompt, giving up after timeoutMs
+ * Embedding requests still running then are aborted.
+ * @returns null on timeout or error, so the prompt is never held up
+ */
+export async function recallWithTimeout(
+  vault: VaultManager,
+  prompt: string,
+  options: Omit<RecallOptions, 'signal'> & { timeoutMs: number }
+): Promise<Recall | null> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort(new Error(`Prompt recall timed out after ${options.timeoutMs}ms`));
+      resolve(null);
+    }, options.timeoutMs);
+  });
+
+  const search = recallForPrompt(vault, prompt, { ...options, signal: controller.signal }).catch(error => {
+    if (!controller.signal.aborted) {
+      console.error('Prompt recall failed:', error);
+    }
+    return null;
+  });
+
+  try {
+    return await Promise.race([search, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Format results best-first, skipping any that would overflow the budget
+ */
+export function selectWithinBudget(results: SearchResult[], maxResults: number, maxTokens: number): Recall {
+  const header = '## Related memory\n\nPreviously recorded notes that may be relevant to this request:\n';
+  let used = estimateTokens(header);
+
+  const lines: string[] = [];
+  const paths: string[] = [];
+  for (const result of results) {
+    if (paths.length >= maxResults) break;
+
+    const line = formatRecallItem(result);
+    const cost = estimateTokens(line) + 1;
+    if (used + cost > maxTokens) continue;
+
+    used += cost;
+    lines.push(line);
+    paths.push(result.path);
+  }
+
+  if (lines.length === 0) {
+    return { context: '', paths: [] };
+  }
+  return { context: [header, ...lines].join('\n'), paths };
+}
+
+function formatRecallItem(result: SearchResult): string {
+  const snippet = result.snippet.replace(/\s+/g, ' ').trim();
+  const shown = snippet.length > MAX_SNIPPET_LENGTH ? snippet.substring(0, MAX_SNIPPET_LENGTH) + '...' : snippet;
+  return `- **${result.title}** (${result.type}, \`${result.path}\`): ${shown}`;
+}
+
+/**
+ * How many distinct prompt terms appear in a result's title and matching lines
+ */
+function termCoverage(result: SearchResult, terms: string[]): number {
+  const text = [result.title, result.snippet, ...(result.matches || []).map(match => match.text)].join('\n');
+  return terms.filter(term => containsTerm(text, term)).length;
+}
@@ -5,6 +5,8 @@
  */
 
 import * as fs from 'fs';
+import { redact, redactValue } from '../shared/redaction.js';
+import type { RedactionConfig } from '../shared/types.js';
 
 /**
  * Message content block types
@@ -82,8 +84,9 @@ export interface ParsedConversation {
 
 /**
  * Read and parse a transcript file
+ * Secrets in messages, tool inputs and tool output are redacted.
  */
-export function parseTranscript(transcriptPath: string): ParsedConversation {
+export function parseTranscript(transcriptPath: string, redaction?: RedactionConfig): ParsedConversation {
   if (!fs.existsSync(transcriptPath)) {
     return { turns: [] };
   }
@@ -123,7 +126,7 @@ export function parseTranscript(transcriptPath: string): ParsedConversation {
             }
 
             toolResults.set(toolResult.tool_use_id, {
-              content: resultText.substring(0, 2000), // Truncate
+              content: redact(resultText, redaction).text.substring(0, 2000), // Truncate
               isError: toolResult.is_error || false,
             });
           }
@@ -140,7 +143,7 @@ export function parseTranscript(transcriptPath: string): ParsedConversation {
       const entry = JSON.parse(line) as TranscriptEntry;
 
       if (entry.type === 'summary') {
-        summary = (entry as TranscriptSummary).summary;
+        summary = redact((entry as TranscriptSummary).summary, redaction).text;
         continue;
       }
 
@@ -164,14 +167,14 @@ export function parseTranscript(transcriptPath: string): ParsedConversation {
           const text = (block as TextContent).text;
           // Skip tool_result placeholder text
           if (!text.startsWith('[Request interrupted') && text.trim()) {
-            textBlocks.push(text);
+            textBlocks.push(redact(text, redaction).text);
           }
         } else if (block.type === 'tool_use') {
           const toolUse = block as ToolUseContent;
           const result = toolResults.get(toolUse.id);
           toolCalls.push({
             name: toolUse.name,
-            input: toolUse.input,
+            input: redactValue(toolUse.input, redaction),
             output: result?.content,
             isError: result?.isError,
           });
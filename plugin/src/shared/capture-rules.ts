@@ -0,0 +1,174 @@
+/**
+ * Capture rules
+ *
+ * Decide which tool calls the PostToolUse hook records as observations.
+ * The `capture.fileEdits` and `capture.bashCommands` switches apply first,
+ * then the rules in `capture.rules`, then the built-in rules below; the first
+ * rule that matches decides and a call no rule matches is dropped. A rule
+ * only matches when every pattern it gives matches, so a rule without any
+ * patterns at the end of `capture.rules` replaces the built-in rules.
+ *
+ * `bun run explain-capture` shows how a payload goes through the rules.
+ */
+
+import type { CaptureRule, Config, PostToolUseInput } from './types.js';
+
+/** What the rules look at in a PostToolUse payload */
+export type CapturePayload = Pick<PostToolUseInput, 'tool_name' | 'tool_input'> & {
+  tool_response?: { isError?: boolean };
+};
+
+export interface CaptureDecision {
+  capture: boolean;
+  reason: string;
+  /** The rule that decided, if one did */
+  rule?: CaptureRule;
+  /** One line per check, in evaluation order */
+  trace: string[];
+}
+
+const FILE_TOOLS = /^(Write|Edit|MultiEdit)$/;
+
+/**
+ * Built-in rules, checked after the user's
+ * Single commands that only look around are dropped; chained ones are judged
+ * by the tools they run.
+ */
+export const DEFAULT_CAPTURE_RULES: CaptureRule[] = [
+  { name: 'file edits', action: 'include', tool: FILE_TOOLS.source },
+  { name: 'failed commands', action: 'include', tool: '^Bash$', error: true },
+  {
+    name: 'trivial commands',
+    action: 'exclude',
+    tool: '^Bash$',
+    command: '^\\s*(ls|ll|pwd|cd|echo|cat|head|tail|less|wc|which|type|clear|history|whoami|date|tree)(\\s[^|&;]*)?$',
+  },
+  {
+    name: 'build, test and deploy tools',
+    action: 'include',
+    tool: '^Bash$',
+    command: [
+      '\\b(npm|npx|yarn|pnpm|bun|deno|node|tsc|eslint|prettier|jest|vitest|playwright)\\b',
+      '\\b(python3?|pip3?|pytest|poetry|uv|ruff|mypy|tox)\\b',
+      '\\b(go|cargo|rustc|make|cmake|gradle|gradlew|mvn|dotnet|swift|xcodebuild|mix|bundle|rake|rspec|composer)\\b',
+      '\\b(git|gh|docker|docker-compose|podman|kubectl|helm|terraform|tofu|ansible|aws|gcloud|az|vercel|fly|psql|mysql|redis-cli)\\b',
+      '\\b(test|build|deploy|migrate|lint)\\b',
+    ].join('|'),
+  },
+];
+
+/**
+ * Whether a tool produces knowledge for the summarizer rather than an observation
+ * These skip the capture rules.
+ */
+export function isKnowledgeTool(toolName: string): boolean {
+  return (
+    toolName === 'WebFetch' ||
+    toolName === 'WebSearch' ||
+    (toolName.includes('context7') && toolName.includes('query-docs'))
+  );
+}
+
+/**
+ * Decide whether a tool call is captured, recording each check on the way
+ */
+export function evaluateCapture(payload: CapturePayload, capture: Config['capture']): CaptureDecision {
+  const trace: string[] = [];
+  const decide = (captured: boolean, reason: string, rule?: CaptureRule): CaptureDecision => {
+    trace.push(`=> ${captured ? 'captured' : 'not captured'}: ${reason}`);
+    return { capture: captured, reason, rule, trace };
+  };
+
+  if (isKnowledgeTool(payload.tool_name)) {
+    return decide(true, 'knowledge tool, passed to knowledge extraction');
+  }
+  if (FILE_TOOLS.test(payload.tool_name) && !capture.fileEdits) {
+    return decide(false, 'capture.fileEdits is off');
+  }
+  if (payload.tool_name === 'Bash' && !capture.bashCommands) {
+    return decide(false, 'capture.bashCommands is off');
+  }
+
+  const fields = payloadFields(payload);
+  const rules = [
+    ...(capture.rules || []).map((rule, i) => ({ rule, label: `rule ${i + 1}${rule.name ? ` (${rule.name})` : ''}` })),
+    ...DEFAULT_CAPTURE_RULES.map(rule => ({ rule, label: `built-in rule (${rule.name})` })),
+  ];
+
+  for (const { rule, label } of rules) {
+    const mismatch = findMismatch(rule, fields);
+    if (mismatch) {
+      trace.push(`${label}: skipped, ${mismatch}`);
+      continue;
+    }
+    trace.push(`${label}: matched, ${rule.action}`);
+    return decide(rule.action === 'include', `${rule.action}d by ${label}`, rule);
+  }
+
+  return decide(false, 'no rule matched');
+}
+
+/**
+ * Render a decision for the explain-capture command
+ */
+export function formatCaptureDecision(payload: CapturePayload, decision: CaptureDecision): string {
+  const fields = payloadFields(payload);
+  const described = [
+    `tool: ${fields.tool}`,
+    fields.command !== undefined ? `command: ${fields.command}` : null,
+    fields.path !== undefined ? `path: ${fields.path}` : null,
+    `error: ${fields.error}`,
+  ].filter(Boolean);
+
+  return [...described, '', ...decision.trace].join('\n');
+}
+
+function payloadFields(payload: CapturePayload): { tool: string; command?: string; path?: string; error: boolean } {
+  const input = payload.tool_input || {};
+  const command = typeof input.command === 'string' ? input.command : undefined;
+  const filePath = [input.file_path, input.path, input.notebook_path].find(value => typeof value === 'string') as string | undefined;
+
+  return {
+    tool: payload.tool_name,
+    command,
+    path: filePath,
+    error: payload.tool_response?.isError === true,
+  };
+}
+
+/**
+ * Why a rule doesn't match, or null when it does
+ */
+function findMismatch(rule: CaptureRule, fields: ReturnType<typeof payloadFields>): string | null {
+  if (rule.action !== 'include' && rule.action !== 'exclude') {
+    return `invalid action "${rule.action}"`;
+  }
+  if (rule.error !== undefined && rule.error !== fields.error) {
+    return rule.error ? 'call succeeded' : 'call failed';
+  }
+
+  const patterns: Array<[keyof typeof fields, string | undefined]> = [
+    ['tool', rule.tool],
+    ['command', rule.command],
+    ['path', rule.path],
+  ];
+  for (const [field, pattern] of patterns) {
+    if (pattern === undefined) continue;
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'i');
+    } catch {
+      return `invalid ${field} pattern /${pattern}/`;
+    }
+
+    const value = fields[field];
+    if (typeof value !== 'string') {
+      return `no ${field} to match /${pattern}/`;
+    }
+    if (!regex.test(value)) {
+      return `${field} doesn't match /${pattern}/`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Command and path matching
+ *
+ * Error resolution, session key actions and test history all ask whether two
+ * observations ran the same command or touched the same file. They answer
+ * through these helpers so a command that resolves an error in one place
+ * resolves it everywhere.
+ */
+
+/** Error contexts keep only this much of the command that failed */
+const MAX_COMMAND_LENGTH = 100;
+
+/** Options that narrow what a command runs, e.g. to some tests only */
+const NARROWING_OPTION = /^(-k|-t|-m|-g|--filter|--grep|--only|--testNamePattern|--test-name-pattern|--testPathPattern|--test-path-pattern)(=|$)/;
+
+/**
+ * First line of a command, with whitespace collapsed and cut to the length error contexts keep
+ */
+export function normalizeCommand(command: string | undefined): string {
+  return (command || '').split('\n')[0].replace(/\s+/g, ' ').trim().substring(0, MAX_COMMAND_LENGTH);
+}
+
+/**
+ * Whether a command repeated one that failed (both normalized)
+ * It may add options that don't narrow the run; `make clean`,
+ * `npm run build-docs` and `bun test one.test.ts` are other commands than
+ * `make`, `npm run build` and `bun test`.
+ */
+export function sameCommand(failed: string, succeeded: string): boolean {
+  if (!failed) return false;
+  if (succeeded === failed) return true;
+  if (!succeeded.startsWith(`${failed} `)) return false;
+
+  const added = succeeded.substring(failed.length + 1).split(' ');
+  return added.every(arg => arg.startsWith('-') && !NARROWING_OPTION.test(arg));
+}
+
+/**
+ * Whether two paths name the same file, one possibly relative to the other
+ */
+export function samePath(a: string | undefined, b: string): boolean {
+  if (!a) return false;
+  const x = a.replace(/\\/g, '/').replace(/^\.\//, '');
+  const y = b.replace(/\\/g, '/').replace(/^\.\//, '');
+  return x === y || x.endsWith(`/${y}`) || y.endsWith(`/${x}`);
+}
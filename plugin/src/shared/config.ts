@@ -1,7 +1,39 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import type { Config } from './types.js';
+import type { Config, ContextProfile, ContextInjectionOverride } from './types.js';
+
+/**
+ * Built-in context profiles
+ * minimal suits scratch repos (instructions, pinned notes and the overview
+ * only), deep suits large repos with a long history.
+ */
+export const CONTEXT_PROFILES: Record<string, ContextProfile> = {
+  minimal: {
+    maxTokens: 800,
+    includeRecentSessions: 0,
+    includeRelatedErrors: false,
+    includeDecisions: false,
+    includeProjectPatterns: false,
+    includeFlakyTests: false,
+  },
+  standard: {
+    maxTokens: 4000,
+    includeRecentSessions: 3,
+    includeRelatedErrors: true,
+    includeDecisions: true,
+    includeProjectPatterns: true,
+    includeFlakyTests: true,
+  },
+  deep: {
+    maxTokens: 12000,
+    includeRecentSessions: 10,
+    includeRelatedErrors: true,
+    includeDecisions: true,
+    includeProjectPatterns: true,
+    includeFlakyTests: true,
+  },
+};
 
 const DEFAULT_CONFIG: Config = {
   enabled: true, // Global toggle - set to false to disable all hooks (0 tokens)
@@ -18,6 +50,10 @@ const DEFAULT_CONFIG: Config = {
     },
     errors: true,
     decisions: true,
+    rules: [],
+    errorFingerprint: {
+      stripQuotedIdentifiers: false,
+    },
   },
   summarization: {
     enabled: true,
@@ -27,10 +63,29 @@ const DEFAULT_CONFIG: Config = {
   },
   contextInjection: {
     enabled: true,
-    maxTokens: 4000,
-    includeRecentSessions: 3,
-    includeRelatedErrors: true,
-    includeProjectPatterns: true,
+    profile: 'standard',
+    ...CONTEXT_PROFILES.standard,
+    pinnedShare: 0.3,
+    promptRecall: {
+      enabled: false,
+      maxTokens: 600,
+      maxResults: 3,
+      mode: 'keyword',
+      timeoutMs: 3000,
+    },
+  },
+  redaction: {
+    enabled: true,
+    disabledDetectors: [],
+    rules: [],
+  },
+  search: {
+    embeddings: {
+      provider: 'hashing',
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'nomic-embed-text',
+      dimensions: 512,
+    },
   },
 };
 
@@ -82,6 +137,9 @@ export function loadConfig(): Config {
 
 /**
  * Save configuration to file
+ * contextInjection values that only repeat the active profile are left out:
+ * values written next to a profile win over it, so keeping them would pin
+ * them and a later profile change would do nothing.
  */
 export function saveConfig(config: Config): void {
   const configPath = getConfigPath();
@@ -92,10 +150,21 @@ export function saveConfig(config: Config): void {
     fs.mkdirSync(configDir, { recursive: true });
   }
 
-  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  fs.writeFileSync(configPath, JSON.stringify(withoutProfileValues(config), null, 2));
   cachedConfig = config;
 }
 
+/**
+ * The config with contextInjection values equal to its profile's removed
+ */
+function withoutProfileValues(config: Config): Omit<Config, 'contextInjection'> & { contextInjection: Partial<Config['contextInjection']> } {
+  const profile: Partial<ContextProfile> = resolveProfile(config.contextInjection.profile, config.contextInjection) || {};
+  const contextInjection = Object.fromEntries(
+    Object.entries(config.contextInjection).filter(([key, value]) => profile[key as keyof ContextProfile] !== value)
+  ) as Partial<Config['contextInjection']>;
+  return { ...config, contextInjection };
+}
+
 /**
  * Get the full path to the memory folder in the vault
  */
@@ -142,18 +211,79 @@ function deepMerge(target: Config, source: Partial<Config>): Config {
       bashOutput: source.capture.bashOutput
         ? { ...result.capture.bashOutput, ...source.capture.bashOutput }
         : result.capture.bashOutput,
+      errorFingerprint: source.capture.errorFingerprint
+        ? { ...result.capture.errorFingerprint, ...source.capture.errorFingerprint }
+        : result.capture.errorFingerprint,
     };
   }
   if (source.summarization) {
     result.summarization = { ...result.summarization, ...source.summarization };
   }
   if (source.contextInjection) {
-    result.contextInjection = { ...result.contextInjection, ...source.contextInjection };
+    const { profiles, ...override } = source.contextInjection;
+    result.contextInjection = applyContextOverride({ ...result.contextInjection, profiles }, override);
+  }
+  if (source.redaction) {
+    result.redaction = { ...result.redaction, ...source.redaction };
+  }
+  if (source.search) {
+    result.search = {
+      ...result.search,
+      ...source.search,
+      embeddings: source.search.embeddings
+        ? { ...result.search.embeddings, ...source.search.embeddings }
+        : result.search.embeddings,
+    };
   }
 
   return result;
 }
 
+/**
+ * Apply contextInjection settings over a base
+ * A profile named in the override applies first, so the override's own
+ * settings win over it and both win over the base.
+ */
+export function applyContextOverride(
+  base: Config['contextInjection'],
+  override: ContextInjectionOverride
+): Config['contextInjection'] {
+  let profile: Partial<ContextProfile> = {};
+  if (override.profile) {
+    const resolved = resolveProfile(override.profile, base);
+    if (resolved) {
+      profile = resolved;
+    } else {
+      console.error(`Unknown context profile "${override.profile}"; known: ${listContextProfiles(base).join(', ')}`);
+    }
+  }
+
+  return {
+    ...base,
+    ...profile,
+    ...override,
+    profile: Object.keys(profile).length > 0 ? override.profile! : base.profile,
+    promptRecall: { ...base.promptRecall, ...override.promptRecall },
+  };
+}
+
+/**
+ * Settings of a named profile: the built-in one with custom values over it
+ * @returns null if there is no such profile
+ */
+function resolveProfile(name: string, contextInjection: Pick<Config['contextInjection'], 'profiles'>): Partial<ContextProfile> | null {
+  const custom = contextInjection.profiles?.[name];
+  if (!CONTEXT_PROFILES[name] && !custom) return null;
+  return { ...CONTEXT_PROFILES[name], ...custom };
+}
+
+/**
+ * Names of the built-in and custom profiles
+ */
+export function listContextProfiles(contextInjection: Config['contextInjection']): string[] {
+  return [...new Set([...Object.keys(CONTEXT_PROFILES), ...Object.keys(contextInjection.profiles || {})])];
+}
+
 /**
  * Clear the config cache (useful for testing)
  */
@@ -0,0 +1,267 @@
+/**
+ * Token-budgeted context assembly
+ *
+ * Used by the SessionStart hook and mem_project_context to fit memory context
+ * into a token budget. Sections are filled in priority order: each section
+ * with content is guaranteed its minimum share, may take up to its maximum
+ * share, and budget left over at the end goes to sections that still have
+ * hidden entries. Entries that don't fit are first shortened to their brief
+ * form, then collapsed into a links-only line ("+3 more errors: see [[...]]")
+ * so the model knows where to look.
+ */
+
+export interface ContextEntry {
+  /** Reported back when the entry is shown (a vault path) */
+  id: string;
+  /** Full rendering, may span several lines */
+  text: string;
+  /** Shorter rendering used when the full one doesn't fit */
+  brief?: string;
+  /** Wikilink target for links-only mentions; entries without one are only counted */
+  link?: string;
+}
+
+export interface ContextSection {
+  heading: string;
+  /** Higher priorities are filled first */
+  priority: number;
+  /** Share of the budget (0-1) reserved for this section when it has content */
+  minShare?: number;
+  /** Share of the budget (0-1) this section may use before leftovers are handed out */
+  maxShare?: number;
+  /** Plural noun for the overflow line ("errors") */
+  noun: string;
+  /** Link for the overflow line instead of listing every hidden entry (e.g. a category index) */
+  moreLink?: string;
+  /** Best first */
+  entries: ContextEntry[];
+}
+
+export interface AssembledContext {
+  /** Empty if no section had anything to show */
+  text: string;
+  /** Ids of entries shown in full or brief form, in output order */
+  included: string[];
+  /** Estimated tokens of text */
+  tokens: number;
+}
+
+interface RenderedSection {
+  lines: string[];
+  included: string[];
+  tokens: number;
+  /** Entries only mentioned by link or count */
+  hidden: number;
+}
+
+const EMPTY_SECTION: RenderedSection = { lines: [], included: [], tokens: 0, hidden: 0 };
+
+/** Hangul, Han and kana: about one token per character */
+const CJK = /^[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const TEXT_RUNS = /[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+|[A-Za-z]+|\d+|\p{L}+|\s+|[^\p{L}\d\s]+/gu;
+
+/** Overflow lines without a section link list at most this many hidden entries */
+const MAX_OVERFLOW_LINKS = 5;
+
+/**
+ * Estimate the tokens of a text
+ *
+ * Four characters per token only holds for English prose. Korean, Chinese and
+ * Japanese take about a token per character and code spends a token on almost
+ * every bracket and operator, so text is split into runs and each run is
+ * costed by what it contains.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+
+  for (const [run] of text.matchAll(TEXT_RUNS)) {
+    if (/^[A-Za-z]/.test(run)) {
+      // Most words are one token; long words and identifiers split every 6 or so letters
+      tokens += run.length <= 8 ? 1 : Math.ceil(run.length / 6);
+    } else if (/^\d/.test(run)) {
+      tokens += Math.ceil(run.length / 3);
+    } else if (/^\s/.test(run)) {
+      // A single space joins the next word; newlines and indentation cost one
+      tokens += run === ' ' ? 0 : 1;
+    } else if (CJK.test(run)) {
+      tokens += run.length;
+    } else {
+      // Other scripts, and punctuation pairs like "**", "](" or "=>", which usually merge
+      tokens += Math.ceil(run.length / 2);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Shorten a text to a token budget, ending with "…"
+ * Cuts after the last whole sentence that fits when that keeps at least half
+ * the budget, else after the last whole word, and only mid-word for text
+ * without spaces (e.g. Chinese or Japanese).
+ */
+export function shortenText(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const fitting = (candidates: string[]) => candidates.filter(candidate => estimateTokens(candidate) <= maxTokens).pop();
+
+  const sentenceEnds = [...text.matchAll(/[.!?。！？](?=\s)/g)].map(match => match.index! + 1);
+  const sentence = fitting(sentenceEnds.map(end => text.substring(0, end) + ' …'));
+  if (sentence !== undefined && estimateTokens(sentence) * 2 >= maxTokens) {
+    return sentence;
+  }
+
+  const wordEnds = [...text.matchAll(/\s+/g)].map(match => match.index!).filter(end => end > 0);
+  const word = fitting(wordEnds.map(end => text.substring(0, end) + '…'));
+  if (word !== undefined) {
+    return word;
+  }
+
+  const chars = Array.from(text);
+  let end = chars.length;
+  while (end > 0 && estimateTokens(chars.slice(0, end).join('') + '…') > maxTokens) end--;
+  return chars.slice(0, end).join('') + '…';
+}
+
+/**
+ * Fit a header and prioritized sections into a token budget
+ * Sections are output in the order given; priority only decides who gets budget first.
+ */
+export function assembleContext(header: string, sections: ContextSection[], maxTokens: number): AssembledContext {
+  const budget = Math.max(0, maxTokens - lineTokens(header));
+  const order = sections
+    .map((section, position) => ({ section, position }))
+    .filter(({ section }) => section.entries.length > 0)
+    .sort((a, b) => b.section.priority - a.section.priority || a.position - b.position);
+
+  const floors = order.map(({ section }) =>
+    Math.min(Math.floor((section.minShare || 0) * budget), renderSection(section, Infinity).tokens)
+  );
+
+  // First pass: each section up to its maximum share, leaving later floors untouched
+  const rendered = new Map<number, RenderedSection>();
+  let remaining = budget;
+  order.forEach(({ section, position }, i) => {
+    const reserved = floors.slice(i + 1).reduce((sum, floor) => sum + floor, 0);
+    const cap = Math.floor((section.maxShare ?? 1) * budget);
+    const result = renderSection(section, Math.max(0, Math.min(cap, remaining - reserved)));
+    rendered.set(position, result);
+    remaining -= result.tokens;
+  });
+
+  // Second pass: leftovers go to sections that still hide entries, by priority
+  for (const { section, position } of order) {
+    const current = rendered.get(position)!;
+    if (remaining <= 0 || current.hidden === 0) continue;
+
+    const result = renderSection(section, current.tokens + remaining);
+    rendered.set(position, result);
+    remaining -= result.tokens - current.tokens;
+  }
+
+  const lines: string[] = [];
+  const included: string[] = [];
+  sections.forEach((_, position) => {
+    const result = rendered.get(position) || EMPTY_SECTION;
+    lines.push(...result.lines);
+    included.push(...result.included);
+  });
+
+  if (lines.length === 0) {
+    return { text: '', included: [], tokens: 0 };
+  }
+
+  const text = [header, ...lines].join('\n');
+  return { text, included, tokens: estimateTokens(text) };
+}
+
+/**
+ * Render a section within an allowance
+ * Entries are shown in full while they fit, then in brief form, and the rest
+ * are mentioned on one overflow line. A section that can't even fit its
+ * heading and overflow line is left out.
+ */
+function renderSection(section: ContextSection, allowance: number): RenderedSection {
+  const heading = `\n## ${section.heading}`;
+  const headingCost = lineTokens(heading);
+  const dropped = { ...EMPTY_SECTION, hidden: section.entries.length };
+  if (headingCost > allowance) return dropped;
+
+  const shown: Array<{ line: string; cost: number }> = [];
+  let used = headingCost;
+  let brief = false;
+
+  for (const entry of section.entries) {
+    if (!brief && used + lineTokens(entry.text) <= allowance) {
+      shown.push({ line: entry.text, cost: lineTokens(entry.text) });
+      used += lineTokens(entry.text);
+      continue;
+    }
+
+    // Once one entry is shortened, the rest are too so the section keeps its order
+    brief = true;
+    const short = entry.brief ?? entry.text;
+    if (used + lineTokens(short) > allowance) break;
+    shown.push({ line: short, cost: lineTokens(short) });
+    used += lineTokens(short);
+  }
+
+  // Make room for a linked overflow line by dropping shown entries from the end
+  while (shown.length < section.entries.length) {
+    const hidden = section.entries.slice(shown.length);
+    const overflow = overflowLine(section, hidden, allowance - used, shown.length > 0);
+    if (overflow) {
+      return {
+        lines: [heading, ...shown.map(s => s.line), overflow],
+        included: section.entries.slice(0, shown.length).map(entry => entry.id),
+        tokens: used + lineTokens(overflow),
+        hidden: hidden.length,
+      };
+    }
+    if (shown.length === 0) return dropped;
+    used -= shown.pop()!.cost;
+  }
+
+  return {
+    lines: [heading, ...shown.map(s => s.line)],
+    included: section.entries.map(entry => entry.id),
+    tokens: used,
+    hidden: 0,
+  };
+}
+
+/**
+ * The longest overflow line that fits, or undefined if none does
+ * The bare count is only used when there's nothing left to drop for a link,
+ * or when the hidden entries have no links to give.
+ */
+function overflowLine(
+  section: ContextSection,
+  hidden: ContextEntry[],
+  allowance: number,
+  linksRequired: boolean
+): string | undefined {
+  const prefix = `- _+${hidden.length} more ${section.noun}`;
+  const candidates: string[] = [];
+
+  const linked = hidden.filter(entry => entry.link);
+
+  if (section.moreLink) {
+    candidates.push(`${prefix}: see [[${section.moreLink}]]_`);
+  } else {
+    for (let count = Math.min(linked.length, MAX_OVERFLOW_LINKS); count > 0; count--) {
+      const links = linked.slice(0, count).map(entry => `[[${entry.link}]]`).join(', ');
+      candidates.push(`${prefix}: see ${links}${count < linked.length ? ', ...' : ''}_`);
+    }
+  }
+  if (!linksRequired || candidates.length === 0) {
+    candidates.push(`${prefix}_`);
+  }
+
+  return candidates.find(line => lineTokens(line) <= allowance);
+}
+
+/** A line's tokens including its newline */
+function lineTokens(line: string): number {
+  return estimateTokens(line) + 1;
+}
@@ -0,0 +1,380 @@
+/**
+ * Diagnostic parsing
+ *
+ * Turns failing command output into the primary error: its type, message,
+ * originating file and line, and the full stack (or, for compilers and
+ * linters, the list of diagnostics). Formats are tried most specific first,
+ * since test runners print stack traces of their own:
+ * pytest and jest/vitest failure blocks, Python tracebacks, Rust compiler
+ * errors and panics, Go panics and compile/test errors, tsc, ESLint, and
+ * Node/Bun stack traces.
+ *
+ * The originating file is the innermost frame outside dependencies and the
+ * runtime, so an error thrown inside node_modules points at the project code
+ * that called it.
+ */
+
+import { LANGUAGE_MAP } from './constants.js';
+
+export type DiagnosticFormat = 'pytest' | 'jest' | 'python' | 'rust' | 'go' | 'tsc' | 'eslint' | 'node';
+
+export interface Diagnostic {
+  format: DiagnosticFormat;
+  type: string;
+  message: string;
+  file?: string;
+  line?: number;
+  stack?: string;
+}
+
+interface Location {
+  file: string;
+  line: number;
+}
+
+type Parser = (output: string) => Diagnostic | null;
+
+/** Stack kept in ErrorData */
+const MAX_STACK_LENGTH = 8000;
+/** Diagnostics kept as the "stack" of compiler and linter output */
+const MAX_DIAGNOSTIC_LINES = 20;
+
+/** Frames in dependencies or the runtime, never the originating file */
+const LIBRARY_PATH = /(^|[\\/])(node_modules|site-packages|dist-packages|\.cargo[\\/]registry|pkg[\\/]mod|vendor)[\\/]|^node:|^internal[\\/]|^<[^>]+>$|^\/rustc\/|[\\/]go[\\/]src[\\/]|[\\/]lib[\\/]python\d/;
+
+const ANSI = /\x1b\[[0-9;]*m/g;
+
+/**
+ * The primary error in command output, or null when no known format matches
+ */
+export function parseDiagnostic(output: string): Diagnostic | null {
+  const text = output.replace(ANSI, '').replace(/\r\n/g, '\n');
+  const parsers: Parser[] = [parsePytest, parseJest, parsePython, parseRust, parseGo, parseTsc, parseEslint, parseNodeStack];
+
+  for (const parser of parsers) {
+    const diagnostic = parser(text);
+    if (diagnostic) {
+      return {
+        ...diagnostic,
+        message: diagnostic.message.trim().substring(0, 500),
+        stack: diagnostic.stack?.trimEnd().substring(0, MAX_STACK_LENGTH),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * First `path/to/file.ext:line` in command output that names a project source file
+ * Used when no known format matches; dependencies and runtime internals are skipped.
+ */
+export function findSourceLocation(output: string): Location | null {
+  const pattern = /(?:^|[\s("'])((?:\.{1,2}\/|\/)?[\w@.+-]+(?:\/[\w@.+-]+)*(\.\w{1,5}))(?::|\(|", line )(\d+)/gm;
+  for (const match of output.matchAll(pattern)) {
+    const [, file, ext, line] = match;
+    if (!LANGUAGE_MAP[ext] || LIBRARY_PATH.test(file)) continue;
+    return { file, line: parseInt(line, 10) };
+  }
+  return null;
+}
+
+/**
+ * A stack for display: dependency frames collapsed and at most `maxLines` lines
+ */
+export function trimStack(stack: string, maxLines = 15): string {
+  const lines: string[] = [];
+  let hidden = 0;
+
+  const flush = () => {
+    if (hidden > 0) lines.push(`    … ${hidden} library ${hidden === 1 ? 'frame' : 'frames'}`);
+    hidden = 0;
+  };
+
+  for (const line of stack.split('\n')) {
+    const location = frameLocation(line);
+    if (location && LIBRARY_PATH.test(location.file)) {
+      hidden++;
+      continue;
+    }
+    flush();
+    lines.push(line);
+  }
+  flush();
+
+  return lines.length > maxLines
+    ? [...lines.slice(0, maxLines), `… ${lines.length - maxLines} more lines`].join('\n')
+    : lines.join('\n');
+}
+
+/**
+ * pytest failure block:
+ *   ____ test_add ____
+ *   >       assert add(1, 2) == 4
+ *   E       assert 3 == 4
+ *   tests/test_math.py:5: AssertionError
+ */
+function parsePytest(text: string): Diagnostic | null {
+  const header = text.match(/^_{3,} (.+?) _{3,}$/m);
+  if (!header || header.index === undefined) return null;
+
+  const rest = text.substring(header.index);
+  const end = rest.substring(header[0].length).search(/^(_{3,} .+ _{3,}|={3,}.*)$/m);
+  const block = end === -1 ? rest : rest.substring(0, header[0].length + end);
+
+  const failure = [...block.matchAll(/^([^\s:]+\.py):(\d+): (\w+)$/gm)].pop();
+  const message = block.match(/^E\s+(.+)$/m)?.[1];
+  if (!failure && !message) return null;
+
+  return {
+    format: 'pytest',
+    type: failure?.[3] || 'AssertionError',
+    message: message || header[1],
+    file: failure?.[1],
+    line: failure ? parseInt(failure[2], 10) : undefined,
+    stack: block,
+  };
+}
+
+/**
+ * jest (`● suite › test` blocks) and vitest (`FAIL file > suite > test` blocks)
+ */
+function parseJest(text: string): Diagnostic | null {
+  const jest = text.match(/^\s*● (.+)$/m);
+  const vitest = text.match(/^\s*FAIL\s+(\S+)\s+>\s+(.+)$/m);
+  const start = jest ?? vitest;
+  if (!start || start.index === undefined) return null;
+
+  const rest = text.substring(start.index + start[0].length);
+  const end = rest.search(/^\s*(● |FAIL\s|⎯{3,}|Test Suites:|Tests:|Test Files )/m);
+  const body = end === -1 ? rest : rest.substring(0, end);
+
+  const lines = body.split('\n').map(line => line.trim()).filter(Boolean);
+  const errorLine = lines.find(line => /^\w*(Error|Exception)\b:/.test(line));
+  const first = errorLine ?? lines[0];
+  if (!first) return null;
+
+  const typed = first.match(/^(\w*(?:Error|Exception))\b:\s*(.*)$/);
+  const frames = body.split('\n').map(frameLocation).filter((location): location is Location => !!location);
+  const origin = frames.find(location => !LIBRARY_PATH.test(location.file));
+  const suiteFile = vitest?.[1] ?? text.match(/^\s*FAIL\s+(\S+)/m)?.[1];
+
+  return {
+    format: 'jest',
+    type: typed ? typed[1] : 'TestFailure',
+    message: typed ? typed[2] : first,
+    file: origin?.file ?? suiteFile,
+    line: origin?.line,
+    stack: `${start[0].trim()}\n${body.replace(/^\n+/, '')}`,
+  };
+}
+
+/**
+ * The last Python traceback and the exception line that ends it
+ */
+function parsePython(text: string): Diagnostic | null {
+  const start = text.lastIndexOf('Traceback (most recent call last):');
+  if (start === -1) return null;
+
+  const lines = text.substring(start).split('\n');
+  let end = 1;
+  while (end < lines.length && (/^\s/.test(lines[end]) || lines[end] === '')) end++;
+  const exception = lines[end]?.match(/^([\w.]+)(?::\s*(.*))?$/);
+  if (!exception) return null;
+
+  const frames = [...lines.slice(0, end).join('\n').matchAll(/^\s*File "(.+?)", line (\d+)/gm)]
+    .map(match => ({ file: match[1], line: parseInt(match[2], 10) }));
+  const origin = [...frames].reverse().find(frame => !LIBRARY_PATH.test(frame.file)) ?? frames[frames.length - 1];
+
+  return {
+    format: 'python',
+    type: exception[1].split('.').pop() || exception[1],
+    message: exception[2] || exception[1],
+    file: origin?.file,
+    line: origin?.line,
+    stack: lines.slice(0, end + 1).join('\n'),
+  };
+}
+
+/**
+ * rustc errors (`error[E0308]: ...` followed by ` --> file:line:col`) and panics
+ */
+function parseRust(text: string): Diagnostic | null {
+  const compile = text.match(/^error(?:\[(E\d+)\])?: (.+)\n\s*--> (.+?):(\d+):\d+/m);
+  if (compile && compile.index !== undefined) {
+    const rest = text.substring(compile.index).split('\n');
+    let end = 1;
+    while (end < rest.length && !/^(error|warning|For more information)\b/.test(rest[end])) end++;
+    return {
+      format: 'rust',
+      type: compile[1] || 'CompileError',
+      message: compile[2],
+      file: compile[3],
+      line: parseInt(compile[4], 10),
+      stack: rest.slice(0, Math.min(end, 40)).join('\n'),
+    };
+  }
+
+  // Rust 1.73+: "panicked at src/main.rs:4:5:\nmessage"; before: "panicked at 'message', src/main.rs:4:5"
+  const panic = text.match(/^thread '(.+?)' panicked at (?:(.+?):(\d+):\d+:\n(.+)|'(.*)', (.+?):(\d+):\d+)$/m);
+  if (!panic || panic.index === undefined) return null;
+
+  const backtrace = text.substring(panic.index).match(/^stack backtrace:\n(?:\s+.*\n?)*/m)?.[0];
+  return {
+    format: 'rust',
+    type: 'panic',
+    message: panic[4] ?? panic[5],
+    file: panic[2] ?? panic[6],
+    line: parseInt(panic[3] ?? panic[7], 10),
+    stack: [panic[0], backtrace].filter(Boolean).join('\n'),
+  };
+}
+
+/**
+ * Go panics with their goroutine trace, `go test` failures and compiler errors
+ */
+function parseGo(text: string): Diagnostic | null {
+  const panic = text.match(/^panic: (.+)$/m);
+  if (panic && panic.index !== undefined) {
+    const rest = text.substring(panic.index);
+    const trace = rest.match(/^panic: .+\n(?:.*\n)*?(?=^exit status|^FAIL|(?![\s\S]))/m)?.[0] ?? rest;
+    const frames = [...trace.matchAll(/^\t(.+?\.go):(\d+)/gm)].map(match => ({ file: match[1], line: parseInt(match[2], 10) }));
+    const origin = frames.find(frame => !LIBRARY_PATH.test(frame.file)) ?? frames[0];
+    const runtime = panic[1].match(/^runtime error: (.+)$/);
+
+    return {
+      format: 'go',
+      type: runtime ? 'runtime error' : 'panic',
+      message: runtime ? runtime[1] : panic[1],
+      file: origin?.file,
+      line: origin?.line,
+      stack: trace,
+    };
+  }
+
+  const testFailure = text.match(/^--- FAIL: (\S+).*\n\s+(\S+_test\.go):(\d+): (.+)$/m);
+  if (testFailure) {
+    return {
+      format: 'go',
+      type: 'TestFailure',
+      message: `${testFailure[1]}: ${testFailure[4]}`,
+      file: testFailure[2],
+      line: parseInt(testFailure[3], 10),
+      stack: diagnosticLines(text, /^(--- FAIL: .+|\s+\S+_test\.go:\d+: .+)$/gm),
+    };
+  }
+
+  const compile = text.match(/^((?:\.{0,2}\/)?[\w./-]+\.go):(\d+)(?::\d+)?: (.+)$/m);
+  if (!compile) return null;
+  return {
+    format: 'go',
+    type: 'CompileError',
+    message: compile[3],
+    file: compile[1],
+    line: parseInt(compile[2], 10),
+    stack: diagnosticLines(text, /^(?:\.{0,2}\/)?[\w./-]+\.go:\d+(?::\d+)?: .+$/gm),
+  };
+}
+
+/**
+ * tsc diagnostics, plain (`file(12,5): error TS2322: ...`) or pretty (`file:12:5 - error TS2322: ...`)
+ */
+function parseTsc(text: string): Diagnostic | null {
+  const pattern = /^(.+?)(?:\((\d+),\d+\):|:(\d+):\d+ -) error (TS\d+): (.+)$/gm;
+  const first = pattern.exec(text);
+  if (!first) return null;
+
+  return {
+    format: 'tsc',
+    type: first[4],
+    message: first[5],
+    file: first[1].trim(),
+    line: parseInt(first[2] ?? first[3], 10),
+    stack: diagnosticLines(text, pattern),
+  };
+}
+
+/**
+ * ESLint stylish output (a file header, then `line:col  error  message  rule`)
+ * or the unix/compact formats (`file:line:col: message [Error/rule]`)
+ */
+function parseEslint(text: string): Diagnostic | null {
+  const unix = text.match(/^(.+?):(\d+):\d+: (.+?) \[Error\/([\w@/-]+)\]$/m);
+  if (unix) {
+    return {
+      format: 'eslint',
+      type: unix[4],
+      message: unix[3],
+      file: unix[1],
+      line: parseInt(unix[2], 10),
+      stack: diagnosticLines(text, /^.+?:\d+:\d+: .+ \[Error\/[\w@/-]+\]$/gm),
+    };
+  }
+
+  const blocks = text.matchAll(/^(\S[^\n]*\.\w+)\n((?:[ \t]+\d+:\d+[ \t]+(?:error|warning)[^\n]*\n?)+)/gm);
+  for (const [, file, problems] of blocks) {
+    const error = problems.match(/^\s+(\d+):\d+\s+error\s+(.+?)(?:\s{2,}([\w@/-]+))?\s*$/m);
+    if (!error) continue;
+    return {
+      format: 'eslint',
+      type: error[3] || 'LintError',
+      message: error[2],
+      file,
+      line: parseInt(error[1], 10),
+      stack: `${file}\n${problems.split('\n').slice(0, MAX_DIAGNOSTIC_LINES).join('\n')}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Node and Bun stack traces: an `XError: message` line followed by `at` frames
+ */
+function parseNodeStack(text: string): Diagnostic | null {
+  const lines = text.split('\n');
+  const firstFrame = lines.findIndex(line => /^\s+at\s/.test(line));
+  if (firstFrame === -1) return null;
+
+  let headerIndex = -1;
+  let header: RegExpMatchArray | null = null;
+  for (let i = firstFrame - 1; i >= Math.max(0, firstFrame - 20); i--) {
+    header = lines[i].match(/^\s*(?:Uncaught\s+)?([A-Z]\w*(?:Error|Exception)|error)(?:\s*\[[\w-]+\])?:\s*(.+)$/);
+    if (header) {
+      headerIndex = i;
+      break;
+    }
+  }
+  if (!header) return null;
+
+  let lastFrame = firstFrame;
+  while (lastFrame + 1 < lines.length && /^\s+at\s/.test(lines[lastFrame + 1])) lastFrame++;
+  const frames = lines.slice(firstFrame, lastFrame + 1);
+  const origin = frames.map(frameLocation).find(location => location && !LIBRARY_PATH.test(location.file));
+
+  return {
+    format: 'node',
+    type: header[1] === 'error' ? 'Error' : header[1],
+    message: header[2],
+    file: origin?.file,
+    line: origin?.line,
+    stack: [lines[headerIndex].trim(), ...frames].join('\n'),
+  };
+}
+
+/**
+ * File and line of a stack frame line: `at fn (file:12:5)`, `at file:12:5`,
+ * `❯ file:12:5`, `File "file", line 12` or a Go `\tfile.go:12` line
+ */
+function frameLocation(line: string): Location | null {
+  const match = line.match(/^\s*(?:at\s+(?:.*?\()?|❯\s+)((?:file:\/\/|node:|[A-Za-z]:)?[^\s():]+):(\d+)(?::\d+)?\)?\s*$/)
+    ?? line.match(/^\s*File "(.+?)", line (\d+)/)
+    ?? line.match(/^\t(.+?\.go):(\d+)/);
+  if (!match) return null;
+  return { file: match[1].replace(/^file:\/\//, ''), line: parseInt(match[2], 10) };
+}
+
+function diagnosticLines(text: string, pattern: RegExp): string {
+  return [...text.matchAll(new RegExp(pattern.source, 'gm'))]
+    .slice(0, MAX_DIAGNOSTIC_LINES)
+    .map(match => match[0])
+    .join('\n');
+}
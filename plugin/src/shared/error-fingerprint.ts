@@ -0,0 +1,60 @@
+/**
+ * Error fingerprints
+ *
+ * An error note is named after a hash of the error's type, message and file.
+ * Messages are normalized first so the same error seen at another line, under
+ * another temp directory or with another memory address lands in the same
+ * note: line and column numbers, absolute paths (reduced to the file name),
+ * hex addresses, UUIDs and timestamps are replaced by placeholders. Quoted
+ * identifiers are replaced too when `capture.errorFingerprint.stripQuotedIdentifiers`
+ * is on, which groups e.g. every "Cannot find name 'x'" together.
+ */
+
+import * as crypto from 'crypto';
+import type { ErrorData, ErrorFingerprintConfig } from './types.js';
+
+const DEFAULT_FINGERPRINT: ErrorFingerprintConfig = { stripQuotedIdentifiers: false };
+
+/** Replacements in the order they apply; timestamps go before line numbers eat their colons */
+const NORMALIZERS: Array<[RegExp, string]> = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<time>'],
+  [/\b\d{1,2}:\d{2}:\d{2}(\.\d+)?\b/g, '<time>'],
+  [/\b1\d{9}(\d{3})?\b/g, '<time>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  // Absolute paths keep only the file name: /tmp/tmp-83hd/src/app.ts -> app.ts
+  [/(?:[A-Za-z]:\\|\/)(?:[^\s:'"`()\\/]+[\\/])+([^\s:'"`()\\/]+)/g, '$1'],
+  // file.ts:12:5, file.ts(12,5), "line 17", "line 17, column 3"
+  [/(\w):\d+(:\d+)?\b/g, '$1'],
+  [/\(\d+,\s*\d+\)/g, ''],
+  [/\b(line|ln|col|column)\s+\d+/gi, '$1'],
+];
+
+const QUOTED = /'[^'\n]*'|"[^"\n]*"|`[^`\n]*`|‘[^’\n]*’|“[^”\n]*”/g;
+
+/**
+ * A message with the parts that vary between runs of the same error replaced
+ */
+export function normalizeErrorMessage(message: string, config: ErrorFingerprintConfig = DEFAULT_FINGERPRINT): string {
+  let normalized = message;
+  for (const [pattern, replacement] of NORMALIZERS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  if (config.stripQuotedIdentifiers) {
+    normalized = normalized.replace(QUOTED, "'<id>'");
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fingerprint of an error, used as its note's file name and `error_hash`
+ * The file counts by name only, so relative and absolute forms of a path agree.
+ */
+export function errorFingerprint(
+  error: Pick<ErrorData, 'type' | 'message' | 'file'>,
+  config: ErrorFingerprintConfig = DEFAULT_FINGERPRINT
+): string {
+  const file = (error.file || '').split(/[\\/]/).pop() || '';
+  const key = `${error.type || ''}:${normalizeErrorMessage(error.message || '', config)}:${file}`;
+  return crypto.createHash('md5').update(key).digest('hex').substring(0, 12);
+}
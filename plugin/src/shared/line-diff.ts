@@ -0,0 +1,169 @@
+/**
+ * Line diffs for file edit observations
+ *
+ * Edit and MultiEdit inputs carry old/new string pairs and Write carries the
+ * new content, which is enough to count added and removed lines and keep the
+ * changed hunks as a small patch. The diff is a plain LCS over lines after
+ * trimming the common prefix and suffix; edits too big for that are treated
+ * as a wholesale replacement of the differing middle.
+ */
+
+export type DiffOp = ' ' | '-' | '+';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+/** Unchanged lines kept around each change in a patch */
+const CONTEXT_LINES = 2;
+/** Above this many LCS cells the differing middle is reported as replaced */
+const MAX_LCS_CELLS = 1_000_000;
+/** Patch size kept in an observation */
+export const MAX_PATCH_LENGTH = 2000;
+const MAX_PATCH_LINE_LENGTH = 160;
+
+/**
+ * Line diff of two texts, unchanged lines included
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map(text => ({ op: ' ' as const, text })),
+    ...diffMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(text => ({ op: ' ' as const, text })),
+  ];
+}
+
+/**
+ * Added and removed line counts of one or more diffs
+ */
+export function diffStats(diffs: DiffLine[][]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of diffs.flat()) {
+    if (line.op === '+') added++;
+    if (line.op === '-') removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * The changed hunks of one or more diffs as a patch of at most `maxLength` characters
+ * Hunks start with `@@`; line numbers are left out because an edit's old
+ * string doesn't say where in the file it was.
+ * @param redactText Applied to the whole patch before it is cut, so a secret
+ *   spanning lines is still recognised
+ */
+export function formatPatch(
+  diffs: DiffLine[][],
+  maxLength = MAX_PATCH_LENGTH,
+  redactText: (text: string) => string = text => text
+): string {
+  const patch = diffs.flatMap(hunkLines).join('\n');
+  if (!patch) return '';
+
+  const lines = redactText(patch)
+    .split('\n')
+    .map(line => (line.length > MAX_PATCH_LINE_LENGTH ? `${line.substring(0, MAX_PATCH_LINE_LENGTH - 1)}…` : line));
+  const kept: string[] = [];
+  let length = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const more = `… ${lines.length - i} more lines`;
+    const reserve = i < lines.length - 1 ? more.length + 1 : 0;
+    if (length + line.length + 1 + reserve > maxLength) {
+      kept.push(more);
+      break;
+    }
+    kept.push(line);
+    length += line.length + 1;
+  }
+
+  return kept.join('\n');
+}
+
+/**
+ * The first changed line of a diff, preferring additions
+ */
+export function firstChangedLine(diffs: DiffLine[][]): string | undefined {
+  const changed = diffs.flat().filter(line => line.op !== ' ' && line.text.trim());
+  return (changed.find(line => line.op === '+') || changed[0])?.text.trim();
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removedAll = a.map(text => ({ op: '-' as const, text }));
+  const addedAll = b.map(text => ({ op: '+' as const, text }));
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...removedAll, ...addedAll];
+  }
+
+  // lcs[i * width + j]: longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ op: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push({ op: '-', text: a[i++] });
+    } else {
+      result.push({ op: '+', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ op: '-', text: a[i++] });
+  while (j < b.length) result.push({ op: '+', text: b[j++] });
+  return result;
+}
+
+/**
+ * Patch lines of a diff: each run of changes with its context, under an `@@` line
+ */
+function hunkLines(diff: DiffLine[]): string[] {
+  const keep = new Array<boolean>(diff.length).fill(false);
+  diff.forEach((line, index) => {
+    if (line.op === ' ') return;
+    for (let k = Math.max(0, index - CONTEXT_LINES); k <= Math.min(diff.length - 1, index + CONTEXT_LINES); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const lines: string[] = [];
+  diff.forEach((line, index) => {
+    if (!keep[index]) return;
+    if (index === 0 || !keep[index - 1]) lines.push('@@');
+    lines.push(`${line.op}${line.text}`);
+  });
+  return lines;
+}
@@ -0,0 +1,36 @@
+/**
+ * Context section for pinned notes
+ *
+ * The project's instructions note and notes marked `pinned: true` lead every
+ * injected context, ahead of anything ranking picked, within a reserved share
+ * of the budget. A pinned note too long for the share is listed by link.
+ */
+
+import type { ContextSection } from './context-assembler.js';
+import type { PinnedNote } from './types.js';
+
+/** Above every ranked section */
+const PINNED_PRIORITY = 10;
+
+/**
+ * Section for pinned notes, reserving `share` of the budget (0-1) for them
+ */
+export function pinnedSection(notes: PinnedNote[], share: number): ContextSection {
+  return {
+    heading: 'Pinned',
+    priority: PINNED_PRIORITY,
+    minShare: share,
+    maxShare: share,
+    noun: 'pinned notes',
+    entries: notes.map(note => {
+      const link = note.path.replace(/\.md$/, '');
+      const heading = note.source === 'instructions' ? 'Project Instructions' : note.title;
+      return {
+        id: note.path,
+        text: `### ${heading}\n${note.content}\n`,
+        brief: `- [[${link}|${heading}]]`,
+        link,
+      };
+    }),
+  };
+}
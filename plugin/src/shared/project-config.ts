@@ -0,0 +1,97 @@
+/**
+ * Per-project configuration
+ *
+ * A project can override the global contextInjection settings, e.g. to pick
+ * the minimal profile for a scratch repo or the deep one for a monorepo.
+ * Overrides come from two places, applied in this order over the global config:
+ *
+ * 1. `.only-context.json` in the repository, shared with everyone working on it:
+ *    `{ "contextInjection": { "profile": "deep" } }`
+ * 2. A `context_injection` frontmatter block on the project's index note in
+ *    the vault, which is personal and so wins over the repository file
+ *
+ * Vault, capture and summarization settings stay global.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { loadConfig, applyContextOverride, getProjectPath, sanitizeProjectName } from './config.js';
+import type { Config, ContextInjectionOverride } from './types.js';
+
+/** Per-project config file, looked up from the working directory to the repository root */
+export const PROJECT_CONFIG_FILE = '.only-context.json';
+
+/**
+ * Effective config for a project: the global config with the project's overrides applied
+ * @param cwd Where to look for `.only-context.json`; without it only the index note is read
+ */
+export function loadProjectConfig(projectName: string, cwd?: string): Config {
+  const config = loadConfig();
+  const overrides = [
+    cwd ? readConfigFileOverride(cwd) : null,
+    readIndexNoteOverride(projectName, config),
+  ];
+
+  let contextInjection = config.contextInjection;
+  for (const override of overrides) {
+    if (override) {
+      contextInjection = applyContextOverride(contextInjection, override);
+    }
+  }
+
+  return contextInjection === config.contextInjection ? config : { ...config, contextInjection };
+}
+
+/**
+ * Nearest `.only-context.json` from a directory up to its git repository root
+ */
+export function findProjectConfigFile(cwd: string): string | null {
+  let dir = path.resolve(cwd);
+  while (true) {
+    const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    // Stop at the repository root so a config further up doesn't leak in
+    if (fs.existsSync(path.join(dir, '.git')) || dir === path.dirname(dir)) {
+      return null;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+function readConfigFileOverride(cwd: string): ContextInjectionOverride | null {
+  const configPath = findProjectConfigFile(cwd);
+  if (!configPath) return null;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    return toOverride(parsed?.contextInjection, configPath);
+  } catch (error) {
+    console.error(`Failed to load project config from ${configPath}:`, error);
+    return null;
+  }
+}
+
+function readIndexNoteOverride(projectName: string, config: Config): ContextInjectionOverride | null {
+  const indexPath = path.join(getProjectPath(projectName, config), `${sanitizeProjectName(projectName)}.md`);
+  if (!fs.existsSync(indexPath)) return null;
+
+  try {
+    const { data } = matter(fs.readFileSync(indexPath, 'utf-8'));
+    return toOverride(data.context_injection, indexPath);
+  } catch (error) {
+    console.error(`Failed to read project settings from ${indexPath}:`, error);
+    return null;
+  }
+}
+
+function toOverride(value: unknown, source: string): ContextInjectionOverride | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    console.error(`Ignoring contextInjection override in ${source}: expected an object`);
+    return null;
+  }
+  return value as ContextInjectionOverride;
+}
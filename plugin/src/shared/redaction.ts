@@ -0,0 +1,228 @@
+/**
+ * Secret and PII redaction
+ *
+ * Everything the plugin persists passes through here first: command output
+ * and error messages when they are captured, user prompts, parsed transcripts
+ * (which also go to the summarizer), and every note written to the vault.
+ * Matches become `[REDACTED:<detector>]`. For assignments, credentials in
+ * URLs and the like only the secret itself is replaced, so the note still
+ * says which variable or host it was about.
+ *
+ * Notes record how many markers they contain in a `redactions` frontmatter field.
+ */
+
+import type { RedactionConfig, RedactionRule } from './types.js';
+
+interface Detector {
+  name: string;
+  /** Global; a named group `secret` limits the replacement to that group */
+  pattern: RegExp;
+  /** Leave a match alone, e.g. an email address that is really a git remote */
+  skip?: (match: string, secret: string, before: string) => boolean;
+}
+
+export interface RedactionResult {
+  text: string;
+  /** Secrets replaced in this call */
+  count: number;
+}
+
+/** A marker left in place of a secret */
+const MARKER = /\[REDACTED:[\w-]+\]/g;
+
+/** Values of secret-looking assignments that are not secrets */
+const NOT_A_SECRET = /^(\d+|\$.*|\[REDACTED:.*|<[^>]*>?|\*+|true|false|null|undefined|none)$/i;
+
+const DEFAULT_REDACTION: RedactionConfig = { enabled: true, disabledDetectors: [], rules: [] };
+
+/**
+ * Built-in detectors, most specific first so a JWT inside an assignment is
+ * reported as a JWT
+ */
+const DETECTORS: Detector[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g,
+  },
+  {
+    name: 'connection-string',
+    pattern: /\b[a-z][a-z0-9+.-]{0,30}:\/\/[^\s:@/]+:(?<secret>[^\s@/]+)@/gi,
+  },
+  {
+    name: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|AIPA)[A-Z0-9]{16}\b/g,
+  },
+  {
+    name: 'aws-secret-key',
+    pattern: /\b(?:aws_secret_access_key|aws_secret_key|secret_?access_?key)["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    name: 'gcp-api-key',
+    pattern: /\bAIza[\w-]{35}(?![\w-])/g,
+  },
+  {
+    name: 'gcp-service-account',
+    pattern: /"private_key_id"\s*:\s*"(?<secret>[a-f0-9]{40})"/g,
+  },
+  {
+    name: 'api-key',
+    pattern: /\b(?:sk-ant-[\w-]{20,}|sk-(?:proj-)?[\w-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|(?:sk|pk|rk)_live_[A-Za-z0-9]{16,}|glpat-[\w-]{20,}|npm_[A-Za-z0-9]{36})/g,
+  },
+  {
+    name: 'bearer-token',
+    pattern: /\b(?:Bearer|Basic)\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/g,
+  },
+  {
+    name: 'env-assignment',
+    pattern: /\b(?:[A-Z][A-Z0-9_]*_)?(?:SECRET|TOKEN|PASSWORD|PASSWD|PWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?|AUTH)[A-Z0-9_]*\s*[=:]\s*["']?(?<secret>[^\s"'`,;]+)/g,
+    skip: (_match, secret) => NOT_A_SECRET.test(secret),
+  },
+  {
+    // Lowercase keys need `=` or a quoted value; `password: string` is a type annotation
+    name: 'password',
+    pattern: /\b(?:password|passwd|secret|api[_-]?key|access[_-]?token)(?:\s*=\s*["']?|\s*:\s*["'])(?<secret>[^\s"'`,;]+)/gi,
+    skip: (_match, secret) => NOT_A_SECRET.test(secret),
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]{1,64}@[A-Za-z0-9-]{1,63}(?:\.[A-Za-z0-9-]{1,63})*\.[A-Za-z]{2,63}\b/g,
+    // git@host:org/repo remotes and user@host in URLs aren't addresses
+    skip: (match, _secret, before) => match.startsWith('git@') || before.endsWith('://'),
+  },
+];
+
+/** Compiled detectors per config object */
+const compiled = new WeakMap<RedactionConfig, Detector[]>();
+
+/**
+ * Names of the built-in detectors
+ */
+export function listDetectors(): string[] {
+  return DETECTORS.map(detector => detector.name);
+}
+
+/**
+ * Replace secrets in a text
+ * @param config Redaction settings; all built-in detectors when omitted
+ */
+export function redact(text: string, config: RedactionConfig = DEFAULT_REDACTION): RedactionResult {
+  if (!config.enabled || !text) {
+    return { text, count: 0 };
+  }
+
+  let count = 0;
+  let result = text;
+
+  for (const detector of getDetectors(config)) {
+    result = result.replace(detector.pattern, (match: string, ...args: unknown[]) => {
+      const groups = args[args.length - 1] as Record<string, string | undefined> | undefined;
+      const offset = args.find(arg => typeof arg === 'number') as number;
+      const secret = (typeof groups === 'object' && groups?.secret) || match;
+
+      if (detector.skip?.(match, secret, result.substring(Math.max(0, offset - 3), offset))) {
+        return match;
+      }
+
+      count++;
+      const marker = `[REDACTED:${detector.name}]`;
+      if (secret === match) return marker;
+
+      const at = match.lastIndexOf(secret);
+      return match.substring(0, at) + marker + match.substring(at + secret.length);
+    });
+  }
+
+  return { text: result, count };
+}
+
+/**
+ * Replace secrets in every string of a JSON-like value (tool inputs, observation data)
+ */
+export function redactValue<T>(value: T, config: RedactionConfig = DEFAULT_REDACTION): T {
+  if (!config.enabled) return value;
+
+  if (typeof value === 'string') {
+    return redact(value, config).text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, config)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, config)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Redact a whole note (frontmatter and body) and record the number of
+ * markers it contains in its `redactions` frontmatter field
+ * Notes without secrets come back unchanged.
+ */
+export function redactNote(raw: string, config: RedactionConfig = DEFAULT_REDACTION): string {
+  if (!config.enabled) return raw;
+
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/);
+  if (!match) {
+    return redact(raw, config).text;
+  }
+
+  const previous = match[1].split('\n').filter(line => !/^redactions:/.test(line)).join('\n');
+  const frontmatter = redact(previous, config).text
+    .split('\n')
+    .map(quoteMarkerValue)
+    .join('\n');
+  const body = redact(raw.substring(match[0].length), config).text;
+
+  const count = countRedactions(frontmatter) + countRedactions(body);
+  if (count === 0 && previous === match[1]) {
+    return raw;
+  }
+
+  const countLine = count > 0 ? `\nredactions: ${count}` : '';
+  return `---\n${frontmatter}${countLine}\n---${match[2]}${body}`;
+}
+
+/**
+ * Number of redaction markers in a text
+ */
+export function countRedactions(text: string): number {
+  return (text.match(MARKER) || []).length;
+}
+
+function getDetectors(config: RedactionConfig): Detector[] {
+  let detectors = compiled.get(config);
+  if (!detectors) {
+    const disabled = new Set(config.disabledDetectors || []);
+    detectors = [
+      ...DETECTORS.filter(detector => !disabled.has(detector.name)),
+      ...(config.rules || []).flatMap(compileRule),
+    ];
+    compiled.set(config, detectors);
+  }
+  return detectors;
+}
+
+function compileRule(rule: RedactionRule): Detector[] {
+  try {
+    const flags = [...new Set(`${rule.flags || ''}g`)].join('');
+    return [{ name: rule.name.replace(/[^\w-]/g, '-'), pattern: new RegExp(rule.pattern, flags) }];
+  } catch (error) {
+    console.error(`Ignoring invalid redaction rule "${rule.name}":`, error);
+    return [];
+  }
+}
+
+/**
+ * Quote a YAML value that now starts with a marker, which would otherwise parse as a list
+ */
+function quoteMarkerValue(line: string): string {
+  const match = line.match(/^(\s*(?:- |[\w-]+:\s+))(\[REDACTED:[\w-]+\].*)$/);
+  if (!match) return line;
+  return `${match[1]}"${match[2].replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -30,6 +30,10 @@ export interface SessionMetadata {
   lastUpdated: string;
   /** Knowledge paths captured during pre-compact */
   preCompactKnowledge?: string[];
+  /** Vault paths of notes already injected as context, so they aren't repeated; `path#name` for single entries of a note (flaky tests) */
+  injectedNotes?: string[];
+  /** When the conversation was last compacted; observations after it haven't been recapped */
+  lastCompactedAt?: string;
 }
 
 /**
@@ -304,7 +308,7 @@ export function readSession(sessionId: string): Session | null {
     if (obs.type === 'file_edit') {
       const filePath = (obs.data as { path: string }).path;
       if (filePath) filesModified.add(filePath);
-    } else if (obs.type === 'command') {
+    } else if (obs.type === 'command' || obs.type === 'test_run') {
       commandsRun++;
     }
     if (obs.type === 'error' || obs.isError) {
@@ -360,6 +364,47 @@ export function startSession(
   };
 }
 
+/**
+ * Continue an existing session (resume, clear, compact), or start one if it is unknown
+ * Unlike startSession, this keeps the start time, observations and pre-compact knowledge.
+ */
+export function resumeSession(
+  sessionId: string,
+  project: string,
+  projectPath: string
+): Session {
+  const metadata = readSessionMetadata(sessionId);
+  if (!metadata) {
+    return startSession(sessionId, project, projectPath);
+  }
+
+  // A resumed session that was stopped is active again
+  if (metadata.status !== 'active') {
+    metadata.status = 'active';
+    delete metadata.endTime;
+    delete metadata.durationMinutes;
+    writeSessionMetadata(metadata);
+  }
+
+  return readSession(sessionId)!;
+}
+
+/**
+ * Record a compaction and return when the previous one happened
+ */
+export function markCompacted(sessionId: string): string | undefined {
+  const metadata = readSessionMetadata(sessionId);
+
+  if (!metadata) {
+    return undefined;
+  }
+
+  const previous = metadata.lastCompactedAt;
+  metadata.lastCompactedAt = new Date().toISOString();
+  writeSessionMetadata(metadata);
+  return previous;
+}
+
 /**
  * Add an observation to a session (with file locking)
  * Returns false if session doesn't exist, is not active, or write failed
@@ -438,6 +483,43 @@ export function updatePreCompactKnowledge(sessionId: string, paths: string[]): b
   return true;
 }
 
+/**
+ * Remember notes injected into the conversation
+ */
+export function recordInjectedNotes(sessionId: string, paths: string[]): boolean {
+  const metadata = readSessionMetadata(sessionId);
+
+  if (!metadata) {
+    return false;
+  }
+
+  metadata.injectedNotes = [...new Set([...(metadata.injectedNotes || []), ...paths])];
+  writeSessionMetadata(metadata);
+  return true;
+}
+
+/**
+ * Forget injected notes, e.g. after /clear wiped them from the conversation
+ */
+export function clearInjectedNotes(sessionId: string): boolean {
+  const metadata = readSessionMetadata(sessionId);
+
+  if (!metadata) {
+    return false;
+  }
+
+  delete metadata.injectedNotes;
+  writeSessionMetadata(metadata);
+  return true;
+}
+
+/**
+ * Get the notes already injected into a session's conversation
+ */
+export function getInjectedNotes(sessionId: string): string[] {
+  return readSessionMetadata(sessionId)?.injectedNotes || [];
+}
+
 /**
  * Get pre-compact knowledge paths for a session
  * Waits briefly for any pending background jobs to complete
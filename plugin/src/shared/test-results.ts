@@ -0,0 +1,277 @@
+/**
+ * Test run parsing
+ *
+ * Reads the results of a test command from its output: pass/fail/skip totals,
+ * the duration, the failing tests and, when the runner lists them, every
+ * test's result. Supports bun test, jest, vitest, pytest and cargo test.
+ * The runner is picked from the command, and for wrappers like `npm test`
+ * from whichever runner's summary appears in the output.
+ */
+
+import { LANGUAGE_MAP } from './constants.js';
+import type { TestRunData, TestRunner, TestCaseResult } from './types.js';
+
+export type TestResults = Pick<TestRunData, 'runner' | 'passed' | 'failed' | 'skipped' | 'total' | 'durationMs' | 'failures' | 'tests'>;
+
+/** Per-test results kept per run; failing tests always come first */
+const MAX_TEST_RESULTS = 200;
+
+/** Runners named directly in a command */
+const RUNNER_COMMANDS: Array<[TestRunner, RegExp]> = [
+  ['bun', /\bbun\s+test\b/],
+  ['vitest', /\bvitest\b/],
+  ['jest', /\bjest\b/],
+  ['pytest', /\bpytest\b/],
+  ['cargo', /\bcargo\s+(test|nextest)\b/],
+];
+
+/** Commands that run a project's tests through some runner */
+const TEST_SCRIPT = /\b(npm|yarn|pnpm|bun)\s+(run\s+)?test\b|\bnpx\s+(jest|vitest)\b|\bmake\s+test\b|\bpython3?\s+-m\s+pytest\b/;
+
+type Parser = (output: string) => TestResults | null;
+
+const PARSERS: Record<TestRunner, Parser> = {
+  bun: parseBun,
+  jest: parseJest,
+  vitest: parseVitest,
+  pytest: parsePytest,
+  cargo: parseCargo,
+};
+
+/**
+ * Whether a command runs tests
+ */
+export function isTestCommand(command: string): boolean {
+  return RUNNER_COMMANDS.some(([, pattern]) => pattern.test(command)) || TEST_SCRIPT.test(command);
+}
+
+/**
+ * Results of a test command, or null when it isn't one or no runner summary was found
+ */
+export function parseTestRun(command: string, output: string): TestResults | null {
+  if (!isTestCommand(command)) return null;
+
+  const text = output.replace(/\x1b\[[0-9;]*m/g, '').replace(/\r\n/g, '\n');
+  const named = RUNNER_COMMANDS.find(([, pattern]) => pattern.test(command))?.[0];
+  const runners = named
+    ? [named, ...(Object.keys(PARSERS) as TestRunner[]).filter(runner => runner !== named)]
+    : (Object.keys(PARSERS) as TestRunner[]);
+
+  for (const runner of runners) {
+    const results = PARSERS[runner](text);
+    if (results) return results;
+  }
+  return null;
+}
+
+/**
+ * bun test: `(pass) suite > name [0.12ms]` lines under `file:` headers, then
+ * ` 10 pass`, ` 2 fail` and `Ran 12 tests across 3 files. [1.20s]`
+ */
+function parseBun(text: string): TestResults | null {
+  const ran = text.match(/^Ran (\d+) tests? across \d+ files?\.(?: \[([\d.]+)(ms|s)\])?/m);
+  if (!ran) return null;
+
+  const tests: TestCaseResult[] = [];
+  let file: string | undefined;
+  for (const line of text.split('\n')) {
+    const header = line.match(/^(\S+\.\w+):$/);
+    if (header && isSourcePath(header[1])) {
+      file = header[1];
+      continue;
+    }
+    const result = line.match(/^\s*\((pass|fail|skip|todo)\) (.+?)(?: \[([\d.]+)(ms|s)\])?$/);
+    if (result) {
+      tests.push({ name: result[2], status: status(result[1]), file, durationMs: duration(result[3], result[4]) });
+    }
+  }
+
+  const count = (word: string) => parseInt(text.match(new RegExp(`^\\s*(\\d+) ${word}$`, 'm'))?.[1] || '0', 10);
+  return results('bun', {
+    passed: count('pass'),
+    failed: count('fail'),
+    skipped: count('skip') + count('todo'),
+    total: parseInt(ran[1], 10),
+    durationMs: duration(ran[2], ran[3]),
+  }, tests);
+}
+
+/**
+ * jest: `✓ name (3 ms)` lines, `● suite › name` failure blocks under
+ * `FAIL file` headers, then `Tests: 1 failed, 3 passed, 4 total` and `Time: 1.2 s`
+ */
+function parseJest(text: string): TestResults | null {
+  const summary = text.match(/^Tests:\s+(.*\d+ total)$/m);
+  if (!summary) return null;
+
+  const tests: TestCaseResult[] = [];
+  let file: string | undefined;
+  for (const line of text.split('\n')) {
+    const header = line.match(/^\s*(?:PASS|FAIL)\s+(\S+)/);
+    if (header) {
+      file = header[1];
+      continue;
+    }
+    const failure = line.match(/^\s*● (.+ › .+)$/);
+    if (failure && !tests.some(test => test.name === failure[1] && test.file === file)) {
+      tests.push({ name: failure[1], status: 'failed', file });
+      continue;
+    }
+    const result = line.match(/^\s*([✓✔√]|[✕✗×]|○)(?: skipped)? (.+?)(?: \((\d+(?:\.\d+)?) ?(ms|s)\))?$/);
+    if (result) {
+      const outcome = /[✓✔√]/.test(result[1]) ? 'passed' : result[1] === '○' ? 'skipped' : 'failed';
+      // Failures are named in full by their ● block
+      if (outcome !== 'failed') {
+        tests.push({ name: result[2], status: outcome, file, durationMs: duration(result[3], result[4]) });
+      }
+    }
+  }
+
+  const counts = tally(summary[1], ', ');
+  const time = text.match(/^Time:\s+([\d.]+) ?(ms|s)\b/m);
+  return results('jest', {
+    passed: counts.passed || 0,
+    failed: counts.failed || 0,
+    skipped: (counts.skipped || 0) + (counts.todo || 0),
+    total: counts.total || 0,
+    durationMs: time ? duration(time[1], time[2]) : undefined,
+  }, tests);
+}
+
+/**
+ * vitest: `✓ file > suite > name 3ms` lines (verbose) and `FAIL file > suite > name`
+ * headers, then `Tests  1 failed | 3 passed (4)` and `Duration  1.20s`
+ */
+function parseVitest(text: string): TestResults | null {
+  const summary = text.match(/^\s*Tests\s+(.+?)\s+\((\d+)\)$/m);
+  if (!summary) return null;
+
+  const tests: TestCaseResult[] = [];
+  for (const line of text.split('\n')) {
+    const failure = line.match(/^\s*FAIL\s+(\S+) > (.+)$/);
+    if (failure) {
+      const name = `${failure[1]} > ${failure[2]}`;
+      if (!tests.some(test => test.name === name)) tests.push({ name, status: 'failed', file: failure[1] });
+      continue;
+    }
+    // File lines ("✓ src/a.test.ts (3 tests) 5ms") aren't tests
+    const result = line.match(/^\s*([✓✔]|[×✗]|↓) (\S+ > .+?)(?: (\d+)ms)?$/);
+    if (result && !/\(\d+ tests?\)/.test(result[2]) && !/[×✗]/.test(result[1])) {
+      tests.push({
+        name: result[2],
+        status: result[1] === '↓' ? 'skipped' : 'passed',
+        file: result[2].split(' > ')[0],
+        durationMs: duration(result[3], 'ms'),
+      });
+    }
+  }
+
+  const counts = tally(summary[1], ' | ');
+  const time = text.match(/^\s*Duration\s+([\d.]+)(ms|s)\b/m);
+  return results('vitest', {
+    passed: counts.passed || 0,
+    failed: counts.failed || 0,
+    skipped: (counts.skipped || 0) + (counts.todo || 0),
+    total: parseInt(summary[2], 10),
+    durationMs: time ? duration(time[1], time[2]) : undefined,
+  }, tests);
+}
+
+/**
+ * pytest: `tests/test_x.py::test_add PASSED` lines (-v), `FAILED tests/test_x.py::test_add - ...`
+ * in the short summary, then `==== 1 failed, 3 passed in 0.12s ====`
+ */
+function parsePytest(text: string): TestResults | null {
+  const summary = text.match(/^=*\s*((?:\d+ \w+(?:, )?)+) in ([\d.]+)s\b/m);
+  if (!summary) return null;
+
+  const tests: TestCaseResult[] = [];
+  const add = (name: string, outcome: TestCaseResult['status']) => {
+    const existing = tests.find(test => test.name === name);
+    if (existing) {
+      existing.status = outcome;
+    } else {
+      tests.push({ name, status: outcome, file: name.split('::')[0] });
+    }
+  };
+
+  for (const match of text.matchAll(/^(\S+::\S+) (PASSED|FAILED|SKIPPED|ERROR|XFAIL|XPASS)\b/gm)) {
+    add(match[1], match[2] === 'FAILED' || match[2] === 'ERROR' ? 'failed' : match[2] === 'SKIPPED' || match[2] === 'XFAIL' ? 'skipped' : 'passed');
+  }
+  for (const match of text.matchAll(/^(?:FAILED|ERROR) (\S+::\S+?)(?: - .*)?$/gm)) {
+    add(match[1], 'failed');
+  }
+
+  const counts = tally(summary[1], ', ');
+  const failed = (counts.failed || 0) + (counts.error || 0) + (counts.errors || 0);
+  const passed = (counts.passed || 0) + (counts.xpassed || 0);
+  const skipped = (counts.skipped || 0) + (counts.xfailed || 0);
+  return results('pytest', {
+    passed,
+    failed,
+    skipped,
+    total: passed + failed + skipped,
+    durationMs: duration(summary[2], 's'),
+  }, tests);
+}
+
+/**
+ * cargo test: `test module::name ... ok` lines, then one
+ * `test result: FAILED. 3 passed; 1 failed; 0 ignored; ...; finished in 0.01s` per test binary
+ */
+function parseCargo(text: string): TestResults | null {
+  const summaries = [...text.matchAll(/^test result: \w+\. (\d+) passed; (\d+) failed; (\d+) ignored;.*?finished in ([\d.]+)s/gm)];
+  if (summaries.length === 0) return null;
+
+  const tests: TestCaseResult[] = [];
+  for (const match of text.matchAll(/^test (\S+) \.\.\. (ok|FAILED|ignored)$/gm)) {
+    tests.push({ name: match[1], status: match[2] === 'ok' ? 'passed' : match[2] === 'FAILED' ? 'failed' : 'skipped' });
+  }
+
+  const sum = (group: number) => summaries.reduce((total, match) => total + parseFloat(match[group]), 0);
+  return results('cargo', {
+    passed: sum(1),
+    failed: sum(2),
+    skipped: sum(3),
+    total: sum(1) + sum(2) + sum(3),
+    durationMs: Math.round(sum(4) * 1000),
+  }, tests);
+}
+
+function results(
+  runner: TestRunner,
+  totals: Pick<TestResults, 'passed' | 'failed' | 'skipped' | 'total' | 'durationMs'>,
+  tests: TestCaseResult[]
+): TestResults {
+  const failing = tests.filter(test => test.status === 'failed');
+  return {
+    runner,
+    ...totals,
+    failures: failing.map(test => test.name),
+    tests: [...failing, ...tests.filter(test => test.status !== 'failed')].slice(0, MAX_TEST_RESULTS),
+  };
+}
+
+/** "1 failed, 3 passed, 4 total" -> { failed: 1, passed: 3, total: 4 } */
+function tally(summary: string, separator: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const part of summary.split(separator)) {
+    const match = part.trim().match(/^(\d+) (\w+)/);
+    if (match) counts[match[2]] = (counts[match[2]] || 0) + parseInt(match[1], 10);
+  }
+  return counts;
+}
+
+function duration(value: string | undefined, unit: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const amount = parseFloat(value);
+  return Math.round(unit === 's' ? amount * 1000 : amount);
+}
+
+function status(word: string): TestCaseResult['status'] {
+  return word === 'pass' ? 'passed' : word === 'fail' ? 'failed' : 'skipped';
+}
+
+function isSourcePath(file: string): boolean {
+  return !!LANGUAGE_MAP[file.substring(file.lastIndexOf('.'))];
+}
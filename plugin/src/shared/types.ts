@@ -2,6 +2,72 @@
  * Configuration types for only-context
  */
 
+/**
+ * How much context a profile injects
+ */
+export interface ContextProfile {
+  maxTokens: number;
+  includeRecentSessions: number;
+  includeRelatedErrors: boolean;
+  includeDecisions: boolean;
+  includeProjectPatterns: boolean;
+  /** Tests flagged as flaky in the project's test history */
+  includeFlakyTests: boolean;
+}
+
+/**
+ * contextInjection settings a project can override, from `.only-context.json`
+ * or the project index note
+ */
+export type ContextInjectionOverride = Partial<Omit<Config['contextInjection'], 'profiles' | 'promptRecall'>> & {
+  promptRecall?: Partial<Config['contextInjection']['promptRecall']>;
+};
+
+/**
+ * A user-defined redaction pattern
+ * Only a named group `secret` is replaced when the pattern has one, so
+ * surrounding text (a key name, a host) can stay readable.
+ */
+export interface RedactionRule {
+  /** Shown in the marker: [REDACTED:<name>] */
+  name: string;
+  /** Regular expression source */
+  pattern: string;
+  /** Regular expression flags; `g` is always added */
+  flags?: string;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  /** Built-in detectors to turn off, e.g. ["email"] */
+  disabledDetectors: string[];
+  rules: RedactionRule[];
+}
+
+/**
+ * A capture rule: include or exclude tool calls matching every pattern it gives
+ * Patterns are case-insensitive regular expressions; a rule without any
+ * matches every call.
+ */
+export interface CaptureRule {
+  /** Shown when explaining a decision */
+  name?: string;
+  action: 'include' | 'exclude';
+  /** Matched against the tool name, e.g. "^(Write|Edit)$" or "^mcp__" */
+  tool?: string;
+  /** Matched against a Bash command */
+  command?: string;
+  /** Matched against the file path of a file tool */
+  path?: string;
+  /** Only failed calls (true) or only successful ones (false) */
+  error?: boolean;
+}
+
+export interface ErrorFingerprintConfig {
+  /** Replace quoted names in error messages, so errors differing only in them share a note */
+  stripQuotedIdentifiers: boolean;
+}
+
 export interface Config {
   /** Global toggle - when false, all hooks exit immediately (0 tokens) */
   enabled: boolean;
@@ -18,6 +84,10 @@ export interface Config {
     };
     errors: boolean;
     decisions: boolean;
+    /** Checked in order before the built-in rules; the first matching rule decides */
+    rules: CaptureRule[];
+    /** How error messages are normalized before errors are told apart */
+    errorFingerprint: ErrorFingerprintConfig;
   };
   summarization: {
     enabled: boolean;
@@ -27,10 +97,43 @@ export interface Config {
   };
   contextInjection: {
     enabled: boolean;
+    /** Profile whose settings apply under the ones given here: minimal, standard, deep or a name from `profiles` */
+    profile: string;
+    /** Custom profiles, or changes to the built-in ones */
+    profiles?: Record<string, Partial<ContextProfile>>;
     maxTokens: number;
     includeRecentSessions: number;
     includeRelatedErrors: boolean;
+    includeDecisions: boolean;
     includeProjectPatterns: boolean;
+    includeFlakyTests: boolean;
+    /** Share of maxTokens (0-1) reserved for project instructions and pinned notes */
+    pinnedShare: number;
+    /** Search memory for each submitted prompt and inject the best matches (opt-in) */
+    promptRecall: {
+      enabled: boolean;
+      /** Token budget per prompt */
+      maxTokens: number;
+      maxResults: number;
+      mode: SearchMode;
+      /** Give up on recall after this long; the hook itself times out at 5s */
+      timeoutMs: number;
+    };
+  };
+  /** Secrets and personal data removed before anything is persisted */
+  redaction: RedactionConfig;
+  search: {
+    embeddings: {
+      /** 'hashing' works offline; 'openai' calls an OpenAI-compatible /embeddings endpoint */
+      provider: 'hashing' | 'openai';
+      /** Base URL of the endpoint, e.g. http://localhost:11434/v1 for Ollama */
+      baseUrl: string;
+      model: string;
+      /** Falls back to OPENAI_API_KEY; local servers usually need none */
+      apiKey?: string;
+      /** Vector size for the hashing provider */
+      dimensions: number;
+    };
   };
 }
 
@@ -61,18 +164,22 @@ export interface Observation {
   type: ObservationType;
   tool: string;
   isError: boolean;
-  data: FileEditData | CommandData | ErrorData | Record<string, unknown>;
+  data: FileEditData | CommandData | ErrorData | TestRunData | Record<string, unknown>;
 }
 
-export type ObservationType = 'file_edit' | 'command' | 'error' | 'decision' | 'other';
+export type ObservationType = 'file_edit' | 'command' | 'error' | 'test_run' | 'decision' | 'other';
 
 export interface FileEditData {
   path: string;
   language: string;
   changeType: 'create' | 'modify' | 'delete';
   linesAdded?: number;
+  /** Unknown when Write replaced a file whose old content wasn't reported */
   linesRemoved?: number;
+  /** e.g. "+12 -3: `return cached ?? load()`" */
   summary?: string;
+  /** Changed hunks with a little context, size-limited and redacted */
+  patch?: string;
 }
 
 export interface CommandData {
@@ -92,6 +199,35 @@ export interface ErrorData {
   resolution?: string;
 }
 
+export type TestRunner = 'bun' | 'jest' | 'vitest' | 'pytest' | 'cargo';
+
+export interface TestCaseResult {
+  /** As the runner reports it, e.g. "sum > adds numbers" or "tests/test_math.py::test_add" */
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  /** Test file, when the runner names it */
+  file?: string;
+  durationMs?: number;
+}
+
+/**
+ * A test command's results
+ * Failing runs also carry the error fields of their first failure, so they
+ * get an error note like any other failed command.
+ */
+export interface TestRunData extends CommandData, Partial<ErrorData> {
+  runner: TestRunner;
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  durationMs?: number;
+  /** Names of the failing tests */
+  failures: string[];
+  /** Failing tests, plus passing and skipped ones when the runner lists them (size-limited) */
+  tests: TestCaseResult[];
+}
+
 /**
  * Search types
  */
@@ -101,14 +237,30 @@ export interface SearchQuery {
   project?: string;
   type?: NoteType;
   tags?: string[];
+  /** Inclusive bounds: ISO dates or durations back from now such as 7d, 2w */
   dateRange?: {
     start?: string;
     end?: string;
   };
+  /** Which date dateRange applies to (default: created) */
+  dateField?: 'created' | 'updated';
+  /** Include notes with status: superseded (hidden by default) */
+  includeSuperseded?: boolean;
   limit?: number;
-  semantic?: boolean;
+  mode?: SearchMode;
+}
+
+export interface SearchMatch {
+  /** 1-based line number in the note file */
+  line: number;
+  text: string;
 }
 
+/**
+ * keyword: full-text match; semantic: embedding similarity; hybrid: both, rank-fused
+ */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
 export interface SearchResult {
   id: string;
   title: string;
@@ -116,6 +268,14 @@ export interface SearchResult {
   path: string;
   snippet: string;
   score: number;
+  /** Components of the score before any rank fusion */
+  scoreBreakdown?: {
+    relevance: number;
+    recency: number;
+    typeBoost: number;
+  };
+  /** Lines of the note file containing query terms */
+  matches?: SearchMatch[];
   metadata: {
     project?: string;
     date?: string;
@@ -123,6 +283,51 @@ export interface SearchResult {
   };
 }
 
+export interface RelatedNote {
+  title: string;
+  type: string;
+  path: string;
+  score: number;
+  /** Why the note is related, strongest signal first */
+  reasons: string[];
+}
+
+/**
+ * How one note links to another
+ * parent/supersedes/superseded_by come from frontmatter, knowledge from a
+ * session's "Knowledge Captured" section, index from index notes
+ */
+export type LinkType = 'parent' | 'supersedes' | 'superseded_by' | 'knowledge' | 'index' | 'link';
+
+export interface LinkEdge {
+  source: string;
+  target: string;
+  type: LinkType;
+}
+
+export interface Backlink {
+  title: string;
+  type: string;
+  path: string;
+  linkTypes: LinkType[];
+}
+
+export interface GraphNode {
+  title: string;
+  type: string;
+  path: string;
+  /** Hops from the root note */
+  depth: number;
+}
+
+export interface NoteGraph {
+  root: string;
+  nodes: GraphNode[];
+  edges: LinkEdge[];
+  /** True if notes were left out to stay within the node limit */
+  truncated: boolean;
+}
+
 /**
  * Note types
  */
@@ -185,30 +390,95 @@ export interface ProjectInfo {
   gitBranch?: string;
 }
 
+/**
+ * What the working tree says we are about to work on
+ * File paths are relative to the repository root
+ */
+export interface WorkingTreeState {
+  branch?: string;
+  /** Modified, staged and untracked files */
+  changedFiles: string[];
+  /** Files touched by the latest commits */
+  recentFiles: string[];
+}
+
+export type ContextItemKind = 'session' | 'error' | 'decision' | 'pattern' | 'file';
+
+/**
+ * A note considered for session-start context, scored against the working tree
+ */
+export interface ContextItem {
+  kind: ContextItemKind;
+  title: string;
+  path: string;
+  summary: string;
+  score: number;
+  /** Signals that raised the score, e.g. "file has uncommitted changes" */
+  reasons: string[];
+}
+
 export interface ProjectContext {
   project: string;
   summary: string;
+  /** Instructions and pinned notes, always shown first */
+  pinned: PinnedNote[];
   recentSessions: Array<{
     id: string;
+    /** Vault-relative note path */
+    path: string;
     date: string;
     summary: string;
     keyActions: string[];
   }>;
   unresolvedErrors: Array<{
+    path: string;
     type: string;
     message: string;
     lastSeen: string;
   }>;
+  /** Tests whose results change between sessions without related edits */
+  flakyTests: FlakyTest[];
   activeDecisions: Array<{
+    path: string;
     title: string;
     decision: string;
   }>;
   patterns: Array<{
+    path: string;
     name: string;
     description: string;
   }>;
 }
 
+export interface FlakyTest {
+  name: string;
+  file?: string;
+  /** Result changes between sessions without related edits */
+  flips: number;
+  sessions: number;
+  lastStatus: 'pass' | 'fail';
+  /** Vault-relative path of the project's test history note */
+  path: string;
+}
+
+export interface ProjectOverview {
+  /** Vault-relative path of the overview note */
+  path: string;
+  /** The user's notes followed by the Current State paragraph */
+  summary: string;
+  currentState: string;
+}
+
+export interface PinnedNote {
+  /** Vault-relative path */
+  path: string;
+  title: string;
+  /** Body without frontmatter or the title heading */
+  content: string;
+  /** The project's instructions note, or a note marked `pinned: true` */
+  source: 'instructions' | 'pinned';
+}
+
 /**
  * Hook input types
  */
@@ -217,6 +487,8 @@ export interface SessionStartInput {
   session_id: string;
   cwd: string;
   transcript_path: string;
+  /** Why the session started; absent from older Claude Code versions (treated as startup) */
+  source?: 'startup' | 'resume' | 'clear' | 'compact';
 }
 
 export interface PostToolUseInput {
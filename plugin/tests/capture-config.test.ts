@@ -1,5 +1,8 @@
 import { describe, test, expect } from 'bun:test';
-import { extractCommandInfo } from '../hooks/scripts/utils/helpers.js';
+import { extractCommandInfo, buildObservation } from '../hooks/scripts/utils/helpers.js';
+import { evaluateCapture } from '../src/shared/capture-rules.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import type { Config, PostToolUseInput } from '../src/shared/types.js';
 
 describe('Bash Output Capture Configuration', () => {
   const mockBashResponse = {
@@ -152,3 +155,49 @@ describe('Sensitive Data Protection', () => {
     expect(result.command).toBe('cat .env');
   });
 });
+
+describe('Other Tool Capture', () => {
+  function toolConfig(): Config {
+    const config = getDefaultConfig();
+    return {
+      ...config,
+      capture: {
+        ...config.capture,
+        bashOutput: { enabled: true, maxLength: 100 },
+        rules: [{ action: 'include', tool: '^mcp__' }],
+      },
+    };
+  }
+
+  function toolUse(text: string, isError = false): PostToolUseInput {
+    return {
+      session_id: 's1',
+      cwd: '/repo',
+      tool_name: 'mcp__db__query',
+      tool_input: { sql: 'SELECT * FROM users WHERE token = \'sk-proj-abcdefghijklmnopqrstuvwx\' -- ' + 'x'.repeat(500) },
+      tool_response: { content: [{ type: 'text', text }], isError },
+    };
+  }
+
+  test('a rule-included tool is stored with bounded, redacted input and output', () => {
+    const config = toolConfig();
+    const input = toolUse('row\n'.repeat(1000));
+    expect(evaluateCapture(input, config.capture).capture).toBe(true);
+
+    const observation = buildObservation(input, config);
+    const data = observation.data as { input: { sql: string }; output: string };
+
+    expect(observation.type).toBe('other');
+    expect(data.output.length).toBe(100);
+    expect(data.input.sql.length).toBeLessThanOrEqual(100);
+    expect(data.input.sql).toContain('[REDACTED:api-key]');
+    expect(JSON.stringify(observation).length).toBeLessThan(1000);
+  });
+
+  test('a failed tool becomes an error with its message', () => {
+    const observation = buildObservation(toolUse('ConnectionError: database is locked', true), toolConfig());
+
+    expect(observation.type).toBe('error');
+    expect(observation.data).toEqual({ type: 'ConnectionError', message: 'database is locked', context: 'Tool: mcp__db__query' });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect } from 'bun:test';
+import { evaluateCapture, formatCaptureDecision } from '../src/shared/capture-rules.js';
+import { getDefaultConfig } from '../src/shared/config.js';
+import type { CaptureRule } from '../src/shared/types.js';
+
+function bash(command: string, isError = false) {
+  return { tool_name: 'Bash', tool_input: { command }, tool_response: { isError } };
+}
+
+function captureConfig(rules: CaptureRule[] = [], overrides: { fileEdits?: boolean; bashCommands?: boolean } = {}) {
+  return { ...getDefaultConfig().capture, ...overrides, rules };
+}
+
+describe('built-in capture rules', () => {
+  test.each([
+    ['pytest -x tests/', true],
+    ['kubectl apply -f deploy.yaml', true],
+    ['terraform plan', true],
+    ['cd api && cargo build', true],
+    ['ls -la', false],
+    ['cat package.json', false],
+    ['cat log.txt | grep deploy', true],
+    ['vim notes.txt', false],
+  ])('%s -> %p', (command, expected) => {
+    expect(evaluateCapture(bash(command), captureConfig()).capture).toBe(expected);
+  });
+
+  test('file edits and failed commands are kept, other tools dropped', () => {
+    expect(evaluateCapture({ tool_name: 'Edit', tool_input: { file_path: 'a.ts' } }, captureConfig()).capture).toBe(true);
+    expect(evaluateCapture(bash('ls missing', true), captureConfig()).capture).toBe(true);
+    expect(evaluateCapture({ tool_name: 'Read', tool_input: { file_path: 'a.ts' } }, captureConfig()).reason).toBe('no rule matched');
+  });
+
+  test('the capture switches apply before any rule', () => {
+    const rules: CaptureRule[] = [{ action: 'include' }];
+    expect(evaluateCapture(bash('make'), captureConfig(rules, { bashCommands: false }))).toMatchObject({
+      capture: false,
+      reason: 'capture.bashCommands is off',
+    });
+    expect(evaluateCapture({ tool_name: 'Write', tool_input: {} }, captureConfig(rules, { fileEdits: false })).capture).toBe(false);
+  });
+});
+
+describe('user capture rules', () => {
+  const rules: CaptureRule[] = [
+    { name: 'generated code', action: 'exclude', path: '(^|/)(dist|generated)/' },
+    { name: 'noisy git', action: 'exclude', command: '^git (status|diff|log)\\b' },
+    { name: 'notebooks', action: 'include', tool: '^NotebookEdit$' },
+    { action: 'include', tool: '^Bash$', command: '^just\\b' },
+  ];
+
+  test('are checked in order before the built-in rules', () => {
+    const config = captureConfig(rules);
+
+    expect(evaluateCapture({ tool_name: 'Write', tool_input: { file_path: 'src/generated/api.ts' } }, config)).toMatchObject({
+      capture: false,
+      reason: 'excluded by rule 1 (generated code)',
+    });
+    expect(evaluateCapture(bash('git status'), config).capture).toBe(false);
+    expect(evaluateCapture(bash('git commit -m "x"'), config).capture).toBe(true);
+    expect(evaluateCapture({ tool_name: 'NotebookEdit', tool_input: { notebook_path: 'a.ipynb' } }, config).capture).toBe(true);
+    expect(evaluateCapture(bash('just release'), config).reason).toBe('included by rule 4');
+  });
+
+  test('a catch-all rule replaces the built-in rules', () => {
+    const config = captureConfig([{ action: 'include', tool: '^Edit$' }, { name: 'nothing else', action: 'exclude' }]);
+    expect(evaluateCapture(bash('npm test'), config).reason).toBe('excluded by rule 2 (nothing else)');
+  });
+
+  test('invalid rules are skipped and explained', () => {
+    const config = captureConfig([{ name: 'broken', action: 'exclude', command: '(' }]);
+    const payload = bash('npm test');
+    const decision = evaluateCapture(payload, config);
+
+    expect(decision.capture).toBe(true);
+    expect(formatCaptureDecision(payload, decision)).toContain('rule 1 (broken): skipped, invalid command pattern /(/');
+    expect(decision.trace.at(-1)).toBe('=> captured: included by built-in rule (build, test and deploy tools)');
+  });
+});
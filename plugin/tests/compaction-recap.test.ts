@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  startSession,
+  resumeSession,
+  endSession,
+  markCompacted,
+  addObservation,
+  updatePreCompactKnowledge,
+  getPreCompactKnowledge,
+  recordInjectedNotes,
+  getInjectedNotes,
+  clearInjectedNotes,
+} from '../src/shared/session-store.js';
+import { buildCompactionRecap } from '../src/services/compaction-recap.js';
+import type { Session, Observation } from '../src/shared/types.js';
+
+let counter = 0;
+
+function observation(
+  type: Observation['type'],
+  data: Record<string, unknown>,
+  timestamp = '2026-03-01T10:00:00Z',
+  tool = 'Bash'
+): Observation {
+  return { id: `obs-${counter++}`, timestamp, type, tool, isError: type === 'error', data };
+}
+
+function prompt(text: string, timestamp = '2026-03-01T10:00:00Z'): Observation {
+  return observation('other', { prompt: text }, timestamp, 'UserPrompt');
+}
+
+function session(observations: Observation[]): Session {
+  return {
+    id: 'session-1',
+    project: 'app',
+    projectPath: '/repo',
+    startTime: '2026-03-01T09:00:00Z',
+    status: 'active',
+    observations,
+    filesModified: [],
+    commandsRun: 0,
+    errorsEncountered: 0,
+  };
+}
+
+describe('resumeSession', () => {
+  let tempDir: string;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'resume-test-'));
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config.json');
+  });
+
+  afterEach(() => {
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('keeps observations and pre-compact knowledge that startSession would reset', () => {
+    const started = startSession('resume-1', 'app', '/repo');
+    addObservation('resume-1', observation('command', { command: 'bun test' }));
+    updatePreCompactKnowledge('resume-1', ['_claude-mem/projects/app/knowledge/jwt.md']);
+
+    const resumed = resumeSession('resume-1', 'app', '/repo');
+    expect(resumed.startTime).toBe(started.startTime);
+    expect(resumed.observations).toHaveLength(1);
+    expect(getPreCompactKnowledge('resume-1', 0)).toEqual(['_claude-mem/projects/app/knowledge/jwt.md']);
+
+    startSession('resume-1', 'app', '/repo');
+    expect(getPreCompactKnowledge('resume-1', 0)).toEqual([]);
+  });
+
+  test('reactivates a stopped session and starts an unknown one', () => {
+    startSession('resume-2', 'app', '/repo');
+    endSession('resume-2', 'stop');
+    expect(resumeSession('resume-2', 'app', '/repo').status).toBe('active');
+    expect(addObservation('resume-2', observation('command', { command: 'bun test' }))).toBe(true);
+
+    expect(resumeSession('resume-3', 'app', '/repo').observations).toEqual([]);
+  });
+
+  test('markCompacted returns the previous compaction and clearInjectedNotes forgets injections', () => {
+    startSession('resume-4', 'app', '/repo');
+    expect(markCompacted('resume-4')).toBeUndefined();
+    expect(markCompacted('resume-4')).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+
+    recordInjectedNotes('resume-4', ['a.md']);
+    clearInjectedNotes('resume-4');
+    expect(getInjectedNotes('resume-4')).toEqual([]);
+  });
+});
+
+describe('buildCompactionRecap', () => {
+  test('recaps requests, work, open errors and captured knowledge', () => {
+    const recap = buildCompactionRecap(session([
+      prompt('Add refresh tokens to the auth middleware'),
+      observation('file_edit', { path: '/repo/src/auth.ts', changeType: 'modify' }),
+      observation('error', { type: 'TypeError', message: 'token is undefined', context: 'Command: bun test' }),
+      prompt('Now fix the   logout race'),
+    ]), [{ path: '_claude-mem/projects/app/knowledge/jwt-refresh.md', title: 'JWT refresh flow' }], undefined, 2000);
+
+    expect(recap.text).toContain('## Still Failing\n- TypeError: token is undefined');
+    expect(recap.text).toContain('## Recent Requests\n- Now fix the logout race\n- Add refresh tokens to the auth middleware');
+    expect(recap.text).toContain('## What Was Done\n- Edited src/auth.ts');
+    expect(recap.text).toContain('- [[_claude-mem/projects/app/knowledge/jwt-refresh|JWT refresh flow]]');
+  });
+
+  test('leaves out work from before the previous compaction', () => {
+    const recap = buildCompactionRecap(session([
+      prompt('Set up the database schema', '2026-03-01T09:30:00Z'),
+      observation('file_edit', { path: '/repo/db/schema.sql', changeType: 'create' }, '2026-03-01T09:40:00Z'),
+      prompt('Write the migration runner', '2026-03-01T11:00:00Z'),
+    ]), [], '2026-03-01T10:00:00Z', 2000);
+
+    expect(recap.text).toContain('Write the migration runner');
+    expect(recap.text).not.toContain('database schema');
+    expect(recap.text).not.toContain('What Was Done');
+  });
+
+  test('is empty when nothing happened', () => {
+    expect(buildCompactionRecap(session([]), [], undefined, 2000).text).toBe('');
+  });
+});
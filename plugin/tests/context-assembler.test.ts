@@ -0,0 +1,127 @@
+import { describe, test, expect } from 'bun:test';
+import { estimateTokens, assembleContext, shortenText } from '../src/shared/context-assembler.js';
+import type { ContextEntry, ContextSection } from '../src/shared/context-assembler.js';
+
+function entries(prefix: string, count: number, words = 20): ContextEntry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `mem/${prefix}-${i}.md`,
+    text: `- **${prefix} ${i}**: ${'detail '.repeat(words).trim()}`,
+    brief: `- [[mem/${prefix}-${i}]]`,
+    link: `mem/${prefix}-${i}`,
+  }));
+}
+
+function section(heading: string, fields: Partial<ContextSection>): ContextSection {
+  return { heading, priority: 1, noun: heading.toLowerCase(), entries: [], ...fields };
+}
+
+describe('estimateTokens', () => {
+  test('English prose is about a token per word', () => {
+    expect(estimateTokens('The quick brown fox jumps over the lazy dog.')).toBe(10);
+  });
+
+  test('Korean costs about a token per character', () => {
+    const korean = '세션 시작 시 컨텍스트를 주입합니다';
+    expect(estimateTokens(korean)).toBeGreaterThanOrEqual(15);
+    expect(estimateTokens(korean)).toBeGreaterThan(Math.ceil(korean.length / 4) * 2);
+  });
+
+  test('code costs more than its length suggests', () => {
+    const code = 'if (a[i] != b) { return f(x, y); }';
+    expect(estimateTokens(code)).toBeGreaterThan(Math.ceil(code.length / 4));
+  });
+});
+
+describe('assembleContext', () => {
+  test('everything fits, everything is shown in section order', () => {
+    const assembled = assembleContext('# Context', [
+      section('Errors', { priority: 2, entries: entries('error', 2, 3) }),
+      section('Sessions', { priority: 5, entries: entries('session', 1, 3) }),
+    ], 1000);
+
+    expect(assembled.included).toEqual(['mem/error-0.md', 'mem/error-1.md', 'mem/session-0.md']);
+    expect(assembled.text.indexOf('## Errors')).toBeLessThan(assembled.text.indexOf('## Sessions'));
+    expect(assembled.tokens).toBe(estimateTokens(assembled.text));
+  });
+
+  test('hidden entries are listed by link instead of cut off', () => {
+    const assembled = assembleContext('# Context', [
+      section('Errors', { noun: 'errors', entries: entries('error', 8) }),
+    ], 120);
+
+    expect(assembled.tokens).toBeLessThanOrEqual(120);
+    const hidden = Number(assembled.text.match(/- _\+(\d+) more errors: see \[\[mem\/error-\d\]\]/)![1]);
+    expect(assembled.included.length + hidden).toBe(8);
+  });
+
+  test('overflow points at the section link when there is one', () => {
+    const assembled = assembleContext('# Context', [
+      section('Errors', { noun: 'errors', moreLink: 'mem/errors/errors', entries: entries('error', 8) }),
+    ], 120);
+
+    expect(assembled.text).toContain('more errors: see [[mem/errors/errors]]_');
+    expect(assembled.text).not.toContain('[[mem/error-7]]');
+  });
+
+  test('entries that do not fit in full are shortened first', () => {
+    const assembled = assembleContext('# Context', [
+      section('Decisions', { entries: entries('decision', 3, 40) }),
+    ], 90);
+
+    expect(assembled.text).toContain('**decision 0**');
+    expect(assembled.text).toContain('- [[mem/decision-1]]');
+    expect(assembled.included).toContain('mem/decision-1.md');
+  });
+
+  test('minimum shares keep low-priority sections from being crowded out', () => {
+    const crowded = [
+      section('Errors', { priority: 5, entries: entries('error', 20) }),
+      section('Sessions', { priority: 1, entries: entries('session', 3) }),
+    ];
+
+    const withoutShare = assembleContext('# Context', crowded, 300);
+    expect(withoutShare.text).not.toContain('**session 0**');
+
+    crowded[1].minShare = 0.3;
+    const withShare = assembleContext('# Context', crowded, 300);
+    expect(withShare.text).toContain('**session 0**');
+    expect(withShare.tokens).toBeLessThanOrEqual(300);
+  });
+
+  test('maximum shares hold until the other sections are served', () => {
+    const assembled = assembleContext('# Context', [
+      section('Patterns', { priority: 1, maxShare: 0.2, entries: entries('pattern', 10) }),
+      section('Decisions', { priority: 5, entries: entries('decision', 1) }),
+    ], 2000);
+
+    // Decisions need little, so the leftover goes back to patterns
+    expect(assembled.included.filter(id => id.includes('pattern'))).toHaveLength(10);
+    expect(assembled.included).toContain('mem/decision-0.md');
+  });
+
+  test('nothing to show gives empty text', () => {
+    expect(assembleContext('# Context', [section('Errors', {})], 1000)).toEqual({ text: '', included: [], tokens: 0 });
+  });
+});
+
+describe('shortenText', () => {
+  test('text within the budget is unchanged', () => {
+    expect(shortenText('Raised the Redis timeout.', 20)).toBe('Raised the Redis timeout.');
+  });
+
+  test('cuts after the last whole sentence that fits', () => {
+    const text = 'Raised the Redis client timeout to five seconds. Reads had been timing out under load during the nightly batch import.';
+    expect(shortenText(text, 16)).toBe('Raised the Redis client timeout to five seconds. …');
+  });
+
+  test('cuts at a word boundary when no sentence keeps enough', () => {
+    const text = 'Replaced the session cache with an in-process LRU, which cut operational overhead considerably. Done.';
+    const shortened = shortenText(text, 8);
+    expect(shortened).toBe('Replaced the session cache with an…');
+    expect(estimateTokens(shortened)).toBeLessThanOrEqual(8);
+  });
+
+  test('text without spaces is cut by character', () => {
+    expect(shortenText('键值缓存超时问题已经解决', 5)).toBe('键值缓存…');
+  });
+});
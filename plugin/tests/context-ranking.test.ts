@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { spawnSync } from 'child_process';
+import { rankContextNotes, branchTerms, isSameFile } from '../src/mcp-server/utils/context-ranking.js';
+import { getWorkingTreeState } from '../hooks/scripts/utils/helpers.js';
+import type { IndexedNote } from '../src/mcp-server/utils/search-index.js';
+
+const NOW = new Date('2026-03-01T00:00:00Z').getTime();
+
+function note(notePath: string, type: string, fields: Partial<IndexedNote> = {}): IndexedNote {
+  return {
+    path: notePath,
+    title: path.basename(notePath, '.md'),
+    type,
+    kind: 'note',
+    tags: [],
+    frontmatter: {},
+    content: '',
+    updated: '2026-02-28T00:00:00Z',
+    bodyLine: 1,
+    ...fields,
+  };
+}
+
+describe('rankContextNotes', () => {
+  const clean = { changedFiles: [], recentFiles: [] };
+
+  test('without signals, open errors lead and file notes are left out', () => {
+    const ranked = rankContextNotes([
+      note('m/session.md', 'session'),
+      note('m/decision.md', 'decision'),
+      note('m/error.md', 'error'),
+      note('m/fixed.md', 'error', { frontmatter: { resolved: true } }),
+      note('m/file.md', 'file', { frontmatter: { file_path: '/repo/src/a.ts' } }),
+    ], clean, NOW);
+
+    expect(ranked.map(r => r.note.path)).toEqual(['m/error.md', 'm/decision.md', 'm/session.md']);
+  });
+
+  test('notes about changed files outrank everything else', () => {
+    const ranked = rankContextNotes([
+      note('m/error.md', 'error'),
+      note('m/file.md', 'file', { frontmatter: { file_path: '/repo/src/auth/token.ts' } }),
+      note('m/error-token.md', 'error', { content: '**File**: `/repo/src/auth/token.ts`' }),
+    ], { changedFiles: ['src/auth/token.ts'], recentFiles: [] }, NOW);
+
+    expect(ranked.map(r => r.note.path)).toEqual(['m/error-token.md', 'm/file.md', 'm/error.md']);
+    expect(ranked[1].reasons).toEqual(['src/auth/token.ts (uncommitted changes)']);
+  });
+
+  test('recent commits and mentions count less than uncommitted changes', () => {
+    const ranked = rankContextNotes([
+      note('m/committed.md', 'file', { frontmatter: { file_path: '/repo/lib/db.ts' } }),
+      note('m/dirty.md', 'file', { frontmatter: { file_path: '/repo/lib/api.ts' } }),
+      note('m/session.md', 'session', { content: '## Files Modified\n- `/repo/lib/api.ts`' }),
+    ], { changedFiles: ['lib/api.ts'], recentFiles: ['lib/db.ts'] }, NOW);
+
+    expect(ranked.map(r => r.note.path)).toEqual(['m/dirty.md', 'm/session.md', 'm/committed.md']);
+    expect(ranked[1].reasons).toEqual(['mentions lib/api.ts (uncommitted changes)']);
+  });
+
+  test('branch words raise matching notes', () => {
+    const ranked = rankContextNotes([
+      note('m/cache.md', 'decision', { title: 'Cache layout' }),
+      note('m/refresh.md', 'decision', { title: 'Token refresh strategy' }),
+    ], { branch: 'feature/ABC-12-token-refresh', changedFiles: [], recentFiles: [] }, NOW);
+
+    expect(ranked[0].note.path).toBe('m/refresh.md');
+    expect(ranked[0].reasons).toEqual(['matches branch: token, refresh']);
+  });
+
+  test('older notes decay', () => {
+    const ranked = rankContextNotes([
+      note('m/old.md', 'decision', { updated: '2025-01-01T00:00:00Z' }),
+      note('m/new.md', 'decision'),
+    ], clean, NOW);
+
+    expect(ranked[0].note.path).toBe('m/new.md');
+  });
+});
+
+describe('branchTerms', () => {
+  test('drops generic words, ticket numbers and short fragments', () => {
+    expect(branchTerms('feature/JIRA-123-token-refresh')).toEqual(['jira', 'token', 'refresh']);
+    expect(branchTerms('main')).toEqual([]);
+    expect(branchTerms(undefined)).toEqual([]);
+  });
+});
+
+describe('isSameFile', () => {
+  test('matches absolute note paths against repository-relative paths', () => {
+    expect(isSameFile('/home/me/repo/src/a.ts', 'src/a.ts')).toBe(true);
+    expect(isSameFile('src/a.ts', './src/a.ts')).toBe(true);
+    expect(isSameFile('/home/me/repo/src/data.ts', 'a.ts')).toBe(false);
+  });
+});
+
+describe('getWorkingTreeState', () => {
+  let repo: string;
+
+  const git = (...args: string[]) => {
+    const result = spawnSync('git', args, { cwd: repo, encoding: 'utf-8', timeout: 10000 });
+    if (result.status !== 0) throw new Error(result.stderr);
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'working-tree-test-'));
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    fs.mkdirSync(path.join(repo, 'src'));
+    fs.writeFileSync(path.join(repo, 'src', 'committed.ts'), 'a');
+    fs.writeFileSync(path.join(repo, 'src', 'edited.ts'), 'a');
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  test('reports uncommitted and recently committed files', () => {
+    fs.writeFileSync(path.join(repo, 'src', 'edited.ts'), 'b');
+    fs.writeFileSync(path.join(repo, 'new file.ts'), 'c');
+
+    const state = getWorkingTreeState(path.join(repo, 'src'), 'feature/x');
+    expect(state.branch).toBe('feature/x');
+    expect(state.changedFiles.sort()).toEqual(['new file.ts', 'src/edited.ts']);
+    expect(state.recentFiles).toEqual(['src/committed.ts']);
+  });
+
+  test('outside a repository everything is empty', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'not-a-repo-'));
+    try {
+      expect(getWorkingTreeState(dir)).toEqual({ branch: undefined, changedFiles: [], recentFiles: [] });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
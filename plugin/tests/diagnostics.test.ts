@@ -0,0 +1,248 @@
+import { describe, test, expect } from 'bun:test';
+import { parseDiagnostic, trimStack, findSourceLocation } from '../src/shared/diagnostics.js';
+import { extractErrorInfo } from '../hooks/scripts/utils/helpers.js';
+
+describe('parseDiagnostic', () => {
+  test('Node stack traces point at the first project frame', () => {
+    const diagnostic = parseDiagnostic([
+      '/repo/node_modules/pg/lib/client.js:45',
+      '        throw err;',
+      '        ^',
+      '',
+      "TypeError: Cannot read properties of undefined (reading 'rows')",
+      '    at Client.query (/repo/node_modules/pg/lib/client.js:45:9)',
+      '    at loadUser (/repo/src/users.ts:12:18)',
+      '    at main (/repo/src/index.ts:4:3)',
+      '    at node:internal/process/task_queues:95:5',
+      '',
+      'Node.js v20.11.0',
+    ].join('\n'));
+
+    expect(diagnostic).toMatchObject({
+      format: 'node',
+      type: 'TypeError',
+      message: "Cannot read properties of undefined (reading 'rows')",
+      file: '/repo/src/users.ts',
+      line: 12,
+    });
+    expect(diagnostic!.stack!.split('\n')).toHaveLength(5);
+  });
+
+  test('Bun errors without a named type', () => {
+    const diagnostic = parseDiagnostic('error: config not found\n      at loadConfig (/repo/src/config.ts:8:11)\n      at /repo/src/cli.ts:3:1\n');
+    expect(diagnostic).toMatchObject({ format: 'node', type: 'Error', message: 'config not found', file: '/repo/src/config.ts', line: 8 });
+  });
+
+  test('tsc diagnostics, plain and pretty', () => {
+    const plain = parseDiagnostic([
+      "src/app.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/db.ts(3,10): error TS2304: Cannot find name 'pool'.",
+    ].join('\n'));
+    expect(plain).toMatchObject({
+      format: 'tsc',
+      type: 'TS2322',
+      message: "Type 'string' is not assignable to type 'number'.",
+      file: 'src/app.ts',
+      line: 12,
+    });
+    expect(plain!.stack!.split('\n')).toHaveLength(2);
+
+    const pretty = parseDiagnostic("\x1b[96msrc/db.ts\x1b[0m:\x1b[93m3\x1b[0m:\x1b[93m10\x1b[0m - \x1b[91merror\x1b[0m\x1b[90m TS2304: \x1b[0mCannot find name 'pool'.\n\n3 const p = pool;\n");
+    expect(pretty).toMatchObject({ format: 'tsc', type: 'TS2304', file: 'src/db.ts', line: 3 });
+  });
+
+  test('ESLint stylish and unix output', () => {
+    const stylish = parseDiagnostic([
+      '',
+      '/repo/src/app.js',
+      '   4:7   warning  \'tmp\' is assigned a value but never used  no-unused-vars',
+      '  12:5   error    \'fetchUser\' is not defined               no-undef',
+      '',
+      '✖ 2 problems (1 error, 1 warning)',
+    ].join('\n'));
+    expect(stylish).toMatchObject({
+      format: 'eslint',
+      type: 'no-undef',
+      message: "'fetchUser' is not defined",
+      file: '/repo/src/app.js',
+      line: 12,
+    });
+
+    const unix = parseDiagnostic("src/app.ts:9:3: Unexpected any. Specify a different type. [Error/@typescript-eslint/no-explicit-any]\n\n1 problem");
+    expect(unix).toMatchObject({ format: 'eslint', type: '@typescript-eslint/no-explicit-any', file: 'src/app.ts', line: 9 });
+  });
+
+  test('Python tracebacks point at the innermost project frame', () => {
+    const diagnostic = parseDiagnostic([
+      'Traceback (most recent call last):',
+      '  File "/repo/manage.py", line 22, in <module>',
+      '    main()',
+      '  File "/repo/app/models.py", line 17, in save',
+      '    self.session.commit()',
+      '  File "/usr/lib/python3.12/site-packages/sqlalchemy/orm/session.py", line 1969, in commit',
+      '    raise exc',
+      'sqlalchemy.exc.IntegrityError: UNIQUE constraint failed: users.email',
+    ].join('\n'));
+
+    expect(diagnostic).toMatchObject({
+      format: 'python',
+      type: 'IntegrityError',
+      message: 'UNIQUE constraint failed: users.email',
+      file: '/repo/app/models.py',
+      line: 17,
+    });
+    expect(diagnostic!.stack).toEndWith('sqlalchemy.exc.IntegrityError: UNIQUE constraint failed: users.email');
+  });
+
+  test('Rust compiler errors and panics', () => {
+    const compile = parseDiagnostic([
+      '   Compiling app v0.1.0 (/repo)',
+      'error[E0308]: mismatched types',
+      ' --> src/main.rs:4:18',
+      '  |',
+      '4 |     let x: u32 = "five";',
+      '  |            ---   ^^^^^^ expected `u32`, found `&str`',
+      '',
+      'For more information about this error, try `rustc --explain E0308`.',
+    ].join('\n'));
+    expect(compile).toMatchObject({ format: 'rust', type: 'E0308', message: 'mismatched types', file: 'src/main.rs', line: 4 });
+    expect(compile!.stack).not.toContain('For more information');
+
+    const panic = parseDiagnostic("thread 'main' panicked at src/parser.rs:88:14:\ncalled `Option::unwrap()` on a `None` value\nnote: run with `RUST_BACKTRACE=1`");
+    expect(panic).toMatchObject({ format: 'rust', type: 'panic', message: 'called `Option::unwrap()` on a `None` value', file: 'src/parser.rs', line: 88 });
+  });
+
+  test('Go panics, test failures and compile errors', () => {
+    const panic = parseDiagnostic([
+      'panic: runtime error: index out of range [5] with length 3',
+      '',
+      'goroutine 1 [running]:',
+      'main.pick(...)',
+      '\t/repo/cmd/pick.go:14',
+      'main.main()',
+      '\t/repo/cmd/main.go:8 +0x1d',
+      'exit status 2',
+    ].join('\n'));
+    expect(panic).toMatchObject({
+      format: 'go',
+      type: 'runtime error',
+      message: 'index out of range [5] with length 3',
+      file: '/repo/cmd/pick.go',
+      line: 14,
+    });
+    expect(panic!.stack).not.toContain('exit status');
+
+    expect(parseDiagnostic('--- FAIL: TestParse (0.00s)\n    parse_test.go:21: got 3, want 4\nFAIL'))
+      .toMatchObject({ format: 'go', type: 'TestFailure', message: 'TestParse: got 3, want 4', file: 'parse_test.go', line: 21 });
+    expect(parseDiagnostic('# example.com/app\n./main.go:8:2: undefined: loadConfig'))
+      .toMatchObject({ format: 'go', type: 'CompileError', message: 'undefined: loadConfig', file: './main.go', line: 8 });
+  });
+
+  test('pytest failure blocks', () => {
+    const diagnostic = parseDiagnostic([
+      '=================================== FAILURES ===================================',
+      '___________________________________ test_add ___________________________________',
+      '',
+      '    def test_add():',
+      '>       assert add(1, 2) == 4',
+      'E       assert 3 == 4',
+      'E        +  where 3 = add(1, 2)',
+      '',
+      'tests/test_math.py:5: AssertionError',
+      '=========================== short test summary info ============================',
+      'FAILED tests/test_math.py::test_add - assert 3 == 4',
+    ].join('\n'));
+
+    expect(diagnostic).toMatchObject({
+      format: 'pytest',
+      type: 'AssertionError',
+      message: 'assert 3 == 4',
+      file: 'tests/test_math.py',
+      line: 5,
+    });
+    expect(diagnostic!.stack).not.toContain('short test summary');
+  });
+
+  test('jest and vitest failure blocks', () => {
+    const jest = parseDiagnostic([
+      ' FAIL  src/sum.test.ts',
+      '  ● sum › adds numbers',
+      '',
+      '    expect(received).toBe(expected) // Object.is equality',
+      '',
+      '    Expected: 4',
+      '    Received: 3',
+      '',
+      '      3 | test(\'adds numbers\', () => {',
+      '    > 4 |   expect(sum(1, 2)).toBe(4);',
+      '        |                     ^',
+      '',
+      '      at Object.<anonymous> (src/sum.test.ts:4:21)',
+      '',
+      'Tests:       1 failed, 3 passed, 4 total',
+    ].join('\n'));
+    expect(jest).toMatchObject({
+      format: 'jest',
+      type: 'TestFailure',
+      message: 'expect(received).toBe(expected) // Object.is equality',
+      file: 'src/sum.test.ts',
+      line: 4,
+    });
+    expect(jest!.stack).toStartWith('● sum › adds numbers');
+
+    const vitest = parseDiagnostic([
+      ' FAIL  src/sum.test.ts > sum > adds numbers',
+      'AssertionError: expected 3 to be 4 // Object.is equality',
+      ' ❯ src/sum.test.ts:4:21',
+      '',
+      '⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯',
+    ].join('\n'));
+    expect(vitest).toMatchObject({ format: 'jest', type: 'AssertionError', message: 'expected 3 to be 4 // Object.is equality', file: 'src/sum.test.ts', line: 4 });
+  });
+
+  test('unrecognized output gives null', () => {
+    expect(parseDiagnostic('npm ERR! missing script: lint')).toBeNull();
+    expect(findSourceLocation('See node_modules/x/index.js:3 and src/app.ts:14')).toEqual({ file: 'src/app.ts', line: 14 });
+  });
+});
+
+describe('trimStack', () => {
+  test('collapses dependency frames and caps the length', () => {
+    const stack = [
+      'TypeError: boom',
+      '    at a (/repo/node_modules/x/a.js:1:1)',
+      '    at b (/repo/node_modules/x/b.js:2:1)',
+      '    at run (/repo/src/run.ts:3:1)',
+      '    at node:internal/timers:5:1',
+    ].join('\n');
+
+    expect(trimStack(stack)).toBe([
+      'TypeError: boom',
+      '    … 2 library frames',
+      '    at run (/repo/src/run.ts:3:1)',
+      '    … 1 library frame',
+    ].join('\n'));
+    expect(trimStack(stack, 2)).toBe('TypeError: boom\n    … 2 library frames\n… 2 more lines');
+  });
+});
+
+describe('extractErrorInfo', () => {
+  test('fills type, message, location and stack from the output', () => {
+    const info = extractErrorInfo('Bash', { command: 'python manage.py migrate' }, {
+      isError: true,
+      content: [{
+        type: 'text',
+        text: 'Traceback (most recent call last):\n  File "app/db.py", line 9, in connect\n    raise ConnectionError("refused")\nConnectionError: refused',
+      }],
+    });
+
+    expect(info).toMatchObject({
+      type: 'ConnectionError',
+      message: 'refused',
+      file: 'app/db.py',
+      line: 9,
+      context: 'Command: python manage.py migrate',
+    });
+    expect(info.stack).toStartWith('Traceback (most recent call last):');
+  });
+});
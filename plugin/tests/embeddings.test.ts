@@ -0,0 +1,192 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import {
+  HashingEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  chunkText,
+  cosineSimilarity,
+} from '../src/mcp-server/utils/embeddings.js';
+
+describe('Hashing Embedding Provider', () => {
+  const provider = new HashingEmbeddingProvider(256);
+
+  test('produces deterministic unit vectors', async () => {
+    const [a, b] = await provider.embed(['Remove the Redis cache', 'Remove the Redis cache']);
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 5);
+  });
+
+  test('related wording is closer than unrelated text', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'why did we drop Redis',
+      'Removed Redis caching in favor of an in-process LRU',
+      'Configure ESLint rules for the monorepo',
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  test('inflected forms share features', async () => {
+    const [a, b, c] = await provider.embed(['migrating', 'migration', 'keyboard']);
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(cosineSimilarity(a, c));
+  });
+});
+
+describe('chunkText', () => {
+  test('short content is a single chunk', () => {
+    expect(chunkText('one two three')).toEqual(['one two three']);
+    expect(chunkText('')).toEqual(['']);
+  });
+
+  test('long content is split into overlapping windows', () => {
+    const words = Array.from({ length: 25 }, (_, i) => `w${i}`).join(' ');
+    const chunks = chunkText(words, 10, 2);
+    expect(chunks[0].split(' ')).toHaveLength(10);
+    expect(chunks[1].startsWith('w8 w9')).toBe(true);
+    expect(chunks[chunks.length - 1].endsWith('w24')).toBe(true);
+  });
+});
+
+describe('OpenAI-compatible Embedding Provider', () => {
+  test('posts to /embeddings and orders vectors by index', async () => {
+    let received: { model: string; input: string[] } | null = null;
+    let auth: string | null = null;
+    const server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        received = await req.json() as { model: string; input: string[] };
+        auth = req.headers.get('authorization');
+        return Response.json({
+          data: [
+            { index: 1, embedding: [0, 2] },
+            { index: 0, embedding: [3, 0] },
+          ],
+        });
+      },
+    });
+
+    try {
+      const provider = new OpenAIEmbeddingProvider({
+        baseUrl: `http://localhost:${server.port}/v1/`,
+        model: 'local-model',
+        apiKey: 'secret',
+      });
+      const vectors = await provider.embed(['first', 'second']);
+
+      expect(received!).toEqual({ model: 'local-model', input: ['first', 'second'] });
+      expect(auth!).toBe('Bearer secret');
+      expect(vectors).toEqual([[1, 0], [0, 1]]);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test('reports HTTP errors', async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => new Response('model not loaded', { status: 503 }),
+    });
+
+    try {
+      const provider = new OpenAIEmbeddingProvider({ baseUrl: `http://localhost:${server.port}`, model: 'm' });
+      await expect(provider.embed(['x'])).rejects.toThrow('503');
+    } finally {
+      server.stop(true);
+    }
+  });
+});
+
+describe('Semantic search modes', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'embeddings-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    // Keep the index database inside the temp dir (default hashing provider)
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Remove Redis cache',
+      content: 'Replaced the Redis session cache with an in-process LRU to cut operational overhead.',
+      project: 'test-project',
+    });
+    await vault.writeNote({
+      type: 'learning',
+      title: 'ESLint flat config',
+      content: 'The monorepo uses the ESLint flat config format with shared rules.',
+      path: 'global/learnings/eslint.md',
+    });
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('semantic mode finds notes that do not contain every query word', async () => {
+    expect(await vault.searchNotes('why did we drop Redis')).toHaveLength(0);
+
+    const results = await vault.searchNotes('why did we drop Redis', { mode: 'semantic' });
+    expect(results[0].title).toBe('Remove Redis cache');
+  });
+
+  test('hybrid mode keeps exact keyword hits on top', async () => {
+    const results = await vault.searchNotes('ESLint', { mode: 'hybrid' });
+    expect(results[0].title).toBe('ESLint flat config');
+  });
+
+  test('field filters and exclusions still apply in semantic mode', async () => {
+    expect(await vault.searchNotes('redis cache type:learning', { mode: 'semantic' })).toHaveLength(0);
+    expect(await vault.searchNotes('redis cache -LRU', { mode: 'semantic' })).toHaveLength(0);
+  });
+
+  test('edited notes are re-embedded', async () => {
+    await vault.writeNote({
+      type: 'learning',
+      title: 'ESLint flat config',
+      content: 'Kafka consumers must commit offsets manually.',
+      path: 'global/learnings/eslint.md',
+    });
+
+    const results = await vault.searchNotes('kafka offsets', { mode: 'semantic' });
+    expect(results[0].title).toBe('ESLint flat config');
+  });
+
+  test('a note whose embedding fails partway is embedded again next time', async () => {
+    // Long enough to span more than one embedding batch
+    const words = Array.from({ length: 4000 }, (_, i) => `word${i % 500}`).join(' ');
+    await vault.writeNote({ type: 'learning', title: 'Long note', content: words, path: 'global/learnings/long.md' });
+
+    const hashing = new HashingEmbeddingProvider();
+    let calls = 0;
+    const failing = {
+      id: hashing.id,
+      embed: async (texts: string[]) => {
+        if (++calls > 1) throw new Error('503 Service Unavailable');
+        return hashing.embed(texts);
+      },
+    };
+    const index = vault.getSearchIndex();
+    await expect(index.updateEmbeddings(failing)).rejects.toThrow('503');
+
+    expect(await index.updateEmbeddings(hashing)).toBeGreaterThanOrEqual(1);
+    expect(await index.updateEmbeddings(hashing)).toBe(0);
+    const matches = await index.semanticSearch(hashing, 'word499');
+    expect(matches.has('_claude-mem/global/learnings/long.md')).toBe(true);
+  });
+});
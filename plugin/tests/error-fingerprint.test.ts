@@ -0,0 +1,131 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import matter from 'gray-matter';
+import { errorFingerprint, normalizeErrorMessage } from '../src/shared/error-fingerprint.js';
+import { mergeErrorNotes } from '../src/services/error-merge.js';
+
+describe('errorFingerprint', () => {
+  test('the same error in another place or run shares a fingerprint', () => {
+    const fingerprint = (message: string, file?: string) => errorFingerprint({ type: 'TypeError', message, file });
+
+    expect(fingerprint("Cannot read properties of undefined (reading 'id') at /tmp/run-8f2a/src/user.ts:40:7", '/tmp/run-8f2a/src/user.ts'))
+      .toBe(fingerprint("Cannot read properties of undefined (reading 'id') at /tmp/run-c91b/src/user.ts:12:3", 'src/user.ts'));
+    expect(fingerprint('Segfault at 0x7ffd5e8c (job 123e4567-e89b-12d3-a456-426614174000, 2026-01-02T10:11:12.123Z)'))
+      .toBe(fingerprint('Segfault at 0x55aa01ff (job 9b2f0c1e-0000-4a5b-8c7d-0123456789ab, 2026-03-04T08:00:00Z)'));
+    expect(fingerprint("Cannot read properties of undefined (reading 'id')"))
+      .not.toBe(fingerprint("Cannot read properties of undefined (reading 'name')"));
+  });
+
+  test('quoted identifiers are stripped only when configured', () => {
+    const message = "src/app.ts(12,5): error TS2304: Cannot find name 'cache'.";
+    expect(normalizeErrorMessage(message)).toBe("src/app.ts: error TS2304: Cannot find name 'cache'.");
+    expect(normalizeErrorMessage(message, { stripQuotedIdentifiers: true })).toBe("src/app.ts: error TS2304: Cannot find name '<id>'.");
+    expect(normalizeErrorMessage('File "app/models.py", line 17, in save')).toBe('File "app/models.py", line, in save');
+  });
+});
+
+describe('mergeErrorNotes', () => {
+  let errorsDir: string;
+
+  function writeErrorNote(name: string, message: string, firstSeen: string, lastSeen: string, sessions: string[], rows: string[]): void {
+    fs.writeFileSync(path.join(errorsDir, `${name}.md`), `---
+type: error
+title: "Error: TypeError"
+project: app
+created: ${firstSeen}
+updated: ${lastSeen}
+error_type: TypeError
+error_hash: ${name}
+first_seen: ${firstSeen}
+last_seen: ${lastSeen}
+occurrences: ${rows.length}
+resolved: false
+sessions:
+${sessions.map(id => `  - ${id}`).join('\n')}
+---
+
+# Error: TypeError
+
+## Summary
+
+> [!danger] Error Pattern
+> ${message}
+
+## Context
+
+**File**: \`src/user.ts\`
+**Line**: unknown
+
+## Error Message
+
+\`\`\`
+${message}
+\`\`\`
+
+## Resolution
+
+> [!success] Solution
+> _Not yet resolved_
+
+## Occurrences
+
+| Date | Session | Context |
+|------|---------|---------|
+${rows.join('\n')}
+`);
+  }
+
+  beforeEach(() => {
+    errorsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'error-merge-test-'));
+    fs.writeFileSync(path.join(errorsDir, 'errors.md'), '---\ntype: error\ntitle: "Errors - app"\ntags:\n  - index\n---\n# Errors\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(errorsDir, { recursive: true, force: true });
+  });
+
+  test('folds near-duplicates into one note under the new fingerprint', () => {
+    writeErrorNote('aaaaaaaaaaaa', 'x is undefined at /tmp/a/src/user.ts:4:1', '2026-01-01T10:00:00.000Z', '2026-01-03T10:00:00.000Z', ['s1', 's2'], [
+      '| 2026-01-03 | s2 | Command: npm test |',
+      '| 2026-01-01 | s1 | First occurrence |',
+    ]);
+    writeErrorNote('bbbbbbbbbbbb', 'x is undefined at /tmp/b/src/user.ts:9:2', '2026-01-02T10:00:00.000Z', '2026-01-05T10:00:00.000Z', ['s2', 's3'], [
+      '| 2026-01-05 | s3 | Command: npm test |',
+      '| 2026-01-02 | s2 | First occurrence |',
+    ]);
+    writeErrorNote('cccccccccccc', 'something else entirely', '2026-01-01T10:00:00.000Z', '2026-01-01T10:00:00.000Z', ['s1'], [
+      '| 2026-01-01 | s1 | First occurrence |',
+    ]);
+
+    const hash = errorFingerprint({ type: 'TypeError', message: 'x is undefined at /tmp/b/src/user.ts:9:2', file: 'src/user.ts' });
+    const other = errorFingerprint({ type: 'TypeError', message: 'something else entirely', file: 'src/user.ts' });
+
+    expect(mergeErrorNotes(errorsDir, { stripQuotedIdentifiers: false }, { dryRun: true })).toEqual([
+      { into: hash, from: ['aaaaaaaaaaaa', 'bbbbbbbbbbbb'], occurrences: 4 },
+      { into: other, from: ['cccccccccccc'], occurrences: 1 },
+    ].sort((a, b) => a.into.localeCompare(b.into)));
+    expect(fs.readdirSync(errorsDir)).toHaveLength(4);
+
+    mergeErrorNotes(errorsDir, { stripQuotedIdentifiers: false });
+    expect(fs.readdirSync(errorsDir).sort()).toEqual([`${hash}.md`, `${other}.md`, 'errors.md'].sort());
+
+    const merged = fs.readFileSync(path.join(errorsDir, `${hash}.md`), 'utf-8');
+    const { data } = matter(merged);
+    expect(data.error_hash).toBe(hash);
+    expect(data.occurrences).toBe(4);
+    expect(data.sessions).toEqual(['s1', 's2', 's3']);
+    expect(data.merged_from).toEqual(['aaaaaaaaaaaa', 'bbbbbbbbbbbb']);
+    expect(new Date(data.first_seen).toISOString()).toBe('2026-01-01T10:00:00.000Z');
+    expect(new Date(data.last_seen).toISOString()).toBe('2026-01-05T10:00:00.000Z');
+    expect(merged).toContain([
+      '| 2026-01-05 | s3 | Command: npm test |',
+      '| 2026-01-03 | s2 | Command: npm test |',
+      '| 2026-01-02 | s2 | Recurring |',
+      '| 2026-01-01 | s1 | First occurrence |',
+    ].join('\n'));
+
+    expect(mergeErrorNotes(errorsDir, { stripQuotedIdentifiers: false })).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import matter from 'gray-matter';
+import { findResolvedErrors, resolveErrorNote, reopenErrorNote, RESOLUTION_PLACEHOLDER } from '../src/services/error-resolution.js';
+import { extractErrorInfo } from '../hooks/scripts/utils/helpers.js';
+import type { Observation } from '../src/shared/types.js';
+
+let nextId = 0;
+
+function observation(tool: string, type: Observation['type'], data: Record<string, unknown>, isError = false): Observation {
+  return { id: `o${nextId++}`, timestamp: '2026-01-01T00:00:00.000Z', tool, type, isError, data };
+}
+
+const failed = (command: string, message: string, file?: string) =>
+  observation('Bash', 'error', { type: 'Error', message, file, context: `Command: ${command}` }, true);
+const ran = (command: string) => observation('Bash', 'command', { command, exitCode: 0 });
+const edited = (path: string) => observation('Edit', 'file_edit', { path, language: 'typescript', changeType: 'modify', summary: '+1 -1' });
+
+describe('findResolvedErrors', () => {
+  test('the same command succeeding resolves its error', () => {
+    const error = failed('npm run build', 'Cannot find module ./cache');
+    const fix = edited('/repo/src/index.ts');
+
+    expect(findResolvedErrors([error, fix], ran('npm run build  -- --verbose'))).toEqual([
+      { error, fixes: [fix], via: '`npm run build -- --verbose` succeeded' },
+    ]);
+    expect(findResolvedErrors([error, fix], ran('npm run lint'))).toEqual([]);
+  });
+
+  test('other commands sharing a prefix, and narrowed runs, do not resolve it', () => {
+    const make = failed('make', 'No rule to make target');
+    const build = failed('npm run build', 'Cannot find module ./cache');
+    const tests = failed('bun test', 'expected 2 to be 3');
+
+    expect(findResolvedErrors([make], ran('make clean'))).toEqual([]);
+    expect(findResolvedErrors([make], ran('make -j4'))).toHaveLength(1);
+    expect(findResolvedErrors([build], ran('npm run build-docs'))).toEqual([]);
+    expect(findResolvedErrors([tests], ran('bun test tests/tokenizer.test.ts'))).toEqual([]);
+    expect(findResolvedErrors([tests], ran('bun test -t tokenizer'))).toEqual([]);
+    expect(findResolvedErrors([tests], ran('bun test --bail'))).toHaveLength(1);
+  });
+
+  test('a passing test run after edits to the erroring file resolves it', () => {
+    const error = failed('node scripts/seed.js', 'load is not a function', 'src/db/seed.ts');
+    const unrelated = [error, edited('/repo/src/other.ts')];
+    const related = [error, edited('/repo/src/db/seed.ts')];
+
+    expect(findResolvedErrors(unrelated, ran('npx vitest run'))).toEqual([]);
+    expect(findResolvedErrors(related, ran('git status'))).toEqual([]);
+    expect(findResolvedErrors(related, ran('npx vitest run')).map(r => r.via)).toEqual(['`npx vitest run` succeeded']);
+  });
+
+  test('failing and passing test runs count like other commands', () => {
+    const testRun = (failures: string[]) => observation('Bash', 'test_run', {
+      command: 'bun test', exitCode: failures.length > 0 ? 1 : 0, runner: 'bun', failures,
+      type: failures.length > 0 ? 'AssertionError' : undefined, message: failures[0], file: 'src/cache.ts',
+    }, failures.length > 0);
+    const error = testRun(['cache > expires entries']);
+    const fix = edited('/repo/src/cache.ts');
+
+    expect(findResolvedErrors([error, fix], testRun([]))).toEqual([{ error, fixes: [fix], via: '`bun test` succeeded' }]);
+  });
+
+  test('a failed tool call is resolved by the same tool succeeding on the same file', () => {
+    const error = observation('Edit', 'file_edit', { path: '/repo/a.ts', changeType: 'modify' }, true);
+    expect(findResolvedErrors([error], edited('/repo/a.ts'))).toHaveLength(1);
+    expect(findResolvedErrors([error], edited('/repo/b.ts'))).toEqual([]);
+  });
+
+  test('only the latest occurrence counts and each error is resolved once', () => {
+    const first = failed('npm test', 'expected 2 to be 3');
+    const again = failed('npm test', 'expected 2 to be 3');
+
+    expect(findResolvedErrors([first, ran('npm test'), again], ran('npm test')).map(r => r.error)).toEqual([again]);
+    expect(findResolvedErrors([first, ran('npm test')], ran('npm test'))).toEqual([]);
+    expect(findResolvedErrors([first], failed('npm test', 'other failure'))).toEqual([]);
+  });
+});
+
+describe('extractErrorInfo source locations', () => {
+  const errorFrom = (text: string) =>
+    extractErrorInfo('Bash', { command: 'npm test' }, { content: [{ type: 'text', text }], isError: true });
+
+  test.each([
+    ["src/app.ts(12,5): error TS2322: Type 'string' is not assignable", 'src/app.ts', 12],
+    ['    at load (/repo/node_modules/x/index.js:3:1)\n    at main (/repo/src/main.ts:40:7)', '/repo/src/main.ts', 40],
+    ['  File "app/models.py", line 17, in save\nValueError: bad', 'app/models.py', 17],
+  ])('%s', (text, file, line) => {
+    expect(errorFrom(text)).toMatchObject({ file, line });
+  });
+
+  test('output without a source file leaves the file unset', () => {
+    expect(errorFrom('see https://example.com/a.js:80 for details').file).toBeUndefined();
+  });
+});
+
+describe('error notes on disk', () => {
+  let tempDir: string;
+  let notePath: string;
+
+  function writeNote(resolution: string): void {
+    fs.writeFileSync(notePath, [
+      '---',
+      'type: error',
+      'updated: 2026-01-01T00:00:00.000Z',
+      'occurrences: 1',
+      'resolved: false',
+      'sessions:',
+      '  - aaaaaaaa-1111',
+      '---',
+      '',
+      '# Error: TypeError',
+      '',
+      '## Resolution',
+      '',
+      resolution,
+      '',
+      '## Occurrences',
+      '',
+      '| Date | Session | Context |',
+      '|------|---------|---------|',
+      '| 2026-01-01 | aaaaaaaa | First occurrence |',
+      '',
+    ].join('\n'));
+  }
+
+  function resolution(sessionId: string) {
+    const error = failed('npm test', 'load is not a function', 'src/db/seed.ts');
+    const fix = observation('Edit', 'file_edit', { path: 'src/db/seed.ts', summary: '+1 -1', patch: '@@ -1 +1 @@\n-a\n+b' });
+    return { resolution: { error, fixes: [fix], via: '`npm test` succeeded' }, sessionId };
+  }
+
+  function read() {
+    const raw = fs.readFileSync(notePath, 'utf-8');
+    const { data, content } = matter(raw);
+    return { raw, data, section: content.split('## Resolution\n')[1].split('\n## ')[0] };
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'error-resolution-test-'));
+    notePath = path.join(tempDir, 'abc123.md');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resolving rewrites the frontmatter and replaces the placeholder', () => {
+    writeNote(RESOLUTION_PLACEHOLDER);
+    const { resolution: fixed, sessionId } = resolution('bbbbbbbb-2222');
+    resolveErrorNote(notePath, fixed, sessionId);
+
+    const { data, section } = read();
+    expect(data.resolved).toBe(true);
+    expect(data.resolved_in_session).toBe('bbbbbbbb-2222');
+    expect(data.resolved_at).toBeDefined();
+    expect(data.updated).not.toBe('2026-01-01T00:00:00.000Z');
+    expect(section).not.toContain('_Not yet resolved_');
+    expect(section).toContain('> Resolved automatically in session bbbbbbbb: `npm test` succeeded after 1 edit.');
+    expect(section).toContain('- `src/db/seed.ts` (+1 -1)');
+    expect(section).toContain('```diff\n@@ -1 +1 @@\n-a\n+b\n```');
+    expect(read().raw).toContain('| 2026-01-01 | aaaaaaaa | First occurrence |');
+  });
+
+  test('a hand-written resolution is kept and the fix added after it', () => {
+    writeNote('Seed data must be loaded before the pool starts.');
+    const { resolution: fixed, sessionId } = resolution('bbbbbbbb-2222');
+    resolveErrorNote(notePath, fixed, sessionId);
+
+    const { section } = read();
+    expect(section.indexOf('Seed data must be loaded')).toBeLessThan(section.indexOf('Resolved automatically'));
+  });
+
+  test('a recurring error reopens the note and keeps the fix as stale', () => {
+    writeNote('Seed data must be loaded before the pool starts.\n\n' + RESOLUTION_PLACEHOLDER);
+    const first = resolution('bbbbbbbb-2222');
+    resolveErrorNote(notePath, first.resolution, first.sessionId);
+
+    fs.writeFileSync(notePath, reopenErrorNote(fs.readFileSync(notePath, 'utf-8'), '2026-02-03T10:00:00.000Z'));
+    let note = read();
+    expect(note.data.resolved).toBe(false);
+    expect(note.data).not.toHaveProperty('resolved_at');
+    expect(note.data).not.toHaveProperty('resolved_in_session');
+    expect(note.section).toContain('> [!warning] Earlier fix, recurred 2026-02-03\n> Resolved automatically in session bbbbbbbb');
+    expect(note.section).not.toContain('[!success]');
+
+    const second = resolution('cccccccc-3333');
+    resolveErrorNote(notePath, second.resolution, second.sessionId);
+    note = read();
+    expect(note.data).toMatchObject({ resolved: true, resolved_in_session: 'cccccccc-3333' });
+    expect(note.section).toContain('Seed data must be loaded');
+    expect(note.section).toContain('recurred 2026-02-03');
+    expect(note.section.indexOf('session bbbbbbbb')).toBeLessThan(note.section.indexOf('session cccccccc'));
+  });
+
+  test('an open note is left as it is', () => {
+    writeNote(RESOLUTION_PLACEHOLDER);
+    const raw = fs.readFileSync(notePath, 'utf-8');
+    expect(reopenErrorNote(raw, '2026-02-03T10:00:00.000Z')).toBe(raw);
+  });
+});
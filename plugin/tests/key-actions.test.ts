@@ -0,0 +1,147 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { extractKeyActions } from '../src/services/key-actions.js';
+import type { Session, Observation } from '../src/shared/types.js';
+
+let counter = 0;
+
+function observation(type: Observation['type'], data: Record<string, unknown>): Observation {
+  return { id: `obs-${counter++}`, timestamp: '2026-03-01T10:00:00Z', type, tool: 'Bash', isError: type === 'error', data };
+}
+
+function session(observations: Observation[]): Session {
+  return {
+    id: 'session-1',
+    project: 'app',
+    projectPath: '/repo',
+    startTime: '2026-03-01T10:00:00Z',
+    status: 'completed',
+    observations,
+    filesModified: [],
+    commandsRun: 0,
+    errorsEncountered: 0,
+  };
+}
+
+describe('extractKeyActions', () => {
+  test('lists the most edited files relative to the project', () => {
+    const actions = extractKeyActions(session([
+      observation('file_edit', { path: '/repo/src/a.ts', changeType: 'modify' }),
+      observation('file_edit', { path: '/repo/src/b.ts', changeType: 'create' }),
+      observation('file_edit', { path: '/repo/src/b.ts', changeType: 'modify' }),
+      observation('file_edit', { path: '/repo/src/b.ts', changeType: 'modify' }),
+      observation('file_edit', { path: '/elsewhere/c.ts', changeType: 'modify' }),
+      observation('file_edit', { path: '/repo/src/d.ts', changeType: 'delete' }),
+    ]));
+
+    expect(actions).toEqual(['Created src/b.ts', 'Edited src/a.ts', 'Edited /elsewhere/c.ts']);
+  });
+
+  test('keeps notable commands and drops ones that only look around', () => {
+    const actions = extractKeyActions(session([
+      observation('command', { command: 'ls -la', exitCode: 0 }),
+      observation('command', { command: 'git status', exitCode: 0 }),
+      observation('command', { command: 'node scripts/seed.js', exitCode: 0 }),
+      observation('command', { command: 'bun test', exitCode: 0 }),
+      observation('command', { command: 'bun test', exitCode: 0 }),
+    ]));
+
+    expect(actions).toEqual(['Ran `bun test` (2 times)', 'Ran `node scripts/seed.js`']);
+  });
+
+  test('an error is resolved when its command later succeeds', () => {
+    const actions = extractKeyActions(session([
+      observation('error', { type: 'TypeError', message: 'x is undefined', context: 'Command: bun test' }),
+      observation('error', { type: 'Error', message: 'build failed', context: 'Command: bun run build' }),
+      observation('command', { command: 'bun test', exitCode: 0 }),
+    ]), ['JWT refresh flow']);
+
+    expect(actions).toEqual([
+      'Ran `bun test`',
+      'Resolved TypeError: x is undefined',
+      'Captured knowledge: JWT refresh flow',
+    ]);
+  });
+
+  test('errors resolve on the same command as in error notes, not any sharing its prefix', () => {
+    const long = `node scripts/migrate.js ${'--table=users '.repeat(10)}`.trim();
+    const actions = extractKeyActions(session([
+      observation('error', { type: 'Error', message: 'tests failed', context: 'Command: bun test' }),
+      observation('error', { type: 'Error', message: 'migration failed', context: `Command: ${long.substring(0, 100)}` }),
+      observation('command', { command: 'bun test tests/tokenizer.test.ts', exitCode: 0 }),
+      observation('command', { command: long, exitCode: 0 }),
+    ]), []);
+
+    expect(actions).toContain('Resolved Error: migration failed');
+    expect(actions).not.toContain('Resolved Error: tests failed');
+  });
+});
+
+describe('VaultManager.updateSessionSummary', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'key-actions-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(path.join(vaultPath, '_claude-mem', 'projects', 'app', 'sessions'), { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    fs.writeFileSync(
+      path.join(vaultPath, '_claude-mem', 'projects', 'app', 'sessions', '2026-03-01_session1.md'),
+      [
+        '---',
+        'type: session',
+        'title: "Session 2026-03-01"',
+        'project: app',
+        'created: 2026-03-01T10:00:00Z',
+        'key_actions:',
+        '  - "Edited src/a.ts"',
+        '---',
+        '',
+        '# Session: 2026-03-01',
+        '',
+        '## Summary',
+        '',
+        'Modified 1 files, ran 2 commands.',
+        '',
+        '## Files Modified',
+        '',
+        '- `/repo/src/a.ts`',
+        '',
+      ].join('\n')
+    );
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('replaces the summary and feeds recent-session context', async () => {
+    await vault.updateSessionSummary('projects/app/sessions/2026-03-01_session1.md', {
+      summary: 'Added token refresh; the logout race is still open.',
+      keyActions: ['Edited src/a.ts', 'Captured knowledge: JWT refresh flow'],
+    });
+
+    const note = await vault.readNote('projects/app/sessions/2026-03-01_session1.md');
+    expect(note.content).toContain('## Summary\n\nAdded token refresh; the logout race is still open.\n\n## Files Modified');
+    expect(note.content).not.toContain('Modified 1 files');
+
+    const context = await vault.getProjectContext('app');
+    expect(context.recentSessions[0].summary).toBe('Added token refresh; the logout race is still open.');
+    expect(context.recentSessions[0].keyActions).toEqual(['Edited src/a.ts', 'Captured knowledge: JWT refresh flow']);
+  });
+});
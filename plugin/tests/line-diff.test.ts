@@ -0,0 +1,110 @@
+import { describe, test, expect } from 'bun:test';
+import { diffLines, diffStats, formatPatch } from '../src/shared/line-diff.js';
+import { extractFileInfo } from '../hooks/scripts/utils/helpers.js';
+import { extractKeyActions } from '../src/services/key-actions.js';
+import type { Session } from '../src/shared/types.js';
+
+const noText = { content: [] };
+
+describe('diffLines', () => {
+  test('keeps unchanged lines and pairs removals with additions', () => {
+    const diff = diffLines('a\nb\nc\nd\n', 'a\nB\nc\nd\ne\n');
+    expect(diff.map(line => `${line.op}${line.text}`)).toEqual([' a', '-b', '+B', ' c', ' d', '+e']);
+    expect(diffStats([diff])).toEqual({ added: 2, removed: 1 });
+  });
+
+  test('patches show changed hunks with two lines of context', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const after = before.replace('line 3', 'line three').replace('line 15', 'line fifteen');
+
+    expect(formatPatch([diffLines(before, after)])).toBe([
+      '@@', ' line 1', ' line 2', '-line 3', '+line three', ' line 4', ' line 5',
+      '@@', ' line 13', ' line 14', '-line 15', '+line fifteen', ' line 16', ' line 17',
+    ].join('\n'));
+  });
+
+  test('patches are cut to their size limit', () => {
+    const after = Array.from({ length: 200 }, (_, i) => `const value${i} = ${i};`).join('\n');
+    const patch = formatPatch([diffLines('', after)], 300);
+
+    expect(patch.length).toBeLessThanOrEqual(300);
+    expect(patch).toStartWith('@@\n+const value0 = 0;');
+    expect(patch).toMatch(/… \d+ more lines$/);
+  });
+});
+
+describe('extractFileInfo', () => {
+  test('Edit counts lines from its old and new strings', () => {
+    const info = extractFileInfo(
+      { file_path: 'src/cache.ts', old_string: 'return load();', new_string: 'const cached = get();\nreturn cached ?? load();' },
+      noText
+    );
+
+    expect(info).toMatchObject({
+      path: 'src/cache.ts',
+      language: 'typescript',
+      changeType: 'modify',
+      linesAdded: 2,
+      linesRemoved: 1,
+      summary: '+2 -1: `const cached = get();`',
+    });
+    expect(info.patch).toBe('@@\n-return load();\n+const cached = get();\n+return cached ?? load();');
+  });
+
+  test('MultiEdit adds up its edits', () => {
+    const info = extractFileInfo({
+      file_path: 'a.py',
+      edits: [
+        { old_string: 'x = 1', new_string: 'x = 2' },
+        { old_string: 'import os\n', new_string: '' },
+      ],
+    }, noText);
+
+    expect(info).toMatchObject({ linesAdded: 1, linesRemoved: 2, changeType: 'modify' });
+    expect(info.patch!.split('@@').length).toBe(3);
+  });
+
+  test('Write is a creation or a rewrite, with removals only when known', () => {
+    const created = extractFileInfo({ file_path: 'new.ts', content: 'a\nb\n' }, { content: [{ type: 'text', text: 'File created successfully at: new.ts' }] });
+    expect(created).toMatchObject({ changeType: 'create', linesAdded: 2, linesRemoved: 0 });
+
+    const rewritten = extractFileInfo({ file_path: 'old.ts', content: 'a\nc\n' }, noText);
+    expect(rewritten).toMatchObject({ changeType: 'modify', linesAdded: 2, summary: '+2: `a`' });
+    expect(rewritten.linesRemoved).toBeUndefined();
+
+    const reported = { type: 'update', originalFile: 'a\nb\n', content: [] };
+    expect(extractFileInfo({ file_path: 'old.ts', content: 'a\nc\n' }, reported)).toMatchObject({ linesAdded: 1, linesRemoved: 1 });
+  });
+
+  test('secrets never reach the patch or summary', () => {
+    const info = extractFileInfo({ file_path: '.env', old_string: 'API_KEY=old123', new_string: 'API_KEY=new456' }, noText);
+    expect(info.patch).toBe('@@\n-API_KEY=[REDACTED:env-assignment]\n+API_KEY=[REDACTED:env-assignment]');
+    expect(info.summary).not.toContain('new456');
+  });
+});
+
+describe('key actions with line counts', () => {
+  test('file actions add up the lines changed', () => {
+    const edit = (path: string, linesAdded: number, linesRemoved?: number, changeType = 'modify') => ({
+      id: path + linesAdded,
+      timestamp: '2026-01-01T00:00:00.000Z',
+      type: 'file_edit' as const,
+      tool: 'Edit',
+      isError: false,
+      data: { path, language: 'typescript', changeType, linesAdded, linesRemoved },
+    });
+    const session: Session = {
+      id: 's1',
+      project: 'app',
+      projectPath: '/repo',
+      startTime: '2026-01-01T00:00:00.000Z',
+      status: 'active',
+      observations: [edit('/repo/a.ts', 10, 2), edit('/repo/a.ts', 5, 2), edit('/repo/b.ts', 30, 0, 'create'), edit('/repo/c.ts', 4)],
+      filesModified: [],
+      commandsRun: 0,
+      errorsEncountered: 0,
+    };
+
+    expect(extractKeyActions(session)).toEqual(['Edited a.ts (2 edits, +15 -4)', 'Created b.ts (+30 -0)', 'Edited c.ts (+4)']);
+  });
+});
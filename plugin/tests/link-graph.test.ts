@@ -0,0 +1,150 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { extractNoteLinks, createLinkResolver } from '../src/mcp-server/utils/link-graph.js';
+
+describe('extractNoteLinks', () => {
+  test('types links by where they appear', () => {
+    const links = extractNoteLinks(
+      {
+        parent: '[[mem/projects/app/sessions/sessions]]',
+        supersedes: ['[[mem/old-decision]]'],
+      },
+      [
+        '# Session',
+        'Worked on [[auth-notes|auth]].',
+        '',
+        '## Knowledge Captured',
+        '',
+        '- [[mem/projects/app/knowledge/jwt]]',
+        '',
+        '## Next',
+        'See [[todo#Later]].',
+      ].join('\n')
+    );
+
+    expect(links).toEqual([
+      { target: 'mem/projects/app/sessions/sessions', type: 'parent' },
+      { target: 'mem/old-decision', type: 'supersedes' },
+      { target: 'auth-notes', type: 'link' },
+      { target: 'mem/projects/app/knowledge/jwt', type: 'knowledge' },
+      { target: 'todo', type: 'link' },
+    ]);
+  });
+
+  test('body links repeating a frontmatter link are not duplicated', () => {
+    const links = extractNoteLinks(
+      { superseded_by: '[[mem/New]]' },
+      '> [!warning] Superseded\n> This note has been superseded by [[mem/new]]'
+    );
+    expect(links).toEqual([{ target: 'mem/new', type: 'superseded_by' }]);
+  });
+
+  test('links from index notes are index edges', () => {
+    const links = extractNoteLinks({ tags: ['index'] }, '- [[mem/projects/app/errors/errors|Errors]]');
+    expect(links).toEqual([{ target: 'mem/projects/app/errors/errors', type: 'index' }]);
+  });
+});
+
+describe('createLinkResolver', () => {
+  const resolve = createLinkResolver(['mem/a/deep/Note.md', 'mem/Note.md', 'mem/other.md']);
+
+  test('full paths and bare names resolve, case-insensitively', () => {
+    expect(resolve('mem/a/deep/note')).toBe('mem/a/deep/Note.md');
+    expect(resolve('note')).toBe('mem/Note.md');
+    expect(resolve('Other.md')).toBe('mem/other.md');
+  });
+
+  test('partial paths do not resolve by name', () => {
+    expect(resolve('deep/note')).toBeUndefined();
+    expect(resolve('missing')).toBeUndefined();
+  });
+});
+
+describe('VaultManager link graph', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'link-graph-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    await vault.writeNote({
+      type: 'session',
+      title: 'Auth session',
+      content: '# Auth session\n\nWorked on login.',
+      path: 'global/learnings/session.md',
+    });
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Use sessions',
+      content: 'Server-side sessions.',
+      path: 'global/learnings/use-sessions.md',
+    });
+    await vault.linkSessionToKnowledge('global/learnings/session.md', ['global/learnings/use-sessions.md']);
+    await vault.supersedeNote('global/learnings/use-sessions.md', {
+      type: 'decision',
+      title: 'Use JWT',
+      content: 'Stateless tokens instead.',
+      path: 'global/learnings/use-jwt.md',
+    });
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('backlinks list each linking note with its link types', async () => {
+    const backlinks = await vault.getBacklinks('Use sessions');
+    expect(backlinks.map(b => [b.title, b.linkTypes])).toEqual([
+      ['Auth session', ['knowledge']],
+      ['Use JWT', ['supersedes']],
+    ]);
+  });
+
+  test('graph follows a session to its knowledge and the note that superseded it', async () => {
+    const graph = await vault.getNoteGraph('Auth session', { depth: 2, direction: 'out' });
+    expect(graph.nodes.map(n => [n.title, n.depth])).toEqual([
+      ['Auth session', 0],
+      ['Use sessions', 1],
+      ['Use JWT', 2],
+    ]);
+    expect(graph.edges.map(e => e.type)).toEqual(['knowledge', 'superseded_by']);
+    expect(graph.truncated).toBe(false);
+  });
+
+  test('type filters and node limits apply', async () => {
+    const onlyKnowledge = await vault.getNoteGraph('Auth session', { depth: 2, types: ['knowledge'] });
+    expect(onlyKnowledge.nodes.map(n => n.title)).toEqual(['Auth session', 'Use sessions']);
+
+    const limited = await vault.getNoteGraph('Use sessions', { maxNodes: 2 });
+    expect(limited.nodes).toHaveLength(2);
+    expect(limited.truncated).toBe(true);
+  });
+
+  test('edits update the graph', async () => {
+    await vault.writeNote({
+      type: 'session',
+      title: 'Auth session',
+      content: '# Auth session\n\nNo links anymore.',
+      path: 'global/learnings/session.md',
+    });
+
+    const backlinks = await vault.getBacklinks('Use sessions');
+    expect(backlinks.map(b => b.title)).toEqual(['Use JWT']);
+  });
+});
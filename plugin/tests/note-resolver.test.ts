@@ -0,0 +1,127 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import {
+  parseNoteReference,
+  findNoteCandidates,
+  pickCandidate,
+  editDistance,
+  type NoteEntry,
+} from '../src/mcp-server/utils/note-resolver.js';
+
+describe('Note Reference Parsing', () => {
+  test('strips wikilink syntax, display text and anchors', () => {
+    expect(parseNoteReference('[[jwt-refresh-strategy]]')).toEqual({ target: 'jwt-refresh-strategy' });
+    expect(parseNoteReference('[[jwt-refresh|JWT]]').target).toBe('jwt-refresh');
+    expect(parseNoteReference('[[jwt-refresh#Decision]]')).toEqual({ target: 'jwt-refresh', heading: 'Decision' });
+    expect(parseNoteReference('![[jwt-refresh#^obs-1]]')).toEqual({ target: 'jwt-refresh', blockId: 'obs-1' });
+  });
+
+  test('leaves plain paths alone', () => {
+    expect(parseNoteReference('projects/app/notes/c#.md').target).toBe('projects/app/notes/c#.md');
+  });
+});
+
+describe('Note Candidates', () => {
+  const entries: NoteEntry[] = [
+    { path: '_mem/projects/app/decisions/jwt-refresh-strategy.md', title: 'JWT refresh strategy', aliases: ['token rotation'] },
+    { path: '_mem/global/learnings/2024-05-01_bun-test-tips.md', title: 'Bun test tips', aliases: [] },
+    { path: '_mem/projects/app/decisions/use-postgres.md', title: 'Use PostgreSQL', aliases: [] },
+  ];
+
+  test('edit distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+
+  test('matches filenames with or without the date prefix', () => {
+    expect(pickCandidate(findNoteCandidates('bun-test-tips', entries))?.title).toBe('Bun test tips');
+    expect(pickCandidate(findNoteCandidates('2024-05-01_bun-test-tips.md', entries))?.title).toBe('Bun test tips');
+  });
+
+  test('matches aliases and titles case-insensitively', () => {
+    expect(pickCandidate(findNoteCandidates('Token Rotation', entries))?.title).toBe('JWT refresh strategy');
+    expect(pickCandidate(findNoteCandidates('use postgresql', entries))?.title).toBe('Use PostgreSQL');
+  });
+
+  test('resolves close misspellings', () => {
+    expect(pickCandidate(findNoteCandidates('jwt-refesh-stratgy', entries))?.title).toBe('JWT refresh strategy');
+  });
+
+  test('does not guess for distant names', () => {
+    expect(pickCandidate(findNoteCandidates('kafka', entries))).toBeNull();
+  });
+
+  test('identical titles are ambiguous', () => {
+    const duplicated = [...entries, { path: '_mem/projects/other/decisions/x.md', title: 'Use PostgreSQL', aliases: [] }];
+    expect(pickCandidate(findNoteCandidates('Use PostgreSQL', duplicated))).toBeNull();
+  });
+});
+
+describe('readNote resolution', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'note-resolver-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    await vault.writeNote({
+      type: 'decision',
+      title: 'JWT refresh strategy',
+      content: '## Context\n\nSessions expire.\n\n## Decision\n\nRotate refresh tokens.',
+      project: 'app',
+      metadata: { aliases: ['token rotation'] },
+    });
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('reads by wikilink, title, alias and misspelled filename', async () => {
+    for (const reference of ['[[jwt-refresh-strategy]]', 'JWT refresh strategy', 'token rotation', 'jwt-refesh-strategy']) {
+      const note = await vault.readNote(reference);
+      expect(note.title).toBe('JWT refresh strategy');
+      expect(note.path).toBe('_claude-mem/projects/app/decisions/jwt-refresh-strategy.md');
+    }
+  });
+
+  test('a single alias written as a plain string resolves and breaks nothing', async () => {
+    const decisions = path.join(tempDir, 'vault', '_claude-mem', 'projects', 'app', 'decisions');
+    fs.writeFileSync(path.join(decisions, 'use-postgres.md'), '---\ntype: decision\ntitle: Use Postgres\naliases: pg choice\n---\n\n# Use Postgres\n');
+    fs.writeFileSync(path.join(decisions, 'no-aliases.md'), '---\ntype: decision\ntitle: No aliases\naliases:\n---\n\n# No aliases\n');
+    await vault.rebuildSearchIndex();
+
+    expect((await vault.readNote('pg choice')).title).toBe('Use Postgres');
+    expect((await vault.readNote('[[use-postgres]]')).title).toBe('Use Postgres');
+    expect((await vault.readNote('JWT refresh strategy')).title).toBe('JWT refresh strategy');
+    expect((await vault.getBacklinks('_claude-mem/projects/app/decisions/use-postgres.md'))).toEqual([]);
+  });
+
+  test('wikilink headings select a section', async () => {
+    const note = await vault.readNote('[[jwt-refresh-strategy#Decision]]');
+    expect(note.content).toContain('Rotate refresh tokens.');
+    expect(note.content).not.toContain('Sessions expire.');
+  });
+
+  test('lists the closest notes when nothing matches well enough', async () => {
+    await expect(vault.readNote('jwt-strategy-refresh-notes')).rejects.toThrow(
+      /Note not found: jwt-strategy-refresh-notes\nClosest matches:\n- _claude-mem\/projects\/app\/decisions\/jwt-refresh-strategy.md/
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { pinnedSection } from '../src/shared/pinned-context.js';
+import { assembleContext } from '../src/shared/context-assembler.js';
+
+describe('VaultManager pinned notes', () => {
+  let tempDir: string;
+  let vaultPath: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pinned-test-'));
+    vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    await vault.ensureProjectStructure('app');
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('a new project gets an instructions note that is only injected once written', () => {
+    const instructionsPath = path.join(vaultPath, '_claude-mem/projects/app/instructions.md');
+    expect(fs.existsSync(instructionsPath)).toBe(true);
+    expect(vault.getPinnedNotes('app')).toEqual([]);
+
+    const raw = fs.readFileSync(instructionsPath, 'utf-8');
+    fs.writeFileSync(instructionsPath, raw.replace(/_Rules and conventions[^\n]*/, 'Never run migrations against prod.'));
+
+    expect(vault.getPinnedNotes('app')).toEqual([{
+      path: '_claude-mem/projects/app/instructions.md',
+      title: 'app Instructions',
+      content: 'Never run migrations against prod.',
+      source: 'instructions',
+    }]);
+  });
+
+  test('mem_pin and mem_unpin toggle the frontmatter flag', async () => {
+    const project = await vault.writeNote({ type: 'decision', title: 'API conventions', content: 'Use kebab-case routes.', project: 'app' });
+    const global = await vault.writeNote({ type: 'pattern', title: 'Commit style', content: 'Imperative subject lines.' });
+
+    expect(await vault.setPinned(project.path, true)).toEqual({ path: project.path, changed: true });
+    expect((await vault.setPinned(project.path, true)).changed).toBe(false);
+    await vault.setPinned(global.path, true);
+
+    expect(vault.getPinnedNotes('app').map(note => [note.title, note.content])).toEqual([
+      ['API conventions', 'Use kebab-case routes.'],
+      ['Commit style', 'Imperative subject lines.'],
+    ]);
+    expect((await vault.readNote(project.path)).frontmatter.pinned).toBe(true);
+
+    expect((await vault.setPinned('API conventions', false)).changed).toBe(true);
+    expect((await vault.readNote(project.path)).frontmatter.pinned).toBeUndefined();
+    expect(vault.getPinnedNotes('app').map(note => note.title)).toEqual(['Commit style']);
+  });
+});
+
+describe('pinnedSection', () => {
+  test('keeps its reserved share ahead of bigger ranked sections', () => {
+    const pinned = pinnedSection([
+      { path: 'mem/app/instructions.md', title: 'app Instructions', content: 'Never run migrations against prod.', source: 'instructions' },
+    ], 0.3);
+    const ranked = {
+      heading: 'Known Issues',
+      priority: 4,
+      noun: 'errors',
+      entries: Array.from({ length: 40 }, (_, i) => ({
+        id: `e${i}`,
+        text: `- **Error ${i}**: a long description of something that failed during the build step`,
+        link: `e${i}`,
+      })),
+    };
+
+    const assembled = assembleContext('<!-- context -->', [pinned, ranked], 300);
+    expect(assembled.text).toContain('## Pinned\n### Project Instructions\nNever run migrations against prod.');
+    expect(assembled.included[0]).toBe('mem/app/instructions.md');
+    expect(assembled.tokens).toBeLessThanOrEqual(300);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { loadConfig, saveConfig, clearConfigCache, applyContextOverride, getDefaultConfig } from '../src/shared/config.js';
+import { loadProjectConfig, findProjectConfigFile } from '../src/shared/project-config.js';
+
+describe('applyContextOverride', () => {
+  const base = getDefaultConfig().contextInjection;
+
+  test('a profile applies under the settings given with it', () => {
+    const result = applyContextOverride(base, { profile: 'minimal', includeRecentSessions: 1 });
+    expect(result.profile).toBe('minimal');
+    expect(result.maxTokens).toBe(800);
+    expect(result.includeDecisions).toBe(false);
+    expect(result.includeFlakyTests).toBe(false);
+    expect(result.includeRecentSessions).toBe(1);
+    expect(result.promptRecall).toEqual(base.promptRecall);
+  });
+
+  test('custom profiles can be added and built-in ones adjusted', () => {
+    const withProfiles = { ...base, profiles: { review: { maxTokens: 2000, includeRecentSessions: 5 }, deep: { maxTokens: 20000 } } };
+    expect(applyContextOverride(withProfiles, { profile: 'review' }).maxTokens).toBe(2000);
+    expect(applyContextOverride(withProfiles, { profile: 'review' }).includeRelatedErrors).toBe(true);
+    expect(applyContextOverride(withProfiles, { profile: 'deep' })).toMatchObject({ maxTokens: 20000, includeRecentSessions: 10 });
+  });
+
+  test('an unknown profile is ignored', () => {
+    const result = applyContextOverride(base, { profile: 'huge' });
+    expect(result.profile).toBe('standard');
+    expect(result.maxTokens).toBe(base.maxTokens);
+  });
+});
+
+describe('loadProjectConfig', () => {
+  let tempDir: string;
+  let repoDir: string;
+  let originalConfigPath: string | undefined;
+
+  function writeGlobalConfig(config: Record<string, unknown>): void {
+    fs.writeFileSync(process.env.CONFIG_PATH!, JSON.stringify(config));
+    clearConfigCache();
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'project-config-test-'));
+    repoDir = path.join(tempDir, 'repo');
+    fs.mkdirSync(path.join(repoDir, '.git'), { recursive: true });
+    fs.mkdirSync(path.join(repoDir, 'packages', 'api'), { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config.json');
+    writeGlobalConfig({
+      vault: { path: path.join(tempDir, 'vault'), memFolder: '_claude-mem' },
+      contextInjection: { profile: 'deep', maxTokens: 6000 },
+    });
+  });
+
+  afterEach(() => {
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    clearConfigCache();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('the global profile applies under the global settings', () => {
+    expect(loadConfig().contextInjection).toMatchObject({ profile: 'deep', maxTokens: 6000, includeRecentSessions: 10 });
+    expect(loadProjectConfig('app', repoDir)).toBe(loadConfig());
+  });
+
+  test('.only-context.json is found from a subdirectory up to the repository root', () => {
+    fs.writeFileSync(path.join(repoDir, '.only-context.json'), JSON.stringify({ contextInjection: { profile: 'minimal' } }));
+    fs.writeFileSync(path.join(tempDir, '.only-context.json'), JSON.stringify({ contextInjection: { profile: 'deep' } }));
+
+    const subdir = path.join(repoDir, 'packages', 'api');
+    expect(findProjectConfigFile(subdir)).toBe(path.join(repoDir, '.only-context.json'));
+    expect(loadProjectConfig('app', subdir).contextInjection).toMatchObject({ profile: 'minimal', maxTokens: 800 });
+
+    fs.rmSync(path.join(repoDir, '.only-context.json'));
+    expect(findProjectConfigFile(subdir)).toBeNull();
+  });
+
+  test('saved settings keep following the profile unless they were changed', () => {
+    const saved = loadConfig();
+    saved.enabled = false;
+    saveConfig(saved);
+
+    const written = JSON.parse(fs.readFileSync(process.env.CONFIG_PATH!, 'utf-8'));
+    expect(written.enabled).toBe(false);
+    expect(written.contextInjection).toMatchObject({ profile: 'deep', maxTokens: 6000, pinnedShare: 0.3 });
+    expect(written.contextInjection).not.toHaveProperty('includeRecentSessions');
+    expect(written.contextInjection).not.toHaveProperty('includeDecisions');
+
+    // Changing the profile in the file changes every setting it owns except the explicit one
+    writeGlobalConfig({ ...written, contextInjection: { ...written.contextInjection, profile: 'minimal' } });
+    expect(loadConfig().contextInjection).toMatchObject({ profile: 'minimal', maxTokens: 6000, includeRecentSessions: 0, includeDecisions: false });
+
+    // The setup wizard saves the defaults, which name no profile-owned setting
+    saveConfig(getDefaultConfig());
+    expect(Object.keys(JSON.parse(fs.readFileSync(process.env.CONFIG_PATH!, 'utf-8')).contextInjection))
+      .toEqual(['enabled', 'profile', 'pinnedShare', 'promptRecall']);
+  });
+
+  test('the project index note wins over the repository file', () => {
+    fs.writeFileSync(path.join(repoDir, '.only-context.json'), JSON.stringify({ contextInjection: { profile: 'minimal' } }));
+    const projectDir = path.join(tempDir, 'vault', '_claude-mem', 'projects', 'app');
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(path.join(projectDir, 'app.md'), [
+      '---',
+      'title: app',
+      'context_injection:',
+      '  maxTokens: 1500',
+      '  includeDecisions: true',
+      '---',
+      '',
+      '# app',
+    ].join('\n'));
+
+    expect(loadProjectConfig('app', repoDir).contextInjection).toMatchObject({
+      profile: 'minimal',
+      maxTokens: 1500,
+      includeDecisions: true,
+      includeRelatedErrors: false,
+    });
+    expect(loadProjectConfig('app').contextInjection).toMatchObject({ profile: 'deep', maxTokens: 1500 });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import {
+  buildOverviewContent,
+  parseOverview,
+  overviewSummary,
+  describeProjectState,
+  OVERVIEW_AUTO_START,
+} from '../src/mcp-server/utils/project-overview.js';
+
+const input = {
+  project: 'app',
+  currentState: 'Auth rewrite in progress.',
+  sessions: [{ title: 'Session 2026-03-01', link: 'mem/s1', date: '2026-03-01', summary: 'Added refresh tokens.' }],
+  decisions: [{ title: 'Use JWT', link: 'mem/d1', summary: 'Stateless tokens.' }],
+  knowledge: [],
+};
+
+describe('buildOverviewContent', () => {
+  test('a new overview has an empty notes section and the auto block', () => {
+    const content = buildOverviewContent(undefined, input);
+    expect(content).toContain('# app Overview');
+    expect(content).toContain('- **2026-03-01**: Added refresh tokens. ([[mem/s1|Session 2026-03-01]])');
+    expect(content).toContain('- [[mem/d1|Use JWT]]: Stateless tokens.');
+    expect(parseOverview(content)).toEqual({ notes: '', currentState: 'Auth rewrite in progress.' });
+  });
+
+  test('only the auto block is replaced', () => {
+    const edited = buildOverviewContent(undefined, input)
+      .replace(/_Add anything[^\n]*/, 'Monorepo; deploys from main.');
+    const updated = buildOverviewContent(edited, { ...input, currentState: 'Auth done.', sessions: [] });
+
+    expect(updated).toContain('Monorepo; deploys from main.');
+    expect(updated).not.toContain('Added refresh tokens');
+    expect(overviewSummary(updated)).toBe('Monorepo; deploys from main.\n\nAuth done.');
+  });
+
+  test('a block whose markers were deleted is added again below', () => {
+    const updated = buildOverviewContent('# app Overview\n\nHand-written only.', input);
+    expect(updated.startsWith('# app Overview\n\nHand-written only.\n\n' + OVERVIEW_AUTO_START)).toBe(true);
+  });
+});
+
+describe('describeProjectState', () => {
+  test('summarizes counts and the latest session', () => {
+    expect(describeProjectState({
+      sessions: 3,
+      firstSession: '2026-01-10',
+      lastSession: { date: '2026-03-01', summary: 'Added refresh tokens.' },
+      openErrors: 1,
+      activeDecisions: 2,
+    })).toBe('3 sessions recorded since 2026-01-10, most recently on 2026-03-01: Added refresh tokens. 1 open error, 2 active decisions.');
+  });
+});
+
+describe('VaultManager project overview', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'overview-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    await vault.writeNote({
+      type: 'session',
+      title: 'Session 2026-03-01',
+      content: '# Session\n\n## Summary\n\nAdded refresh tokens.',
+      project: 'app',
+    });
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Use JWT',
+      content: 'Stateless tokens for the API.',
+      project: 'app',
+    });
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('is written from sessions and decisions and fills the project context summary', async () => {
+    const overviewPath = await vault.updateProjectOverview('app');
+    expect(overviewPath).toBe('_claude-mem/projects/app/overview.md');
+
+    const context = await vault.getProjectContext('app');
+    expect(context.summary).toContain('1 session recorded');
+    expect(context.summary).toContain('Added refresh tokens.');
+    expect(context.summary).toContain('1 active decision');
+  });
+
+  test('a summarizer-written state survives later refreshes, hand edits always do', async () => {
+    await vault.updateProjectOverview('app', { currentState: 'An API service mid-way through an auth rewrite.' });
+
+    const fullPath = path.join(tempDir, 'vault', '_claude-mem/projects/app/overview.md');
+    const raw = fs.readFileSync(fullPath, 'utf-8');
+    fs.writeFileSync(fullPath, raw.replace(/_Add anything[^\n]*/, 'Owned by the platform team.'));
+
+    await vault.updateProjectOverview('app');
+    expect(vault.getProjectOverview('app')!.summary)
+      .toBe('Owned by the platform team.\n\nAn API service mid-way through an auth rewrite.');
+  });
+});
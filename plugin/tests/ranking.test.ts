@@ -0,0 +1,117 @@
+import { describe, test, expect } from 'bun:test';
+import { scoreNote, fuseResults, type CorpusStats } from '../src/mcp-server/utils/ranking.js';
+import type { IndexedNote } from '../src/mcp-server/utils/search-index.js';
+import type { SearchResult } from '../src/shared/types.js';
+
+const NOW = new Date('2025-06-01T00:00:00Z').getTime();
+
+function note(overrides: Partial<IndexedNote> = {}): IndexedNote {
+  return {
+    path: 'note.md',
+    title: 'Untitled',
+    type: 'learning',
+    kind: 'note',
+    tags: [],
+    frontmatter: {},
+    content: '',
+    created: '2025-06-01T00:00:00Z',
+    updated: '2025-06-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const stats: CorpusStats = {
+  documentCount: 100,
+  averageLength: 50,
+  documentFrequency: { redis: 5, cache: 40 },
+};
+
+function result(path: string, score: number): SearchResult {
+  return { id: path, title: path, type: 'learning', path, snippet: '', score, metadata: {} };
+}
+
+describe('BM25 Relevance Ranking', () => {
+  test('short precise note outranks a long note with more raw occurrences', () => {
+    const longSession = note({
+      type: 'session',
+      title: 'Session 2025-05-30',
+      content: ('We talked about many things. '.repeat(100) + 'redis ').repeat(3),
+    });
+    const decision = note({
+      type: 'decision',
+      title: 'Drop Redis',
+      content: 'We removed redis from the stack.',
+    });
+
+    const sessionScore = scoreNote(longSession, ['redis'], stats, NOW).score;
+    const decisionScore = scoreNote(decision, ['redis'], stats, NOW).score;
+
+    expect(decisionScore).toBeGreaterThan(sessionScore);
+  });
+
+  test('rare terms contribute more than common ones', () => {
+    const rare = scoreNote(note({ content: 'redis' }), ['redis'], stats, NOW).relevance;
+    const common = scoreNote(note({ content: 'cache' }), ['cache'], stats, NOW).relevance;
+
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  test('title matches are boosted', () => {
+    const filler = 'word '.repeat(49);
+    const inTitle = scoreNote(note({ title: 'Redis', content: filler + 'notes' }), ['redis'], stats, NOW).relevance;
+    const inBody = scoreNote(note({ title: 'Notes', content: filler + 'redis' }), ['redis'], stats, NOW).relevance;
+
+    expect(inTitle).toBeGreaterThan(inBody);
+  });
+
+  test('older notes decay but keep a floor', () => {
+    const fresh = scoreNote(note({ content: 'redis' }), ['redis'], stats, NOW);
+    const old = scoreNote(
+      note({ content: 'redis', created: '2023-01-01T00:00:00Z', updated: '2023-01-01T00:00:00Z' }),
+      ['redis'],
+      stats,
+      NOW
+    );
+
+    expect(fresh.recency).toBeCloseTo(1);
+    expect(old.recency).toBeLessThan(fresh.recency);
+    expect(old.recency).toBeGreaterThan(0.5);
+  });
+
+  test('decisions and patterns are favored over sessions', () => {
+    const decision = scoreNote(note({ type: 'decision' }), [], stats, NOW).typeBoost;
+    const pattern = scoreNote(note({ type: 'pattern' }), [], stats, NOW).typeBoost;
+    const session = scoreNote(note({ type: 'session' }), [], stats, NOW).typeBoost;
+
+    expect(decision).toBeGreaterThan(session);
+    expect(pattern).toBeGreaterThan(session);
+  });
+
+  test('index notes are demoted', () => {
+    const index = scoreNote(note({ type: 'decision', tags: ['index'] }), [], stats, NOW).typeBoost;
+    const decision = scoreNote(note({ type: 'decision' }), [], stats, NOW).typeBoost;
+
+    expect(index).toBeLessThan(decision);
+  });
+});
+
+describe('Reciprocal Rank Fusion', () => {
+  test('interleaves lists by rank regardless of raw score scale', () => {
+    const notes = [result('a', 900), result('b', 800)];
+    const knowledge = [result('k1', 0.2), result('k2', 0.1)];
+
+    const fused = fuseResults([notes, knowledge]).map(r => r.path);
+
+    expect(fused.slice(0, 2).sort()).toEqual(['a', 'k1']);
+    expect(fused.slice(2).sort()).toEqual(['b', 'k2']);
+  });
+
+  test('documents found by several lists rank higher', () => {
+    const fused = fuseResults([
+      [result('a', 1), result('shared', 1)],
+      [result('shared', 1), result('b', 1)],
+    ]);
+
+    expect(fused[0].path).toBe('shared');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { extractPromptTerms, recallForPrompt, recallWithTimeout, selectWithinBudget } from '../src/services/recall.js';
+import { clearConfigCache } from '../src/shared/config.js';
+import type { SearchResult } from '../src/shared/types.js';
+
+function result(title: string, snippet: string): SearchResult {
+  return { id: title, title, type: 'decision', path: `mem/${title}.md`, snippet, score: 1, metadata: {} };
+}
+
+describe('extractPromptTerms', () => {
+  test('keeps content words as written', () => {
+    expect(extractPromptTerms('Why does the Redis cache keep timing out?'))
+      .toEqual(['Redis', 'cache', 'keep', 'timing', 'out']);
+  });
+
+  test('drops duplicates by stem and bare numbers', () => {
+    expect(extractPromptTerms('migrate the migration 42 times')).toEqual(['migrate', 'times']);
+  });
+});
+
+describe('selectWithinBudget', () => {
+  test('admits results best-first until the budget is spent', () => {
+    const recall = selectWithinBudget([
+      result('first', 'a'.repeat(100)),
+      result('second', 'b'.repeat(400)),
+      result('third', 'c'.repeat(50)),
+    ], 5, 90);
+
+    expect(recall.paths).toEqual(['mem/first.md', 'mem/third.md']);
+    expect(recall.context).toContain('**first**');
+    expect(recall.context).not.toContain('**second**');
+  });
+
+  test('nothing fits, nothing is returned', () => {
+    expect(selectWithinBudget([result('x', 'y'.repeat(500))], 3, 10)).toEqual({ context: '', paths: [] });
+  });
+});
+
+describe('recallForPrompt', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+  const options = { project: 'app', mode: 'keyword' as const, maxResults: 3, maxTokens: 600 };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recall-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Redis cache timeouts',
+      content: 'Raised the Redis client timeout to 5s after cache reads timed out under load.',
+      project: 'app',
+    });
+    await vault.writeNote({
+      type: 'session',
+      title: 'Session about Redis cache',
+      content: 'Looked at Redis cache metrics.',
+      project: 'app',
+    });
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('finds decisions matching several prompt words, not sessions', async () => {
+    const recall = await recallForPrompt(vault, 'the redis cache is timing out again, what did we change?', options);
+    expect(recall.paths).toHaveLength(1);
+    expect(recall.context).toContain('Redis cache timeouts');
+  });
+
+  test('a single shared word is not enough', async () => {
+    const recall = await recallForPrompt(vault, 'set up a redis container for local development', options);
+    expect(recall.paths).toEqual([]);
+  });
+
+  test('notes injected earlier are skipped', async () => {
+    const first = await recallForPrompt(vault, 'redis cache timeouts', options);
+    const second = await recallForPrompt(vault, 'redis cache timeouts', { ...options, exclude: first.paths });
+    expect(first.paths).toHaveLength(1);
+    expect(second.context).toBe('');
+  });
+});
+
+describe('recallWithTimeout', () => {
+  let tempDir: string;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recall-timeout-test-'));
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+    clearConfigCache();
+  });
+
+  afterEach(() => {
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    clearConfigCache();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('a slow embedding provider gets null back within timeoutMs and its request is aborted', async () => {
+    let aborted: Promise<void> | undefined;
+    const server = Bun.serve({
+      port: 0,
+      fetch: req => {
+        aborted = new Promise(resolve => req.signal.addEventListener('abort', () => resolve()));
+        return new Promise(resolve => setTimeout(() => resolve(Response.json({ data: [] })), 5000));
+      },
+    });
+
+    fs.mkdirSync(path.dirname(process.env.CONFIG_PATH!), { recursive: true });
+    fs.writeFileSync(process.env.CONFIG_PATH!, JSON.stringify({
+      search: { embeddings: { provider: 'openai', baseUrl: `http://localhost:${server.port}/v1`, model: 'slow' } },
+    }));
+
+    const vault = new VaultManager(path.join(tempDir, 'vault'), '_claude-mem', { indexSync: false });
+    try {
+      await vault.writeNote({ type: 'decision', title: 'Redis cache timeouts', content: 'Raised the Redis timeout.', project: 'app' });
+
+      const started = Date.now();
+      const recall = await recallWithTimeout(vault, 'why is the redis cache timing out', {
+        project: 'app',
+        mode: 'semantic',
+        maxResults: 3,
+        maxTokens: 600,
+        timeoutMs: 200,
+      });
+
+      expect(recall).toBeNull();
+      expect(Date.now() - started).toBeLessThan(1000);
+      await aborted;
+    } finally {
+      vault.getSearchIndex().close();
+      server.stop(true);
+    }
+  });
+});
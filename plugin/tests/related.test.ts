@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { findRelatedNotes } from '../src/mcp-server/utils/related.js';
+import type { IndexedNote } from '../src/mcp-server/utils/search-index.js';
+
+function note(notePath: string, fields: Partial<IndexedNote> = {}): IndexedNote {
+  return {
+    path: notePath,
+    title: path.basename(notePath, '.md'),
+    type: 'learning',
+    kind: 'note',
+    tags: [],
+    frontmatter: {},
+    content: '',
+    bodyLine: 1,
+    ...fields,
+  };
+}
+
+describe('findRelatedNotes', () => {
+  test('links in either direction relate notes', () => {
+    const source = note('mem/a.md', { content: 'See [[b]] for details.' });
+    const linked = note('mem/b.md');
+    const backlink = note('mem/c.md', { content: 'Follows up on [[mem/a|A]].' });
+    const unrelated = note('mem/d.md');
+
+    const related = findRelatedNotes(source, [source, linked, backlink, unrelated]);
+    expect(related.map(r => r.note.path).sort()).toEqual(['mem/b.md', 'mem/c.md']);
+    expect(related.find(r => r.note.path === 'mem/b.md')!.reasons).toContain('linked from this note');
+    expect(related.find(r => r.note.path === 'mem/c.md')!.reasons).toContain('links to this note');
+  });
+
+  test('frontmatter wikilinks count as links', () => {
+    const source = note('mem/new.md', { frontmatter: { supersedes: ['[[mem/old]]'] } });
+    const old = note('mem/old.md');
+
+    expect(findRelatedNotes(source, [source, old])[0].reasons).toEqual(['linked from this note']);
+  });
+
+  test('rare shared topics outrank common tags', () => {
+    const source = note('mem/a.md', { tags: ['typescript', 'topic/auth-flow'] });
+    const sameTopic = note('mem/b.md', { frontmatter: { topics: ['auth flow'] } });
+    const sameTag = note('mem/c.md', { tags: ['typescript'] });
+    const others = ['d', 'e', 'f'].map(n => note(`mem/${n}.md`, { tags: ['typescript'] }));
+
+    const related = findRelatedNotes(source, [source, sameTopic, sameTag, ...others]);
+    expect(related[0].note.path).toBe('mem/b.md');
+    expect(related[0].reasons).toEqual(['shared topics: auth-flow']);
+    expect(related.find(r => r.note.path === 'mem/c.md')!.reasons).toEqual(['shared tags: #typescript']);
+  });
+
+  test('generic type and project tags are ignored', () => {
+    const source = note('mem/a.md', { tags: ['decision', 'project/app', 'auto-extracted'] });
+    const other = note('mem/b.md', { tags: ['decision', 'project/app', 'auto-extracted'] });
+
+    expect(findRelatedNotes(source, [source, other])).toHaveLength(0);
+  });
+
+  test('shared sessions and files are explained', () => {
+    const error = note('mem/errors/type-error.md', {
+      type: 'error',
+      frontmatter: { sessions: ['abc12345-session'] },
+      content: '**File**: `src/auth.ts`',
+    });
+    const session = note('mem/sessions/s.md', { type: 'session', frontmatter: { session_id: 'abc12345-session' } });
+    const file = note('mem/files/auth.md', { type: 'file', frontmatter: { file_path: 'src/auth.ts' } });
+
+    const related = findRelatedNotes(error, [error, session, file]);
+    expect(related.find(r => r.note.path === 'mem/sessions/s.md')!.reasons).toEqual(['same session: abc12345']);
+    expect(related.find(r => r.note.path === 'mem/files/auth.md')!.reasons)
+      .toEqual(['this note mentions its file src/auth.ts']);
+  });
+
+  test('index notes are neither results nor shared link targets', () => {
+    const index = note('mem/projects/app/app.md', { tags: ['index'] });
+    const source = note('mem/a.md', { frontmatter: { parent: '[[mem/projects/app/app]]' } });
+    const sibling = note('mem/b.md', { frontmatter: { parent: '[[mem/projects/app/app]]' } });
+
+    expect(findRelatedNotes(source, [index, source, sibling])).toHaveLength(0);
+  });
+
+  test('respects the limit', () => {
+    const source = note('mem/a.md', { tags: ['kafka'] });
+    const others = ['b', 'c', 'd'].map(n => note(`mem/${n}.md`, { tags: ['kafka'] }));
+
+    expect(findRelatedNotes(source, [source, ...others], 2)).toHaveLength(2);
+  });
+});
+
+describe('VaultManager.findRelatedNotes', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'related-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Use JWT sessions',
+      content: 'Stateless auth with short-lived tokens.',
+      tags: ['auth'],
+      path: 'global/learnings/jwt.md',
+    });
+    await vault.writeNote({
+      type: 'learning',
+      title: 'Token refresh',
+      content: 'Refresh flow builds on [[jwt]].',
+      path: 'global/learnings/refresh.md',
+    });
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resolves the source by title and reports backlinks', async () => {
+    const related = await vault.findRelatedNotes('Use JWT sessions');
+    expect(related).toHaveLength(1);
+    expect(related[0].path).toBe('_claude-mem/global/learnings/refresh.md');
+    expect(related[0].reasons).toEqual(['links to this note']);
+  });
+
+  test('resolves near-miss names and rejects unknown notes', async () => {
+    await expect(vault.findRelatedNotes('Use JWT sesions')).resolves.toHaveLength(1);
+    await expect(vault.findRelatedNotes('nothing like it')).rejects.toThrow('Note not found');
+  });
+});
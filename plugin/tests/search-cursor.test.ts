@@ -0,0 +1,25 @@
+import { describe, test, expect } from 'bun:test';
+import { fingerprintSearch, encodeCursor, decodeCursor } from '../src/mcp-server/utils/search-cursor.js';
+
+describe('Search Cursors', () => {
+  const fingerprint = fingerprintSearch({ query: 'redis', project: 'app', tags: ['cache'] });
+
+  test('round-trips the offset', () => {
+    expect(decodeCursor(encodeCursor(20, fingerprint), fingerprint)).toBe(20);
+  });
+
+  test('fingerprint ignores key order and treats undefined as null', () => {
+    expect(fingerprintSearch({ b: 1, a: undefined })).toBe(fingerprintSearch({ a: null, b: 1 }));
+    expect(fingerprintSearch({ query: 'redis' })).not.toBe(fingerprintSearch({ query: 'redis cache' }));
+  });
+
+  test('rejects cursors from a different search', () => {
+    const other = fingerprintSearch({ query: 'postgres' });
+    expect(() => decodeCursor(encodeCursor(10, other), fingerprint)).toThrow('different search');
+  });
+
+  test('rejects malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor', fingerprint)).toThrow('Invalid cursor');
+    expect(() => decodeCursor(Buffer.from('{"o":-1,"f":"x"}').toString('base64url'), fingerprint)).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import { SearchIndex } from '../src/mcp-server/utils/search-index.js';
+
+describe('Persistent Search Index', () => {
+  let tempDir: string;
+  let vaultPath: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-test-'));
+    vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    // Keep the index database inside the temp dir
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('stores the index database under the config dir', () => {
+    const dbPath = SearchIndex.getIndexPath(vaultPath, '_claude-mem');
+    expect(dbPath.startsWith(path.join(tempDir, 'config', 'search-index'))).toBe(true);
+  });
+
+  test('writeNote makes the note searchable', async () => {
+    await vault.writeNote({
+      type: 'decision',
+      title: 'Use PostgreSQL',
+      content: 'We chose PostgreSQL for JSONB support.',
+      project: 'test-project',
+    });
+
+    const results = await vault.searchNotes('jsonb');
+    expect(results).toHaveLength(1);
+    expect(results[0].title).toBe('Use PostgreSQL');
+    expect(results[0].path).toBe('_claude-mem/projects/test-project/decisions/use-postgresql.md');
+  });
+
+  test('writeKnowledge is searchable through searchKnowledge only', async () => {
+    await vault.writeKnowledge(
+      {
+        type: 'qa',
+        title: 'Token refresh',
+        context: 'Auth flow',
+        content: 'Refresh tokens rotate on every use.',
+        keyPoints: [],
+        topics: ['auth'],
+      },
+      'test-project'
+    );
+
+    const knowledge = await vault.searchKnowledge('rotate on every use');
+    expect(knowledge).toHaveLength(1);
+    expect(knowledge[0].type).toBe('knowledge/qa');
+
+    const notes = await vault.searchNotes('rotate on every use');
+    expect(notes).toHaveLength(0);
+  });
+
+  test('supersedeNote re-indexes the old note', async () => {
+    const old = await vault.writeNote({
+      type: 'decision',
+      title: 'Use Redis',
+      content: 'Cache sessions in Redis.',
+      project: 'test-project',
+    });
+    await vault.supersedeNote(old.path, {
+      type: 'decision',
+      title: 'Use Memcached',
+      content: 'Cache sessions in Memcached.',
+    });
+
+    const [result] = vault.getSearchIndex().query({ terms: [['Cache sessions in Redis']] });
+    expect(result.frontmatter.status).toBe('superseded');
+  });
+
+  test('indexNote picks up files written directly to disk', async () => {
+    const dir = path.join(vaultPath, '_claude-mem', 'projects', 'test_project', 'errors');
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, 'abc123.md');
+    fs.writeFileSync(file, '---\ntype: error\ntitle: "Error: TypeError"\n---\n# Error\n\nundefined is not a function');
+
+    vault.indexNote(file);
+
+    const results = await vault.searchNotes('not a function', { type: 'error' });
+    expect(results).toHaveLength(1);
+  });
+
+  test('short queries still match', async () => {
+    await vault.writeNote({ type: 'learning', title: 'Go tips', content: 'Use go vet', path: 'global/learnings/go.md' });
+
+    const results = await vault.searchNotes('go');
+    expect(results.map(r => r.title)).toContain('Go tips');
+  });
+
+  test('Korean queries match regardless of particles', async () => {
+    await vault.writeNote({
+      type: 'learning',
+      title: '토큰 만료',
+      content: '로그인 직후 인증에서 오류가 발생했다. 토큰 만료 시간을 확인할 것.',
+      path: 'global/learnings/token.md',
+    });
+
+    const results = await vault.searchNotes('인증 오류');
+    expect(results).toHaveLength(1);
+    expect(results[0].snippet).toContain('**인증**에서 **오류**가');
+
+    expect(await vault.searchNotes('인증에서 발생')).toHaveLength(1);
+  });
+
+  test('English queries match inflected forms', async () => {
+    await vault.writeNote({
+      type: 'learning',
+      title: 'Schema changes',
+      content: 'Migrating the users table required two deploys.',
+      path: 'global/learnings/schema.md',
+    });
+
+    expect(await vault.searchNotes('migration deploy')).toHaveLength(1);
+  });
+
+  test('superseded notes are hidden unless requested', async () => {
+    const old = await vault.writeNote({
+      type: 'decision',
+      title: 'Use Redis',
+      content: 'Cache sessions in Redis.',
+      project: 'test-project',
+    });
+    await vault.supersedeNote(old.path, {
+      type: 'decision',
+      title: 'Use Memcached',
+      content: 'Cache sessions in Memcached instead of Redis.',
+    });
+
+    expect((await vault.searchNotes('redis')).map(r => r.title)).toEqual(['Use Memcached']);
+    expect(await vault.searchNotes('redis', { includeSuperseded: true })).toHaveLength(2);
+    expect((await vault.searchNotes('redis status:superseded')).map(r => r.title)).toEqual(['Use Redis']);
+  });
+
+  test('dateRange filters on created or updated', async () => {
+    const dir = path.join(vaultPath, '_claude-mem', 'global', 'learnings');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'old.md'),
+      '---\ntype: learning\ntitle: Old\ncreated: 2023-01-10T00:00:00.000Z\nupdated: 2024-06-20T00:00:00.000Z\n---\nlegacy build notes'
+    );
+    fs.writeFileSync(
+      path.join(dir, 'new.md'),
+      '---\ntype: learning\ntitle: New\ncreated: 2024-06-18T00:00:00.000Z\n---\ncurrent build notes'
+    );
+    await vault.rebuildSearchIndex();
+
+    const titles = async (options: Parameters<VaultManager['searchNotes']>[1]) =>
+      (await vault.searchNotes('build', options)).map(r => r.title).sort();
+
+    expect(await titles({ dateRange: { start: '2024-06-01' } })).toEqual(['New']);
+    expect(await titles({ dateRange: { end: '2023-01-10' } })).toEqual(['Old']);
+    expect(await titles({ dateRange: { start: '2024-06-01' }, dateField: 'updated' })).toEqual(['New', 'Old']);
+  });
+
+  test('results report matching lines as numbered in the file', async () => {
+    const dir = path.join(vaultPath, '_claude-mem', 'global', 'learnings');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, 'retry.md'),
+      '---\ntype: learning\ntitle: Retries\n---\n# Retries\n\nUse exponential backoff.\nCap the backoff at 30s.\n'
+    );
+    await vault.rebuildSearchIndex();
+
+    const [result] = await vault.searchNotes('backoff');
+    expect(result.matches).toEqual([
+      { line: 7, text: 'Use exponential backoff.' },
+      { line: 8, text: 'Cap the backoff at 30s.' },
+    ]);
+    expect(result.scoreBreakdown!.relevance).toBeGreaterThan(0);
+    expect(result.scoreBreakdown!.typeBoost).toBe(1.1);
+  });
+
+  test('sync detects edits and deletions made outside the vault manager', async () => {
+    const result = await vault.writeNote({
+      type: 'learning',
+      title: 'External',
+      content: 'original text',
+      path: 'global/learnings/external.md',
+    });
+    const fullPath = path.join(vaultPath, '_claude-mem', result.path);
+    const index = vault.getSearchIndex();
+
+    fs.writeFileSync(fullPath, '---\ntype: learning\ntitle: External\n---\nedited in obsidian');
+    // Force a different mtime even on coarse-grained filesystems
+    const future = new Date(Date.now() + 5000);
+    fs.utimesSync(fullPath, future, future);
+
+    expect(index.sync().indexed).toBe(1);
+    expect(index.query({ terms: [['edited in obsidian']] })).toHaveLength(1);
+    expect(index.query({ terms: [['original text']] })).toHaveLength(0);
+
+    fs.unlinkSync(fullPath);
+    expect(index.sync().removed).toBe(1);
+    expect(index.query({ terms: [['edited in obsidian']] })).toHaveLength(0);
+  });
+
+  test('rebuildSearchIndex re-indexes every note', async () => {
+    await vault.writeNote({ type: 'learning', title: 'One', content: 'first', path: 'global/learnings/one.md' });
+    await vault.writeNote({ type: 'learning', title: 'Two', content: 'second', path: 'global/learnings/two.md' });
+
+    expect(await vault.rebuildSearchIndex()).toEqual({ indexed: 2, failed: [] });
+    expect(vault.getSearchIndex().count()).toBe(2);
+  });
+
+  test('an empty type or a numeric title still indexes the note', async () => {
+    const dir = path.join(vaultPath, '_claude-mem', 'global', 'learnings');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'untyped.md'), '---\ntype:\ntitle: Untyped\n---\nredis eviction policy');
+    fs.writeFileSync(path.join(dir, 'year.md'), '---\ntype: learning\ntitle: 2024\n---\nredis upgrade notes');
+    await vault.rebuildSearchIndex();
+
+    const results = await vault.searchNotes('redis');
+    expect(results.map(r => r.title).sort()).toEqual(['2024', 'Untyped']);
+    expect(results.find(r => r.title === 'Untyped')!.type).toBe('learning');
+  });
+
+  test('notes that fail to index are reported', async () => {
+    const dir = path.join(vaultPath, '_claude-mem', 'global', 'learnings');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'ok.md'), '---\ntype: learning\ntitle: Ok\n---\nfine');
+    fs.writeFileSync(path.join(dir, 'broken.md'), '---\ntitle: [unclosed\n---\nbroken yaml');
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      expect(await vault.rebuildSearchIndex()).toEqual({
+        indexed: 1,
+        failed: ['_claude-mem/global/learnings/broken.md'],
+      });
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
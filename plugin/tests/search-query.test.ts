@@ -0,0 +1,165 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  parseSearchQuery,
+  matchesQuery,
+  matchesPredicate,
+  getTextClauses,
+  hasStatusFilter,
+  resolveDateBound,
+} from '../src/mcp-server/utils/search-query.js';
+import type { IndexedNote } from '../src/mcp-server/utils/search-index.js';
+
+function note(overrides: Partial<IndexedNote> = {}): IndexedNote {
+  return {
+    path: '_claude-mem/projects/my-app/decisions/auth.md',
+    title: 'Auth token strategy',
+    type: 'decision',
+    projectDir: 'my-app',
+    kind: 'note',
+    tags: ['decision', 'project/my-app', 'error/type'],
+    frontmatter: { project: 'my-app', topics: ['Authentication'] },
+    content: 'We refresh the access token before it expires. Redis was dropped.',
+    ...overrides,
+  };
+}
+
+describe('Search Query Parsing', () => {
+  test('splits plain words into separate required clauses', () => {
+    const parsed = parseSearchQuery('auth token refresh');
+    expect(getTextClauses(parsed)).toEqual([['auth'], ['token'], ['refresh']]);
+  });
+
+  test('keeps quoted phrases together', () => {
+    const parsed = parseSearchQuery('"access token" expires');
+    expect(parsed.clauses[0]).toEqual([{ kind: 'text', value: 'access token', phrase: true }]);
+    expect(parsed.clauses).toHaveLength(2);
+  });
+
+  test('collects exclusions separately', () => {
+    const parsed = parseSearchQuery('token -redis -"old api"');
+    expect(parsed.clauses).toHaveLength(1);
+    expect(parsed.excluded.map(a => a.value)).toEqual(['redis', 'old api']);
+  });
+
+  test('OR joins adjacent terms into one clause', () => {
+    const parsed = parseSearchQuery('jwt OR session cookie');
+    expect(getTextClauses(parsed)).toEqual([['jwt', 'session'], ['cookie']]);
+  });
+
+  test('parses known field prefixes and leaves unknown ones as text', () => {
+    const parsed = parseSearchQuery('type:decision tag:"error" https://example.com');
+    expect(parsed.clauses[0]).toEqual([{ kind: 'field', field: 'type', value: 'decision' }]);
+    expect(parsed.clauses[1]).toEqual([{ kind: 'field', field: 'tag', value: 'error' }]);
+    expect(parsed.clauses[2]).toEqual([{ kind: 'text', value: 'https://example.com', phrase: false }]);
+  });
+
+  test('treats double-dash flags as literal text', () => {
+    const parsed = parseSearchQuery('git push --force');
+    expect(parsed.excluded).toHaveLength(0);
+    expect(getTextClauses(parsed)).toEqual([['git'], ['push'], ['--force']]);
+  });
+});
+
+describe('Search Query Matching', () => {
+  test('matches non-adjacent terms', () => {
+    expect(matchesQuery(parseSearchQuery('auth refresh expires'), note())).toBe(true);
+  });
+
+  test('phrases must appear verbatim', () => {
+    expect(matchesQuery(parseSearchQuery('"access token"'), note())).toBe(true);
+    expect(matchesQuery(parseSearchQuery('"token access"'), note())).toBe(false);
+  });
+
+  test('exclusions reject matching notes', () => {
+    expect(matchesQuery(parseSearchQuery('token -redis'), note())).toBe(false);
+    expect(matchesQuery(parseSearchQuery('token -memcached'), note())).toBe(true);
+  });
+
+  test('OR accepts either alternative', () => {
+    expect(matchesQuery(parseSearchQuery('memcached OR redis'), note())).toBe(true);
+    expect(matchesQuery(parseSearchQuery('memcached OR mongo'), note())).toBe(false);
+  });
+
+  test('field filters map onto frontmatter', () => {
+    expect(matchesQuery(parseSearchQuery('title:strategy'), note())).toBe(true);
+    expect(matchesQuery(parseSearchQuery('title:redis'), note())).toBe(false);
+    expect(matchesQuery(parseSearchQuery('tag:error'), note())).toBe(true);
+    expect(matchesQuery(parseSearchQuery('project:my-app'), note())).toBe(true);
+    expect(matchesQuery(parseSearchQuery('type:session'), note())).toBe(false);
+    expect(matchesQuery(parseSearchQuery('status:active'), note())).toBe(true);
+    expect(matchesQuery(parseSearchQuery('topic:authentication'), note())).toBe(true);
+  });
+
+  test('type filter matches knowledge types', () => {
+    const knowledge = note({ type: 'learning', kind: 'knowledge', knowledgeType: 'qa' });
+    expect(matchesQuery(parseSearchQuery('type:qa'), knowledge)).toBe(true);
+    expect(matchesQuery(parseSearchQuery('type:knowledge'), knowledge)).toBe(true);
+  });
+
+  test('negated field filters exclude notes', () => {
+    const superseded = note({ frontmatter: { status: 'superseded' } });
+    expect(matchesQuery(parseSearchQuery('token -status:superseded'), superseded)).toBe(false);
+  });
+});
+
+describe('Frontmatter Predicates', () => {
+  const error = note({
+    type: 'error',
+    frontmatter: { resolved: false, occurrences: 5, error_type: 'TypeError', created: '2024-06-10T08:00:00.000Z', tags: ['error'] },
+  });
+
+  test('parses key/operator/value atoms', () => {
+    const parsed = parseSearchQuery('token occurrences>=3 -resolved=true');
+    expect(parsed.clauses[1]).toEqual([{ kind: 'predicate', key: 'occurrences', operator: '>=', value: '3' }]);
+    expect(parsed.excluded[0]).toEqual({ kind: 'predicate', key: 'resolved', operator: '=', value: 'true' });
+    expect(getTextClauses(parsed)).toEqual([['token']]);
+  });
+
+  test('compares booleans, numbers, dates and strings', () => {
+    expect(matchesQuery(parseSearchQuery('resolved=false occurrences>3'), error)).toBe(true);
+    expect(matchesQuery(parseSearchQuery('occurrences<3'), error)).toBe(false);
+    expect(matchesQuery(parseSearchQuery('error_type=typeerror'), error)).toBe(true);
+    expect(matchesQuery(parseSearchQuery('created>=2024-06-01'), error)).toBe(true);
+    expect(matchesQuery(parseSearchQuery('created<2024-06-01'), error)).toBe(false);
+  });
+
+  test('missing keys only satisfy !=', () => {
+    expect(matchesPredicate(undefined, '=', 'qa')).toBe(false);
+    expect(matchesPredicate(undefined, '!=', 'qa')).toBe(true);
+  });
+
+  test('lists match if any item matches', () => {
+    expect(matchesPredicate(['auth', 'redis'], '=', 'redis')).toBe(true);
+    expect(matchesPredicate(['auth', 'redis'], '!=', 'redis')).toBe(false);
+  });
+
+  test('quoted predicate values may contain spaces', () => {
+    const parsed = parseSearchQuery('title="Auth token strategy"');
+    expect(parsed.clauses[0][0]).toEqual({ kind: 'predicate', key: 'title', operator: '=', value: 'Auth token strategy' });
+  });
+
+  test('detects explicit status filters', () => {
+    expect(hasStatusFilter(parseSearchQuery('redis status:superseded'))).toBe(true);
+    expect(hasStatusFilter(parseSearchQuery('redis -status=active'))).toBe(true);
+    expect(hasStatusFilter(parseSearchQuery('redis'))).toBe(false);
+  });
+});
+
+describe('Date Bounds', () => {
+  const now = new Date('2024-06-15T12:00:00.000Z').getTime();
+
+  test('relative durations count back from now', () => {
+    expect(resolveDateBound('7d', 'start', now)).toBe(now - 7 * 86400000);
+    expect(resolveDateBound('2w', 'start', now)).toBe(now - 14 * 86400000);
+  });
+
+  test('date-only upper bounds cover the whole day', () => {
+    const start = resolveDateBound('2024-06-01', 'start', now);
+    const end = resolveDateBound('2024-06-01', 'end', now);
+    expect(end - start).toBe(86400000 - 1);
+  });
+
+  test('rejects unparseable dates', () => {
+    expect(() => resolveDateBound('last tuesday', 'start', now)).toThrow('Invalid date');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import matter from 'gray-matter';
+import { VaultManager } from '../src/mcp-server/utils/vault.js';
+import {
+  parseTestHistory,
+  recordTestRun,
+  findFlakyTests,
+  buildTestHistoryContent,
+  flakyTestId,
+  type TestHistory,
+} from '../src/mcp-server/utils/test-history.js';
+import type { TestRunData } from '../src/shared/types.js';
+
+const EMPTY: TestHistory = { runs: [], tests: [] };
+
+function run(failing: string[], overrides: Partial<TestRunData> = {}): TestRunData {
+  return {
+    command: 'bun test',
+    exitCode: failing.length > 0 ? 1 : 0,
+    runner: 'bun',
+    passed: 10,
+    failed: failing.length,
+    skipped: 0,
+    total: 10 + failing.length,
+    durationMs: 1500,
+    failures: failing,
+    tests: failing.map(name => ({ name, status: 'failed' as const, file: 'tests/cache.test.ts' })),
+    ...overrides,
+  };
+}
+
+function sessions(history: TestHistory, runs: Array<[string, TestRunData, string[]?]>): TestHistory {
+  return runs.reduce(
+    (current, [sessionId, data, editedFiles]) =>
+      recordTestRun(current, data, { sessionId, date: '2026-10-19', editedFiles: editedFiles || [] }),
+    history
+  );
+}
+
+describe('recordTestRun', () => {
+  test('a test that keeps flipping between sessions without edits is flaky', () => {
+    const history = sessions(EMPTY, [
+      ['11111111-aaaa', run(['cache > expires entries'])],
+      ['22222222-bbbb', run([])],
+      ['33333333-cccc', run(['cache > expires entries'])],
+    ]);
+
+    expect(history.tests[0].results.map(result => `${result.session} ${result.status}`)).toEqual(['11111111 fail', '22222222 pass', '33333333 fail']);
+    expect(findFlakyTests(history, 'mem/projects/app/test-history.md')).toEqual([{
+      name: 'cache > expires entries',
+      file: 'tests/cache.test.ts',
+      flips: 2,
+      sessions: 3,
+      lastStatus: 'fail',
+      path: 'mem/projects/app/test-history.md',
+    }]);
+  });
+
+  test('changes that follow related edits are explained', () => {
+    const history = sessions(EMPTY, [
+      ['aaaaaaaa1', run(['cache > expires entries'])],
+      ['bbbbbbbb2', run([]), ['src/cache.ts']],
+      ['cccccccc3', run(['cache > expires entries']), ['README.md', 'tests/other.test.ts']],
+    ]);
+
+    expect(history.tests[0].results).toEqual([
+      { session: 'aaaaaaaa', status: 'fail', edited: false },
+      { session: 'bbbbbbbb', status: 'pass', edited: true },
+      { session: 'cccccccc', status: 'fail', edited: false },
+    ]);
+    expect(findFlakyTests(history)).toEqual([]);
+  });
+
+  test('a clean run only passes tests that failed under the same command', () => {
+    const history = sessions(EMPTY, [
+      ['aaaaaaaa', run(['cache > expires entries'])],
+      ['bbbbbbbb', run([], { command: 'bun test tests/other.test.ts' })],
+      ['bbbbbbbb', run([])],
+    ]);
+
+    expect(history.tests[0].results.map(result => `${result.session} ${result.status}`)).toEqual(['aaaaaaaa fail', 'bbbbbbbb pass']);
+    expect(history.runs).toHaveLength(3);
+    expect(history.runs[0]).toBe('| 2026-10-19 | bbbbbbbb | bun | `bun test` | 10 passed, 0 failed | 1.5s |');
+  });
+});
+
+describe('buildTestHistoryContent', () => {
+  test('round-trips through parseTestHistory', () => {
+    const history = sessions(EMPTY, [
+      ['aaaaaaaa', run(['parse > a | b'])],
+      ['bbbbbbbb', run([]), ['src/parse.ts']],
+      ['cccccccc', run(['parse > a | b'])],
+      ['dddddddd', run([]), ['tests/cache.test.ts']],
+    ]);
+    const content = buildTestHistoryContent('app', history);
+
+    expect(parseTestHistory(content)).toEqual(history);
+    expect(content).toContain('## Flaky Tests\n\n_No flaky tests detected._');
+    expect(content).toContain('| `parse > a \\| b` | `tests/cache.test.ts` | `bun test` | fail aaaaaaaa, pass bbbbbbbb (edited), fail cccccccc, pass dddddddd (edited) |');
+  });
+});
+
+describe('VaultManager test history', () => {
+  let tempDir: string;
+  let vault: VaultManager;
+  let originalConfigPath: string | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-history-test-'));
+    const vaultPath = path.join(tempDir, 'vault');
+    fs.mkdirSync(vaultPath, { recursive: true });
+
+    originalConfigPath = process.env.CONFIG_PATH;
+    process.env.CONFIG_PATH = path.join(tempDir, 'config', 'config.json');
+
+    vault = new VaultManager(vaultPath, '_claude-mem');
+  });
+
+  afterEach(() => {
+    vault.getSearchIndex().close();
+    if (originalConfigPath === undefined) {
+      delete process.env.CONFIG_PATH;
+    } else {
+      process.env.CONFIG_PATH = originalConfigPath;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('records runs in the project note and flags flaky tests in project context', async () => {
+    for (const [sessionId, data] of [['s1', run(['cache > expires entries'])], ['s2', run([])], ['s3', run(['cache > expires entries'])]] as const) {
+      await vault.recordTestRun('app', data, { sessionId, editedFiles: [] });
+    }
+
+    const notePath = path.join(tempDir, 'vault', '_claude-mem', 'projects', 'app', 'test-history.md');
+    const { data, content } = matter(fs.readFileSync(notePath, 'utf-8'));
+    expect(data.flaky_tests).toEqual(['cache > expires entries']);
+    expect(data.tags).toContain('test-history');
+    expect(content).toContain('- `cache > expires entries` (tests/cache.test.ts): 2 result changes without related edits over 3 sessions, last failed');
+
+    const context = await vault.getProjectContext('app');
+    expect(context.flakyTests.map(test => [test.name, test.path])).toEqual([
+      ['cache > expires entries', '_claude-mem/projects/app/test-history.md'],
+    ]);
+    expect((await vault.getProjectContext('app', { includeFlakyTests: false })).flakyTests).toEqual([]);
+  });
+
+  test('each flaky test is injected under its own id, not the note path', async () => {
+    const failing = ['cache > expires entries', 'cache > evicts oldest'];
+    for (const [sessionId, data] of [['s1', run(failing)], ['s2', run([])], ['s3', run(failing)]] as const) {
+      await vault.recordTestRun('app', data, { sessionId, editedFiles: [] });
+    }
+
+    const ids = vault.getFlakyTests('app').map(flakyTestId);
+    expect(ids).toEqual([
+      '_claude-mem/projects/app/test-history.md#cache > evicts oldest',
+      '_claude-mem/projects/app/test-history.md#cache > expires entries',
+    ]);
+  });
+});
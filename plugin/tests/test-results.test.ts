@@ -0,0 +1,133 @@
+import { describe, test, expect } from 'bun:test';
+import { parseTestRun, isTestCommand } from '../src/shared/test-results.js';
+import { extractTestRunInfo } from '../hooks/scripts/utils/helpers.js';
+
+describe('parseTestRun', () => {
+  test('bun test', () => {
+    const results = parseTestRun('bun test', [
+      'bun test v1.1.0',
+      '',
+      'tests/math.test.ts:',
+      '(pass) sum > adds [0.12ms]',
+      '(fail) sum > subtracts [1.50ms]',
+      '(skip) sum > divides',
+      '',
+      ' 1 pass',
+      ' 1 skip',
+      ' 1 fail',
+      'Ran 3 tests across 1 file. [42.00ms]',
+    ].join('\n'));
+
+    expect(results).toMatchObject({ runner: 'bun', passed: 1, failed: 1, skipped: 1, total: 3, durationMs: 42, failures: ['sum > subtracts'] });
+    expect(results!.tests[0]).toEqual({ name: 'sum > subtracts', status: 'failed', file: 'tests/math.test.ts', durationMs: 2 });
+    expect(results!.tests).toHaveLength(3);
+  });
+
+  test('jest through npm test', () => {
+    const results = parseTestRun('npm test', [
+      ' FAIL  src/sum.test.ts',
+      '  sum',
+      '    ✓ adds numbers (3 ms)',
+      '    ✕ subtracts numbers (2 ms)',
+      '    ○ skipped divides',
+      '',
+      '  ● sum › subtracts numbers',
+      '',
+      '    expect(received).toBe(expected) // Object.is equality',
+      '',
+      'Tests:       1 failed, 1 skipped, 1 passed, 3 total',
+      'Time:        1.234 s',
+    ].join('\n'));
+
+    expect(results).toMatchObject({ runner: 'jest', passed: 1, failed: 1, skipped: 1, total: 3, durationMs: 1234, failures: ['sum › subtracts numbers'] });
+    expect(results!.tests.map(t => [t.name, t.status, t.file])).toEqual([
+      ['sum › subtracts numbers', 'failed', 'src/sum.test.ts'],
+      ['adds numbers', 'passed', 'src/sum.test.ts'],
+      ['divides', 'skipped', 'src/sum.test.ts'],
+    ]);
+  });
+
+  test('vitest', () => {
+    const results = parseTestRun('npx vitest run', [
+      ' ✓ src/a.test.ts (2 tests) 5ms',
+      ' ❯ src/sum.test.ts (2 tests | 1 failed) 7ms',
+      '   ✓ src/sum.test.ts > sum > adds 1ms',
+      '   × src/sum.test.ts > sum > subtracts 3ms',
+      '',
+      ' FAIL  src/sum.test.ts > sum > subtracts',
+      'AssertionError: expected 3 to be 4',
+      '',
+      ' Test Files  1 failed | 1 passed (2)',
+      '      Tests  1 failed | 3 passed (4)',
+      '   Duration  1.20s (transform 30ms)',
+    ].join('\n'));
+
+    expect(results).toMatchObject({ runner: 'vitest', passed: 3, failed: 1, total: 4, durationMs: 1200, failures: ['src/sum.test.ts > sum > subtracts'] });
+    expect(results!.tests.map(t => t.status)).toEqual(['failed', 'passed']);
+  });
+
+  test('pytest', () => {
+    const results = parseTestRun('python -m pytest -v', [
+      'tests/test_math.py::test_add PASSED                                      [ 50%]',
+      'tests/test_math.py::test_sub FAILED                                      [100%]',
+      '=========================== short test summary info ============================',
+      'FAILED tests/test_math.py::test_sub - assert 3 == 4',
+      '========================= 1 failed, 1 passed, 2 skipped in 0.12s =========================',
+    ].join('\n'));
+
+    expect(results).toMatchObject({ runner: 'pytest', passed: 1, failed: 1, skipped: 2, total: 4, durationMs: 120, failures: ['tests/test_math.py::test_sub'] });
+    expect(results!.tests[0].file).toBe('tests/test_math.py');
+  });
+
+  test('cargo test sums every test binary', () => {
+    const results = parseTestRun('cargo test', [
+      'running 2 tests',
+      'test parser::tests::parses ... ok',
+      'test parser::tests::rejects ... FAILED',
+      '',
+      'test result: FAILED. 1 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.01s',
+      '',
+      'running 1 test',
+      'test src/lib.rs - add (line 3) ... ignored',
+      'test result: ok. 2 passed; 0 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.25s',
+    ].join('\n'));
+
+    expect(results).toMatchObject({ runner: 'cargo', passed: 3, failed: 1, skipped: 1, total: 5, durationMs: 260, failures: ['parser::tests::rejects'] });
+  });
+
+  test('other commands and outputs without a summary are not test runs', () => {
+    expect(isTestCommand('npm run build')).toBe(false);
+    expect(isTestCommand('yarn test --watch=false')).toBe(true);
+    expect(parseTestRun('npm run build', 'Tests:       1 passed, 1 total')).toBeNull();
+    expect(parseTestRun('npm test', 'sh: jest: command not found')).toBeNull();
+  });
+});
+
+describe('extractTestRunInfo', () => {
+  test('failing runs carry the first failure as error info', () => {
+    const output = [
+      '___________________________________ test_sub ___________________________________',
+      'E       assert 3 == 4',
+      'tests/test_math.py:9: AssertionError',
+      '=========================== short test summary info ============================',
+      'FAILED tests/test_math.py::test_sub - assert 3 == 4',
+      '========================= 1 failed, 4 passed in 0.30s =========================',
+    ].join('\n');
+    const run = extractTestRunInfo(
+      { command: 'pytest' },
+      { isError: true, content: [{ type: 'text', text: output }] },
+      { command: 'pytest', exitCode: 1, output, isError: true }
+    );
+
+    expect(run).toMatchObject({
+      runner: 'pytest',
+      failed: 1,
+      passed: 4,
+      type: 'AssertionError',
+      message: 'assert 3 == 4',
+      file: 'tests/test_math.py',
+      line: 9,
+      context: 'Command: pytest',
+    });
+  });
+});
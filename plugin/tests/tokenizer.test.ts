@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'bun:test';
+import { tokenize, tokenizeWithOffsets, findTermSpans, stemWord } from '../src/mcp-server/utils/tokenizer.js';
+import { containsTerm } from '../src/mcp-server/utils/search-query.js';
+
+describe('Search Tokenizer', () => {
+  describe('Hangul', () => {
+    test('strips particles and endings', () => {
+      expect(tokenize('인증에서 오류가 발생했다')).toEqual(['인증', '오류', '발생']);
+      expect(tokenize('데이터를')).toEqual(['데이', '이터']);
+    });
+
+    test('keeps two-syllable words that end like a particle', () => {
+      expect(tokenize('회의')).toEqual(['회의']);
+      expect(tokenize('속도')).toEqual(['속도']);
+    });
+
+    test('splits compound nouns into bigrams', () => {
+      expect(tokenize('인증서버')).toEqual(['인증', '증서', '서버']);
+      expect(containsTerm('인증서버 설정', '서버')).toBe(true);
+    });
+
+    test('drops particles attached to Latin words', () => {
+      expect(tokenize('API를 호출')).toEqual(['api', '호출']);
+    });
+  });
+
+  test('CJK text becomes character bigrams', () => {
+    expect(tokenize('東京都')).toEqual(['東京', '京都']);
+    expect(tokenize('東')).toEqual(['東']);
+  });
+
+  describe('Latin stemming', () => {
+    test('maps inflected forms to one stem', () => {
+      const stems = ['migrate', 'migrating', 'migration', 'migrated', 'migrates'].map(stemWord);
+      expect(new Set(stems).size).toBe(1);
+      expect(stemWord('dropped')).toBe(stemWord('drop'));
+      expect(stemWord('queries')).toBe(stemWord('query'));
+    });
+
+    test('leaves short words and words with digits alone', () => {
+      expect(stemWord('go')).toBe('go');
+      expect(stemWord('status')).toBe('status');
+      expect(tokenize('v1.2.3')).toEqual(['v1', '2', '3']);
+    });
+  });
+
+  test('tracks source offsets', () => {
+    const text = 'Fix 인증에서 bug';
+    const tokens = tokenizeWithOffsets(text);
+    expect(tokens.map(t => text.substring(t.start, t.end))).toEqual(['Fix', '인증', 'bug']);
+  });
+
+  describe('matching', () => {
+    test('query particles do not have to match the note', () => {
+      expect(containsTerm('인증 오류 해결', '인증에서')).toBe(true);
+      expect(containsTerm('인증에서 오류가 났다', '인증 오류')).toBe(true);
+    });
+
+    test('phrases must be consecutive', () => {
+      expect(containsTerm('access token refresh', 'token refresh')).toBe(true);
+      expect(containsTerm('refresh the token', 'token refresh')).toBe(false);
+    });
+
+    test('terms without word characters fall back to substrings', () => {
+      expect(containsTerm('written in C++', '++')).toBe(true);
+    });
+
+    test('finds spans in the original text', () => {
+      const text = 'Caching failed. 캐시가 비었음';
+      const spans = findTermSpans(text, ['cache', '캐시']);
+      expect(spans.map(s => text.substring(s.start, s.end))).toEqual(['Caching', '캐시']);
+    });
+  });
+});